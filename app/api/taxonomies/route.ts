@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import type { ApiResponse, TaxonomyCategory } from "@/types";
+import { validateTaxonomyCategories, normalizeTaxonomyCategories } from "@/lib/vision/taxonomy";
+
+const MAX_TAXONOMIES_PER_USER = 20;
+
+// GET /api/taxonomies — list user's clustering taxonomies
+export async function GET(): Promise<NextResponse<ApiResponse>> {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const taxonomies = await prisma.taxonomy.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({ success: true, data: taxonomies });
+  } catch (error) {
+    console.error(
+      "[Taxonomies API] GET error:",
+      error instanceof Error ? error.message : "Unknown"
+    );
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch taxonomies" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/taxonomies — create a new taxonomy
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = (await request.json()) as {
+      name?: string;
+      categories?: TaxonomyCategory[];
+    };
+
+    if (!body.name || typeof body.name !== "string" || body.name.trim().length === 0) {
+      return NextResponse.json(
+        { success: false, error: "Taxonomy name is required" },
+        { status: 400 }
+      );
+    }
+
+    if (body.name.length > 100) {
+      return NextResponse.json(
+        { success: false, error: "Taxonomy name must be 100 characters or less" },
+        { status: 400 }
+      );
+    }
+
+    const categoriesError = validateTaxonomyCategories(body.categories);
+    if (categoriesError) {
+      return NextResponse.json({ success: false, error: categoriesError }, { status: 400 });
+    }
+
+    // Check taxonomy limit
+    const count = await prisma.taxonomy.count({ where: { userId: session.user.id } });
+    if (count >= MAX_TAXONOMIES_PER_USER) {
+      return NextResponse.json(
+        { success: false, error: `Maximum ${MAX_TAXONOMIES_PER_USER} taxonomies allowed` },
+        { status: 400 }
+      );
+    }
+
+    const taxonomy = await prisma.taxonomy.create({
+      data: {
+        name: body.name.trim(),
+        userId: session.user.id,
+        categories: normalizeTaxonomyCategories(
+          body.categories!
+        ) as unknown as Prisma.InputJsonArray,
+      },
+    });
+
+    return NextResponse.json({ success: true, data: taxonomy }, { status: 201 });
+  } catch (error) {
+    console.error(
+      "[Taxonomies API] POST error:",
+      error instanceof Error ? error.message : "Unknown"
+    );
+    return NextResponse.json(
+      { success: false, error: "Failed to create taxonomy" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/taxonomies?id=xxx — delete a taxonomy
+export async function DELETE(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const id = request.nextUrl.searchParams.get("id");
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: "Taxonomy id is required" },
+        { status: 400 }
+      );
+    }
+
+    // Verify ownership
+    const taxonomy = await prisma.taxonomy.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!taxonomy) {
+      return NextResponse.json({ success: false, error: "Taxonomy not found" }, { status: 404 });
+    }
+
+    await prisma.taxonomy.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error(
+      "[Taxonomies API] DELETE error:",
+      error instanceof Error ? error.message : "Unknown"
+    );
+    return NextResponse.json(
+      { success: false, error: "Failed to delete taxonomy" },
+      { status: 500 }
+    );
+  }
+}
@@ -7,63 +7,29 @@ import type {
   VisionClusterRequest,
   VisionClusterResponse,
   ClusterSettings,
+  TaxonomyCategory,
 } from "@/types";
 import { clusterImagesWithVision } from "@/lib/vision/cluster";
+import {
+  VisionFactory,
+  VisionProviderError,
+  DEFAULT_TAXONOMY,
+  isSpecificContext,
+  findTaxonomyCategory,
+  closestTaxonomyCategory,
+} from "@/lib/vision";
 import type { ClusterImageInput, ClusterResult, ImageClusterGroup } from "@/lib/vision";
 import { checkRateLimit } from "@/lib/ratelimit";
+import { isMarketplaceId, MARKETPLACE_IDS } from "@/lib/marketplaces";
 
 const DEFAULT_MAX_GROUPS = 10;
 // Each invocation processes ONE client-sent chunk. The frontend slices large batches
 // and calls this endpoint per chunk, keeping each invocation well within timeout limits.
 const MAX_IMAGES_PER_REQUEST = 20;
-const IS_MOCK_MODE = process.env.NODE_ENV === "development" && process.env.MOCK_API === "true";
 
 // Allow up to 60 s on Vercel Pro. One AI call per invocation keeps this easily under budget.
 export const maxDuration = 60;
 
-// Semantic tags for mock mode: [Broad Category, Specific Type, Vibe/Attribute]
-const MOCK_SEMANTIC_TAGS: string[][] = [
-  ["Gastronomy", "Dessert", "Sweet"],
-  ["Architecture", "Urban", "Modern"],
-  ["Portraits", "Business", "Professional"],
-  ["Landscapes", "Coastal", "Serene"],
-  ["Fashion", "Accessories", "Luxury"],
-  ["Electronics", "Devices", "Modern"],
-  ["Jewelry", "Rings", "Elegant"],
-  ["Interiors", "Living Room", "Cozy"],
-  ["Wildlife", "Birds", "Vibrant"],
-  ["Botanicals", "Flowers", "Fresh"],
-];
-
-/**
- * Generate mock cluster results for development/testing
- */
-function generateMockClusterResult(images: ClusterImageInput[], maxGroups: number): ClusterResult {
-  // Simulate processing delay
-  const groupCount = Math.min(maxGroups, Math.ceil(images.length / 3));
-  const groups: ImageClusterGroup[] = [];
-
-  for (let i = 0; i < groupCount; i++) {
-    const startIdx = Math.floor((i * images.length) / groupCount);
-    const endIdx = Math.floor(((i + 1) * images.length) / groupCount);
-    const groupImages = images.slice(startIdx, endIdx);
-
-    // Cycle through semantic tags
-    const semanticTags = MOCK_SEMANTIC_TAGS[i % MOCK_SEMANTIC_TAGS.length] ?? ["Unlabeled"];
-
-    groups.push({
-      groupId: `mock_group_${i + 1}`,
-      imageIds: groupImages.map((img) => img.id),
-      title: semanticTags[0], // Use the first tag as the title
-      suggestedLabel: semanticTags[0],
-      semanticTags: semanticTags,
-      confidence: 0.85 + Math.random() * 0.1,
-    });
-  }
-
-  return { groups };
-}
-
 function validateRequest(body: VisionClusterRequest): string | null {
   if (!body.images || !Array.isArray(body.images)) {
     return "Images array is required";
@@ -79,26 +45,16 @@ function validateRequest(body: VisionClusterRequest): string | null {
       return "Each image must have a valid base64 data URL";
     }
   }
-  if (body.marketplace && !["ETSY", "ADOBE_STOCK"].includes(body.marketplace)) {
-    return "Invalid marketplace. Must be ETSY or ADOBE_STOCK";
+  if (body.marketplace && !isMarketplaceId(body.marketplace)) {
+    return `Invalid marketplace. Must be one of ${MARKETPLACE_IDS.join(", ")}`;
+  }
+  const taxonomyId = body.settings?.taxonomyId;
+  if (taxonomyId !== undefined && (typeof taxonomyId !== "string" || !taxonomyId.trim())) {
+    return "taxonomyId must be a non-empty string";
   }
   return null;
 }
 
-// Approved categories from the prompt - if AI returns one of these, it's valid
-const APPROVED_CATEGORIES = [
-  "gastronomy",
-  "architecture",
-  "interiors",
-  "fashion",
-  "nature",
-  "people",
-  "technology",
-  "transportation",
-  "art & design",
-  "objects",
-];
-
 // Minimal ban list - only ban truly useless labels
 // We're more permissive now because we're forcing the AI to use approved categories
 const BANNED_LABELS = [
@@ -131,13 +87,22 @@ function isValidTitle(title: string | undefined): boolean {
 
 /**
  * SIMPLIFIED: Get the title from AI response
- * Trust the AI's output - minimal filtering
+ * Trust the AI's output - minimal filtering.
+ * With a taxonomy (Librarian mode) the title is snapped to a category name:
+ * near-misses like "Desserts" become "Dessert", off-list titles are re-filed by their tags.
  */
 function getAITitle(
   title: string | undefined,
   semanticTags: string[] | undefined,
-  index: number
+  index: number,
+  taxonomy?: readonly TaxonomyCategory[]
 ): string {
+  if (taxonomy) {
+    const category =
+      findTaxonomyCategory(title, taxonomy) ?? closestTaxonomyCategory(semanticTags, taxonomy);
+    if (category) return category.name;
+  }
+
   // Priority 1: AI-provided title (TRUST IT)
   if (isValidTitle(title)) {
     return title!;
@@ -217,15 +182,16 @@ function isGenericLabel(label: string): boolean {
 }
 
 /**
- * Merge groups with duplicate or similar labels (based on first semantic tag)
+ * Merge groups with duplicate or similar labels (based on the title)
  * Uses CASE-INSENSITIVE comparison for merging
  */
 function mergeDuplicateGroups(result: ClusterResult): ClusterResult {
   const labelMap = new Map<string, ImageClusterGroup>();
 
   for (const group of result.groups) {
-    // Use first semantic tag for grouping, fall back to title, then suggestedLabel
-    const primaryTag = group.semanticTags?.[0] || group.title || group.suggestedLabel || "";
+    // Use title for grouping (a category in Librarian mode, a story in Storyteller mode),
+    // fall back to first semantic tag, then suggestedLabel
+    const primaryTag = group.title || group.semanticTags?.[0] || group.suggestedLabel || "";
     const normalizedLabel = normalizeLabel(primaryTag);
 
     // If the label is generic (like "Group 1"), do NOT merge based on it.
@@ -247,6 +213,8 @@ function mergeDuplicateGroups(result: ClusterResult): ClusterResult {
       // Remove the title from tags to avoid redundancy
       if (existing.title) allTags.delete(existing.title);
       existing.semanticTags = Array.from(allTags);
+      // A merged group is editorial if any part was; commercial rules would reject it otherwise
+      if (group.usageType === "editorial") existing.usageType = "editorial";
     } else {
       // Add new group (clone to avoid mutation)
       labelMap.set(normalizedLabel, {
@@ -299,11 +267,15 @@ function mergeClusterResults(results: ClusterResult[], settings?: ClusterSetting
  * Ensure all groups in a result have valid labels (non-vague)
  * SIMPLIFIED: Trust the AI output, minimal filtering
  */
-function ensureLabels(result: ClusterResult, settings?: ClusterSettings): ClusterResult {
+function ensureLabels(
+  result: ClusterResult,
+  settings?: ClusterSettings,
+  taxonomy?: readonly TaxonomyCategory[]
+): ClusterResult {
   return {
     groups: result.groups.map((group, index) => {
       // TRUST THE AI: Get title directly from AI response
-      const aiTitle = getAITitle(group.title, group.semanticTags, index);
+      const aiTitle = getAITitle(group.title, group.semanticTags, index, taxonomy);
 
       // Apply prefix exactly once
       const finalTitle = formatFinalTitle(aiTitle, settings, index);
@@ -365,25 +337,37 @@ export async function POST(
       );
     }
 
-    let clusterResult: ClusterResult;
+    // Resolve the batch's taxonomy: a saved one owned by this user, or the built-in list
+    let taxonomy: readonly TaxonomyCategory[] = DEFAULT_TAXONOMY;
+    if (settings?.taxonomyId) {
+      const saved = await prisma.taxonomy.findFirst({
+        where: { id: settings.taxonomyId, userId: sessionUserId },
+        select: { categories: true },
+      });
+      if (!saved) {
+        return NextResponse.json({ success: false, error: "Taxonomy not found" }, { status: 404 });
+      }
+      // Validated by /api/taxonomies on write
+      taxonomy = saved.categories as unknown as TaxonomyCategory[];
+    }
 
     // Stateless: process exactly the chunk that was sent. No internal looping.
     // The client orchestrates chunking and progress tracking.
-    if (IS_MOCK_MODE) {
-      await new Promise((resolve) => setTimeout(resolve, 500 + Math.random() * 1000));
-      clusterResult = generateMockClusterResult(images as ClusterImageInput[], maxGroups);
-    } else {
-      const rawResult = await clusterImagesWithVision(
-        images as ClusterImageInput[],
-        marketplace,
-        maxGroups,
-        settings?.context
-      );
-      clusterResult = ensureLabels(rawResult, settings);
-    }
+    const clusterResult = await clusterImagesWithVision(
+      images as ClusterImageInput[],
+      marketplace,
+      maxGroups,
+      settings?.context,
+      taxonomy
+    );
 
-    // Final processing: sanitize labels and merge duplicates
-    const sanitizedResult = ensureLabels(clusterResult, settings);
+    // Final processing: sanitize labels and merge duplicates.
+    // Librarian titles must be taxonomy categories; Storyteller titles are free-form.
+    const sanitizedResult = ensureLabels(
+      clusterResult,
+      settings,
+      isSpecificContext(settings?.context) ? undefined : taxonomy
+    );
     const finalResult = mergeDuplicateGroups(sanitizedResult);
 
     const processingTimeMs = Date.now() - startTime;
@@ -394,12 +378,14 @@ export async function POST(
         event: "cluster_complete",
         userId: sessionUserId,
         context: settings?.context || "EMPTY",
+        taxonomyId: settings?.taxonomyId ?? "default",
+        taxonomySize: taxonomy.length,
         imageCount: images.length,
         groupCount: finalResult.groups.length,
         groupNames: finalResult.groups.map((g) => g.title),
         ...(chunkIndex !== undefined && { chunkIndex, totalChunks }),
         processingTimeMs,
-        mock: IS_MOCK_MODE,
+        provider: clusterResult.provider ?? VisionFactory.getProvider().name,
       })
     );
 
@@ -422,8 +408,10 @@ export async function POST(
     );
 
     const isOverloaded =
-      /timeout|overloaded|rate.?limit|503|529|too many/i.test(errorMessage) ||
-      errorMessage.includes("fetch failed");
+      error instanceof VisionProviderError
+        ? error.retryable
+        : /timeout|overloaded|rate.?limit|503|529|too many/i.test(errorMessage) ||
+          errorMessage.includes("fetch failed");
 
     return NextResponse.json(
       {
@@ -3,10 +3,18 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
 import { Prisma } from "@prisma/client";
-import type { ApiResponse, VisionTagsRequest, VisionTagsResponse, TagImageInput } from "@/types";
+import type {
+  ApiResponse,
+  VisionTagsRequest,
+  VisionTagsResponse,
+  TagImageInput,
+  ImageTagResult,
+} from "@/types";
 import { generateTagsForImages } from "@/lib/vision/tags";
-import type { ImageTagResult } from "@/lib/vision";
+import { VisionFactory, VisionProviderError } from "@/lib/vision";
 import { checkRateLimit } from "@/lib/ratelimit";
+import { isMarketplaceId, MARKETPLACE_IDS } from "@/lib/marketplaces";
+import { sortTagsByRelevance } from "@/lib/utils/tag-processing";
 
 const STRATEGY_LABELS: Record<string, string> = {
   standard: "Standard",
@@ -15,72 +23,14 @@ const STRATEGY_LABELS: Record<string, string> = {
 };
 
 const MAX_IMAGES_PER_REQUEST = 10;
-const IS_MOCK_MODE = process.env.NODE_ENV === "development" && process.env.MOCK_API === "true";
 
-// Allow up to 60 s on Vercel Pro. One AI call per invocation keeps this easily under budget.
-export const maxDuration = 60;
-
-// Sample mock tags for realistic testing
-const MOCK_TAGS = [
-  "handmade",
-  "vintage",
-  "boho",
-  "minimalist",
-  "rustic",
-  "modern",
-  "farmhouse",
-  "bohemian",
-  "scandinavian",
-  "industrial",
-  "cottagecore",
-  "aesthetic",
-  "unique",
-  "artisan",
-  "custom",
-  "personalized",
-  "gift",
-  "home decor",
-  "wall art",
-  "jewelry",
-  "accessories",
-  "clothing",
-  "organic",
-  "sustainable",
-  "eco-friendly",
-];
-
-const MOCK_TITLES = [
-  "Handcrafted Artisan Collection",
-  "Vintage-Inspired Design",
-  "Modern Minimalist Style",
-  "Boho Chic Piece",
-  "Rustic Farmhouse Decor",
-  "Unique Gift Item",
-  "Custom Made Creation",
-];
-
-/**
- * Generate mock tag results for development/testing
- */
-function generateMockTagResults(images: TagImageInput[], maxTags: number): ImageTagResult[] {
-  return images.map((img) => {
-    // Randomly select tags
-    const shuffled = [...MOCK_TAGS].sort(() => Math.random() - 0.5);
-    const tagCount = Math.min(maxTags, 10 + Math.floor(Math.random() * 15));
-    const tags = shuffled.slice(0, tagCount);
+// Per-image mode makes one AI call per image. Providers run up to 4 at once, so 4
+// images finish in a single round inside one provider's timeout.
+const MAX_PER_IMAGE_REQUEST = 4;
 
-    // Random title
-    const title = MOCK_TITLES[Math.floor(Math.random() * MOCK_TITLES.length)] ?? "Mock Item";
-
-    return {
-      imageId: img.id,
-      title,
-      description: `Mock description for ${title.toLowerCase()}`,
-      tags,
-      confidence: 0.8 + Math.random() * 0.15,
-    };
-  });
-}
+// Allow up to 60 s on Vercel Pro. Group mode makes one AI call per invocation; per-image
+// mode makes up to MAX_PER_IMAGE_REQUEST, in parallel. Both stay under the provider budget.
+export const maxDuration = 60;
 
 const MAX_DATA_URL_BYTES = 4 * 1024 * 1024; // 4 MB per image (post-resize thumbnails are well under this)
 
@@ -105,12 +55,21 @@ function validateRequest(body: VisionTagsRequest): string | null {
       return `Image ${img.id} exceeds the 4 MB payload limit. Resize before uploading.`;
     }
   }
-  if (!body.marketplace || !["ETSY", "ADOBE_STOCK"].includes(body.marketplace)) {
-    return "Invalid marketplace. Must be ETSY or ADOBE_STOCK";
+  if (!isMarketplaceId(body.marketplace)) {
+    return `Invalid marketplace. Must be one of ${MARKETPLACE_IDS.join(", ")}`;
   }
   if (body.platform && !["GENERIC", "ADOBE", "SHUTTERSTOCK", "ETSY"].includes(body.platform)) {
     return "Invalid platform. Must be GENERIC, ADOBE, SHUTTERSTOCK, or ETSY";
   }
+  if (body.mode && !["group", "per-image"].includes(body.mode)) {
+    return "Invalid mode. Must be group or per-image";
+  }
+  if (body.mode === "per-image" && body.images.length > MAX_PER_IMAGE_REQUEST) {
+    return `Per-image mode accepts at most ${MAX_PER_IMAGE_REQUEST} images per request`;
+  }
+  if (body.editorial !== undefined && typeof body.editorial !== "boolean") {
+    return "editorial must be a boolean";
+  }
   if (
     body.totalImageCount !== undefined &&
     body.chunkIndex === undefined &&
@@ -133,6 +92,35 @@ function validateRequest(body: VisionTagsRequest): string | null {
   return null;
 }
 
+/**
+ * Match results back to the requested images. An image is usable only when a
+ * result carries its imageId, a non-empty title and at least one non-blank tag.
+ * Usable tags are returned in descending relevance order.
+ */
+function partitionResults(
+  images: TagImageInput[],
+  results: ImageTagResult[]
+): { usable: ImageTagResult[]; failedImageIds: string[] } {
+  const byId = new Map(results.map((r) => [r.imageId, r]));
+  const usable: ImageTagResult[] = [];
+  const failedImageIds: string[] = [];
+
+  for (const img of images) {
+    const result = byId.get(img.id);
+    const tags = sortTagsByRelevance(
+      result?.tags.filter((tag) => typeof tag === "string" && tag.trim()) ?? [],
+      result?.tagRelevance
+    );
+    if (result && result.title?.trim() && tags.length > 0) {
+      usable.push({ ...result, tags });
+    } else {
+      failedImageIds.push(img.id);
+    }
+  }
+
+  return { usable, failedImageIds };
+}
+
 export async function POST(
   request: NextRequest
 ): Promise<NextResponse<ApiResponse<VisionTagsResponse>>> {
@@ -165,6 +153,8 @@ export async function POST(
       strategy = "standard",
       maxTags = 25,
       platform,
+      mode = "group",
+      editorial = false,
       totalImageCount,
       chunkIndex,
       totalChunks,
@@ -182,79 +172,102 @@ export async function POST(
 
     // Chunked mode: each chunk pays only for its own images.length credits.
     // Non-chunked mode: totalImageCount covers a full group (representative sample billing).
+    // Per-image mode tags every image individually, so it always pays images.length.
     const isChunked = chunkIndex !== undefined;
-    const creditsRequired = isChunked ? images.length : (totalImageCount ?? images.length);
+    const creditsRequired =
+      isChunked || mode === "per-image" ? images.length : (totalImageCount ?? images.length);
     const strategyLabel = STRATEGY_LABELS[strategy] || "Standard";
 
     // Task 2: Pre-check balance without deducting (read-only, no lock).
     // Deduction happens AFTER AI succeeds, so a serverless crash/timeout never
     // orphans credits in a PENDING state. The WHERE guard on the post-deduct
     // transaction closes the concurrent-request race window at the DB level.
-    if (!IS_MOCK_MODE) {
-      const userBalance = await prisma.user.findUnique({
-        where: { id: session.user.id },
-        select: { creditsBalance: true },
-      });
-      if (!userBalance || userBalance.creditsBalance < creditsRequired) {
-        return NextResponse.json(
-          { success: false, error: "Insufficient credits. Please purchase more to continue." },
-          { status: 402 }
-        );
-      }
+    const userBalance = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { creditsBalance: true },
+    });
+    if (!userBalance || userBalance.creditsBalance < creditsRequired) {
+      return NextResponse.json(
+        { success: false, error: "Insufficient credits. Please purchase more to continue." },
+        { status: 402 }
+      );
     }
 
     // ── PROCESS: Call AI ──
     // If this throws, no credits were touched — the outer catch returns 500 cleanly.
-    let results: ImageTagResult[];
-    if (IS_MOCK_MODE) {
-      await new Promise((resolve) => setTimeout(resolve, 300 + Math.random() * 700));
-      results = generateMockTagResults(images, maxTags);
-    } else {
-      results = await generateTagsForImages(images, marketplace, strategy, maxTags, platform);
-    }
+    const results = await generateTagsForImages(
+      images,
+      marketplace,
+      strategy,
+      maxTags,
+      platform,
+      mode,
+      editorial
+    );
+
+    // ── VALIDATE: Bill only images that produced usable metadata ──
+    // Representative-sample mode tags a whole group from one result, so the group
+    // is refunded only when no sample produced anything usable.
+    const { usable, failedImageIds } = partitionResults(images, results);
+    const isRepresentative = !isChunked && mode === "group" && totalImageCount !== undefined;
+    const creditsRefunded = isRepresentative
+      ? usable.length === 0
+        ? creditsRequired
+        : 0
+      : failedImageIds.length;
+    const creditsCharged = creditsRequired - creditsRefunded;
 
     // ── CAPTURE: Atomically deduct credits only after AI succeeds ──
     // WHERE creditsBalance >= creditsRequired is a conditional row-level guard:
     // if a concurrent request drained the balance between the pre-check and here,
     // Prisma throws P2025 instead of letting the balance go negative.
-    if (!IS_MOCK_MODE) {
-      try {
-        await prisma.$transaction(async (tx) => {
-          await tx.user.update({
-            where: {
-              id: session.user.id,
-              creditsBalance: { gte: creditsRequired },
-            },
-            data: { creditsBalance: { decrement: creditsRequired } },
-          });
+    // The USAGE entry records the full request; a linked REFUND entry returns the
+    // credits for failed images, so the net balance change is creditsCharged.
+    try {
+      await prisma.$transaction(async (tx) => {
+        await tx.user.update({
+          where: {
+            id: session.user.id,
+            creditsBalance: { gte: creditsRequired },
+          },
+          data: { creditsBalance: { decrement: creditsCharged } },
+        });
+        const usageEntry = await tx.creditsLedger.create({
+          data: {
+            userId: session.user.id,
+            amount: -creditsRequired,
+            reason: "USAGE",
+            status: "CONFIRMED",
+            description: `Tag Generation (${strategyLabel}) - ${creditsRequired} image${creditsRequired > 1 ? "s" : ""}`,
+          },
+        });
+        if (creditsRefunded > 0) {
           await tx.creditsLedger.create({
             data: {
               userId: session.user.id,
-              amount: -creditsRequired,
-              reason: "USAGE",
+              amount: creditsRefunded,
+              reason: "REFUND",
               status: "CONFIRMED",
-              description: `Tag Generation (${strategyLabel}) - ${creditsRequired} image${creditsRequired > 1 ? "s" : ""}`,
+              relatedEntryId: usageEntry.id,
+              description: `Auto-refund: ${creditsRefunded} image${creditsRefunded > 1 ? "s" : ""} returned no usable metadata`,
             },
           });
-        });
-      } catch (deductErr) {
-        if (
-          deductErr instanceof Prisma.PrismaClientKnownRequestError &&
-          deductErr.code === "P2025"
-        ) {
-          // Concurrent race: another request consumed the credits between pre-check and deduct.
-          console.error("[Credits] Race condition on deduct — returning 402", {
-            userId: session.user.id,
-          });
-          return NextResponse.json(
-            { success: false, error: "Insufficient credits. Please purchase more to continue." },
-            { status: 402 }
-          );
         }
-        // Non-fatal DB error after AI already succeeded. Return the result to the user
-        // and log for manual credit review.
-        console.error("[Credits] CRITICAL: post-deduct failed after AI success:", deductErr);
+      });
+    } catch (deductErr) {
+      if (deductErr instanceof Prisma.PrismaClientKnownRequestError && deductErr.code === "P2025") {
+        // Concurrent race: another request consumed the credits between pre-check and deduct.
+        console.error("[Credits] Race condition on deduct — returning 402", {
+          userId: session.user.id,
+        });
+        return NextResponse.json(
+          { success: false, error: "Insufficient credits. Please purchase more to continue." },
+          { status: 402 }
+        );
       }
+      // Non-fatal DB error after AI already succeeded. Return the result to the user
+      // and log for manual credit review.
+      console.error("[Credits] CRITICAL: post-deduct failed after AI success:", deductErr);
     }
 
     const processingTimeMs = Date.now() - startTime;
@@ -265,23 +278,45 @@ export async function POST(
         event: "tags_complete",
         userId: session.user.id,
         imageCount: images.length,
-        creditsCharged: creditsRequired,
+        creditsCharged,
+        creditsRefunded,
+        failedImageCount: failedImageIds.length,
         strategy: strategyLabel,
+        mode,
         ...(isChunked && { chunkIndex, totalChunks }),
         processingTimeMs,
-        mock: IS_MOCK_MODE,
+        provider: results[0]?.provider ?? VisionFactory.getProvider().name,
       })
     );
 
     return NextResponse.json({
       success: true,
       data: {
-        results,
+        results: usable,
+        failedImageIds,
+        creditsRefunded,
         processingTimeMs,
       },
     });
   } catch (error) {
     console.error("Vision tags API error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown";
+    const isOverloaded =
+      error instanceof VisionProviderError
+        ? error.retryable
+        : /timeout|overloaded|rate.?limit|503|529|too many/i.test(errorMessage) ||
+          errorMessage.includes("fetch failed");
+
+    // Every provider in the chain failed (or the only one did) — no credits were charged
+    if (isOverloaded) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "The AI is currently overloaded. Please try again in a moment.",
+        },
+        { status: 503 }
+      );
+    }
     return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 });
   }
 }
@@ -1,11 +1,12 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import { ShoppingBag, Camera, Sparkles, ChevronDown, Tag } from "lucide-react";
+import { ShoppingBag, Camera, Sparkles, ChevronDown, Tag, Layers, Image } from "lucide-react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { useBatchStore, type StrategyType } from "@/store/useBatchStore";
 import { getDefaultTagCount, getStrategyDescription } from "@/lib/vision/prompts/index";
+import type { TaggingMode } from "@/types";
 
 interface StrategyOption {
   value: StrategyType;
@@ -35,12 +36,29 @@ const strategies: StrategyOption[] = [
   },
 ];
 
+const taggingModes: { value: TaggingMode; label: string; title: string; icon: React.ReactNode }[] =
+  [
+    {
+      value: "group",
+      label: "Per group",
+      title: "One title and keyword set shared by every image in a group",
+      icon: <Layers className="h-3.5 w-3.5" />,
+    },
+    {
+      value: "per-image",
+      label: "Per image",
+      title: "Each image gets its own title and keywords (1 credit per image)",
+      icon: <Image className="h-3.5 w-3.5" />,
+    },
+  ];
+
 export interface StrategySelectorProps {
   className?: string;
 }
 
 export function StrategySelector({ className }: StrategySelectorProps) {
-  const { strategy, setStrategy, maxTags, setMaxTags } = useBatchStore();
+  const { strategy, setStrategy, maxTags, setMaxTags, taggingMode, setTaggingMode } =
+    useBatchStore();
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
@@ -178,6 +196,26 @@ export function StrategySelector({ className }: StrategySelectorProps) {
             </span>
           )}
         </div>
+
+        {/* Tagging Mode Toggle */}
+        <div className="flex items-center rounded-lg border border-slate-300 bg-white p-0.5">
+          {taggingModes.map((mode) => (
+            <button
+              key={mode.value}
+              onClick={() => setTaggingMode(mode.value)}
+              title={mode.title}
+              className={cn(
+                "flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm transition-colors",
+                taggingMode === mode.value
+                  ? "bg-blue-50 text-blue-600 font-medium"
+                  : "text-gray-500 hover:text-gray-900"
+              )}
+            >
+              {mode.icon}
+              {mode.label}
+            </button>
+          ))}
+        </div>
       </div>
 
       {/* Strategy Description — dynamic, always visible */}
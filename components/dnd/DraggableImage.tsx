@@ -1,8 +1,9 @@
 "use client";
 
 import { useDraggable } from "@dnd-kit/core";
-import { GripVertical, Trash2 } from "lucide-react";
+import { Copy, GripVertical, History, Layers, Tags, Trash2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { hasUsableKeywords } from "@/lib/image-processing/embedded-metadata";
 import type { LocalImageItem } from "@/store/useBatchStore";
 
 export interface DraggableImageProps {
@@ -10,6 +11,9 @@ export interface DraggableImageProps {
   groupId: string;
   onImageClick?: (image: LocalImageItem) => void;
   onDeleteImage?: (imageId: string) => void;
+  /** Frame count when this image is the keeper of a burst stack. */
+  stackSize?: number;
+  onOpenStack?: () => void;
 }
 
 export function DraggableImage({
@@ -17,12 +21,16 @@ export function DraggableImage({
   groupId,
   onImageClick,
   onDeleteImage,
+  stackSize,
+  onOpenStack,
 }: DraggableImageProps) {
   const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
     id: image.id,
     data: { groupId, image },
   });
 
+  const isKeyworded = hasUsableKeywords(image.embeddedMetadata);
+
   const handleImageClick = (e: React.MouseEvent) => {
     // Prevent click from bubbling if we're dragging
     if (isDragging) return;
@@ -97,6 +105,52 @@ export function DraggableImage({
         />
       </button>
 
+      {/* Duplicate / burst / existing-keyword badges */}
+      {(image.duplicate || stackSize || isKeyworded) && (
+        <div className="absolute bottom-1 left-1 z-10 flex flex-col items-start gap-1">
+          {image.duplicate && (
+            <span
+              className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-amber-500/90 text-white"
+              title={
+                image.duplicate.kind === "exported"
+                  ? `Already exported as ${image.duplicate.matchFilename}`
+                  : `${image.duplicate.kind === "exact" ? "Identical to" : "Nearly identical to"} ${image.duplicate.matchFilename}`
+              }
+            >
+              {image.duplicate.kind === "exported" ? (
+                <History className="w-3 h-3" />
+              ) : (
+                <Copy className="w-3 h-3" />
+              )}
+              {image.duplicate.kind === "exported" ? "Exported before" : "Duplicate"}
+            </span>
+          )}
+          {isKeyworded && (
+            <span
+              className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-emerald-600/90 text-white"
+              title={`${image.embeddedMetadata!.keywords.length} keywords already embedded`}
+            >
+              <Tags className="w-3 h-3" />
+              Keyworded
+            </span>
+          )}
+          {stackSize && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onOpenStack?.();
+              }}
+              className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-blue-600/90 text-white hover:bg-blue-700"
+              title="Burst sequence — choose which frame to keep"
+            >
+              <Layers className="w-3 h-3" />
+              {stackSize} frames
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Status indicator */}
       {image.status === "analyzed" && (
         <div className="absolute bottom-1 right-1 w-2 h-2 bg-green-500 rounded-full" />
@@ -0,0 +1,198 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { FileText, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { useBatchStore } from "@/store/useBatchStore";
+import { RELEASE_TYPE_LABELS } from "@/lib/export";
+import { getReleaseFile, saveReleaseFile } from "@/lib/persistence/db";
+import type { ReleaseType } from "@/types";
+
+export interface ReleasePickerProps {
+  /** Releases currently linked */
+  selectedIds: string[];
+  onChange: (ids: string[]) => void;
+}
+
+const DARK_INPUT_STYLE = {
+  backgroundColor: "#1f2937",
+  color: "#ffffff",
+  border: "1px solid #4b5563",
+};
+
+/**
+ * The release library as a checklist, with PDF upload. Releases added here are
+ * available to every group and image, in this batch and later ones.
+ */
+export function ReleasePicker({ selectedIds, onChange }: ReleasePickerProps) {
+  const { releases, addRelease, removeRelease } = useBatchStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [name, setName] = useState("");
+  const [type, setType] = useState<ReleaseType>("model");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleToggle = (releaseId: string, checked: boolean) => {
+    onChange(checked ? [...selectedIds, releaseId] : selectedIds.filter((id) => id !== releaseId));
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    if (file.type !== "application/pdf" && !file.name.toLowerCase().endsWith(".pdf")) {
+      toast.error("Releases must be PDF files");
+      return;
+    }
+    setPendingFile(file);
+    setName(file.name.replace(/\.pdf$/i, ""));
+  };
+
+  const handleAdd = async () => {
+    if (!pendingFile || !name.trim()) return;
+    setIsSaving(true);
+    try {
+      const id = crypto.randomUUID();
+      await saveReleaseFile(id, pendingFile);
+      addRelease({
+        id,
+        name: name.trim(),
+        type,
+        filename: pendingFile.name,
+        fileSize: pendingFile.size,
+        createdAt: Date.now(),
+      });
+      // A release uploaded from here is meant for what's being edited
+      onChange([...selectedIds, id]);
+      setPendingFile(null);
+      setName("");
+    } catch (err) {
+      toast.error("Could not save the release", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleView = async (releaseId: string) => {
+    const file = await getReleaseFile(releaseId);
+    if (!file) {
+      toast.error("The PDF for this release is no longer stored in this browser");
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    window.open(url, "_blank", "noopener");
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  };
+
+  const handleRemove = (releaseId: string, releaseName: string) => {
+    if (!window.confirm(`Delete "${releaseName}" from the release library?`)) return;
+    removeRelease(releaseId);
+    onChange(selectedIds.filter((id) => id !== releaseId));
+  };
+
+  return (
+    <div className="space-y-2">
+      {releases.length === 0 && !pendingFile && (
+        <p className="text-xs text-slate-500 dark:text-gray-400">
+          No releases yet. Upload the signed PDFs; the name is what the agency CSVs reference.
+        </p>
+      )}
+
+      {releases.map((release) => (
+        <div key={release.id} className="flex items-center gap-2 text-sm">
+          <label className="flex flex-1 min-w-0 items-center gap-2 text-slate-700 dark:text-slate-300">
+            <input
+              type="checkbox"
+              checked={selectedIds.includes(release.id)}
+              onChange={(e) => handleToggle(release.id, e.target.checked)}
+              className="h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="truncate">{release.name}</span>
+            <span className="text-xs text-slate-400 dark:text-gray-500 whitespace-nowrap">
+              {RELEASE_TYPE_LABELS[release.type]}
+            </span>
+          </label>
+          <button
+            type="button"
+            onClick={() => handleView(release.id)}
+            className="p-1 rounded hover:bg-slate-100 dark:hover:bg-gray-700"
+            aria-label={`Open ${release.name}`}
+          >
+            <FileText className="h-4 w-4 text-slate-500" />
+          </button>
+          <button
+            type="button"
+            onClick={() => handleRemove(release.id, release.name)}
+            className="p-1 rounded hover:bg-slate-100 dark:hover:bg-gray-700"
+            aria-label={`Delete ${release.name}`}
+          >
+            <Trash2 className="h-4 w-4 text-slate-500" />
+          </button>
+        </div>
+      ))}
+
+      {pendingFile ? (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Release name"
+            style={DARK_INPUT_STYLE}
+            className={cn(
+              "flex-1 px-3 py-2 rounded-lg text-sm",
+              "focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent",
+              "placeholder:text-slate-400 dark:placeholder:text-gray-500"
+            )}
+          />
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as ReleaseType)}
+            style={DARK_INPUT_STYLE}
+            className="px-3 py-2 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {(Object.keys(RELEASE_TYPE_LABELS) as ReleaseType[]).map((t) => (
+              <option key={t} value={t}>
+                {RELEASE_TYPE_LABELS[t]}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleAdd}
+            disabled={!name.trim() || isSaving}
+            className="px-3 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add
+          </button>
+          <button
+            type="button"
+            onClick={() => setPendingFile(null)}
+            className="px-3 py-2 rounded-lg text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="inline-flex items-center gap-1.5 text-sm text-blue-600 hover:text-blue-700"
+        >
+          <Upload className="h-4 w-4" />
+          Upload release PDF
+        </button>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/pdf,.pdf"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useRef, useCallback } from "react";
+import { Fragment, useState, useEffect, useRef, useCallback } from "react";
 import {
   DndContext,
   closestCenter,
@@ -18,10 +18,31 @@ import {
   sortableKeyboardCoordinates,
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
-import { X, Copy, Plus, Check, GripVertical } from "lucide-react";
-import { cn } from "@/lib/utils";
-import { useBatchStore, LocalGroup } from "@/store/useBatchStore";
+import {
+  X,
+  Copy,
+  Plus,
+  Check,
+  GripVertical,
+  ChevronLeft,
+  ChevronRight,
+  Sparkles,
+} from "lucide-react";
+import { cn, describeTagRemoval, TOP_KEYWORD_COUNT, type TagRemoval } from "@/lib/utils";
+import { useBatchStore, LocalGroup, EditorialDetails } from "@/store/useBatchStore";
+import { getMarketplaceProfile } from "@/lib/marketplaces";
+import {
+  ETSY_LISTING_LIMITS,
+  ETSY_OCCASIONS,
+  buildEditorialCaption,
+  buildEtsyDescription,
+  missingEditorialFields,
+  missingRelease,
+  orderListingImages,
+  parseMaterials,
+} from "@/lib/export";
 import { useClickOutside } from "@/hooks";
+import { ReleasePicker } from "./ReleasePicker";
 
 export interface TagEditorProps {
   group: LocalGroup;
@@ -35,12 +56,22 @@ interface SortableTagProps {
   id: string;
   tag: string;
   index: number;
+  /** Model relevance (0–1), when the tag came from AI scoring */
+  relevance?: number;
   onRemove: (tag: string) => void;
   onCopy: (tag: string, index: number) => void;
   copiedTagIndex: number | null;
 }
 
-function SortableTag({ id, tag, index, onRemove, onCopy, copiedTagIndex }: SortableTagProps) {
+function SortableTag({
+  id,
+  tag,
+  index,
+  relevance,
+  onRemove,
+  onCopy,
+  copiedTagIndex,
+}: SortableTagProps) {
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
     id,
   });
@@ -49,14 +80,17 @@ function SortableTag({ id, tag, index, onRemove, onCopy, copiedTagIndex }: Sorta
     transform: CSS.Transform.toString(transform),
     transition,
   };
+  const isTopKeyword = index < TOP_KEYWORD_COUNT;
 
   return (
     <span
       ref={setNodeRef}
       style={style}
       className={cn(
-        "relative inline-flex items-center gap-0.5 pl-1 pr-1 py-1",
-        "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 rounded-full text-sm",
+        "relative inline-flex items-center gap-0.5 pl-1 pr-1 py-1 rounded-full text-sm",
+        isTopKeyword
+          ? "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
+          : "bg-slate-100 text-slate-600 dark:bg-gray-700 dark:text-gray-300",
         "transition-shadow",
         isDragging && "shadow-lg ring-2 ring-blue-400 opacity-90 z-50"
       )}
@@ -76,7 +110,11 @@ function SortableTag({ id, tag, index, onRemove, onCopy, copiedTagIndex }: Sorta
       <span
         onClick={() => onCopy(tag, index)}
         className="cursor-pointer hover:text-blue-900 select-none px-1"
-        title="Click to copy"
+        title={
+          relevance !== undefined
+            ? `Relevance ${Math.round(relevance * 100)}% · Click to copy`
+            : "Click to copy"
+        }
       >
         {tag}
       </span>
@@ -110,12 +148,28 @@ function SortableTag({ id, tag, index, onRemove, onCopy, copiedTagIndex }: Sorta
 export function TagEditor({ group, isOpen, onClose }: TagEditorProps) {
   const dialogRef = useRef<HTMLDialogElement>(null);
   const contentRef = useRef<HTMLDivElement>(null);
-  const { updateGroupMetadata } = useBatchStore();
+  const { marketplace, releases, updateGroupMetadata, updateGroup } = useBatchStore();
+  const profile = getMarketplaceProfile(marketplace);
+  // One picker per category slot, only for agencies with an official list
+  const categorySlots = profile.categories.length > 0 ? profile.limits.maxCategories : 0;
+  // Listing marketplaces (Etsy) export the whole group as one listing
+  const isListing = profile.csv.rowPer === "listing";
 
   // Local state for editing
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [tags, setTags] = useState<string[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [editorial, setEditorial] = useState(false);
+  const [editorialDetails, setEditorialDetails] = useState<EditorialDetails>({});
+  const [releaseIds, setReleaseIds] = useState<string[]>([]);
+  const [removals, setRemovals] = useState<TagRemoval[]>([]);
+  const [imageOrder, setImageOrder] = useState<string[]>([]);
+  const [materials, setMaterials] = useState("");
+  const [occasion, setOccasion] = useState("");
+  const [styles, setStyles] = useState("");
+  const [price, setPrice] = useState("");
+  const [quantity, setQuantity] = useState("");
   const [newTag, setNewTag] = useState("");
   const [copied, setCopied] = useState(false);
   const [copiedTagIndex, setCopiedTagIndex] = useState<number | null>(null);
@@ -144,10 +198,21 @@ export function TagEditor({ group, isOpen, onClose }: TagEditorProps) {
       setTitle(group.sharedTitle || group.images[0]?.aiTitle || "");
       setDescription(group.sharedDescription || "");
       setTags(group.sharedTags || []);
+      setCategories(group.categories?.[marketplace] ?? []);
+      setEditorial(group.editorial ?? false);
+      setEditorialDetails(group.editorialDetails ?? {});
+      setReleaseIds(group.releaseIds ?? []);
+      setRemovals(group.tagRemovals ?? []);
+      setImageOrder(orderListingImages(group).map((image) => image.id));
+      setMaterials((group.etsyListing?.materials ?? []).join(", "));
+      setOccasion(group.etsyListing?.occasion ?? "");
+      setStyles((group.etsyListing?.styles ?? []).join(", "));
+      setPrice(group.etsyListing?.price ?? "");
+      setQuantity(group.etsyListing?.quantity?.toString() ?? "");
       setNewTag("");
       setCopied(false);
     }
-  }, [isOpen, group]);
+  }, [isOpen, group, marketplace]);
 
   // Handle dialog open/close
   useEffect(() => {
@@ -169,6 +234,11 @@ export function TagEditor({ group, isOpen, onClose }: TagEditorProps) {
     }
   };
 
+  const handleRestoreTag = (removal: TagRemoval) => {
+    if (!tags.includes(removal.tag)) setTags([...tags, removal.tag]);
+    setRemovals(removals.filter((r) => r !== removal));
+  };
+
   const handleRemoveTag = (tagToRemove: string) => {
     setTags(tags.filter((tag) => tag !== tagToRemove));
   };
@@ -205,8 +275,61 @@ export function TagEditor({ group, isOpen, onClose }: TagEditorProps) {
     }
   };
 
+  const handleCategoryChange = (slot: number, code: string) => {
+    const next = [...categories];
+    next[slot] = code;
+    // Drop blanks and repeats so slot 2 can't duplicate slot 1
+    setCategories(next.filter((c, i) => c && next.indexOf(c) === i));
+  };
+
+  const handleEditorialDetailChange = (field: keyof EditorialDetails, value: string) => {
+    setEditorialDetails((prev) => ({ ...prev, [field]: value || undefined }));
+  };
+
+  // Without a date the export falls back to each image's capture date
+  const editorialMissing = missingEditorialFields(editorialDetails).filter((f) => f !== "date");
+  const captionPreview = buildEditorialCaption(
+    { ...editorialDetails, date: editorialDetails.date || new Date().toISOString().slice(0, 10) },
+    description || title
+  );
+
+  // Images tagging flagged that the releases picked so far don't cover yet
+  const editedGroup = { ...group, editorial: editorial || undefined, releaseIds };
+  const unreleasedCount = group.images.filter(
+    (image) => missingRelease(image, editedGroup, releases) !== null
+  ).length;
+
+  const listingDetails = {
+    imageOrder,
+    materials: parseMaterials(materials),
+    occasion: occasion || undefined,
+    styles: styles
+      .split(",")
+      .map((s) => s.trim())
+      .filter(Boolean)
+      .slice(0, ETSY_LISTING_LIMITS.maxStyles),
+    price: price.trim() || undefined,
+    quantity: Number.parseInt(quantity, 10) || undefined,
+  };
+
+  const handleMoveImage = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= imageOrder.length) return;
+    setImageOrder(arrayMove(imageOrder, index, target));
+  };
+
   const handleSave = () => {
     updateGroupMetadata(group.id, title, description, tags);
+    updateGroup(group.id, {
+      editorial: editorial || undefined,
+      editorialDetails,
+      releaseIds: releaseIds.length > 0 ? releaseIds : undefined,
+      tagRemovals: removals.length > 0 ? removals : undefined,
+      ...(categorySlots > 0 && {
+        categories: { ...group.categories, [marketplace]: categories },
+      }),
+      ...(isListing && { etsyListing: listingDetails }),
+    });
     onClose();
   };
 
@@ -263,17 +386,31 @@ export function TagEditor({ group, isOpen, onClose }: TagEditorProps) {
 
         {/* Description Textarea */}
         <div className="mb-4">
-          <label
-            htmlFor="description"
-            className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1"
-          >
-            Description
-          </label>
+          <div className="flex items-center justify-between mb-1">
+            <label
+              htmlFor="description"
+              className="block text-sm font-medium text-slate-700 dark:text-slate-300"
+            >
+              Description
+            </label>
+            {isListing && (
+              <button
+                type="button"
+                onClick={() => setDescription(buildEtsyDescription(title, tags, listingDetails))}
+                className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+              >
+                <Sparkles className="h-4 w-4" />
+                Generate
+              </button>
+            )}
+          </div>
           <textarea
             id="description"
             value={description}
             onChange={(e) => setDescription(e.target.value)}
-            placeholder="Enter a description"
+            placeholder={
+              isListing ? "Leave empty to generate one on export" : "Enter a description"
+            }
             rows={3}
             style={{
               backgroundColor: "#1f2937",
@@ -288,6 +425,286 @@ export function TagEditor({ group, isOpen, onClose }: TagEditorProps) {
           />
         </div>
 
+        {/* Etsy Listing */}
+        {isListing && (
+          <div className="mb-4 space-y-3">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                Listing Photos
+                <span className="ml-2 text-xs font-normal text-slate-400 dark:text-gray-500">
+                  The first is the thumbnail; only the first {ETSY_LISTING_LIMITS.maxImages} are
+                  listed
+                </span>
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {imageOrder.map((imageId, index) => {
+                  const image = group.images.find((img) => img.id === imageId);
+                  if (!image) return null;
+                  return (
+                    <div
+                      key={imageId}
+                      className={cn(
+                        "relative w-20 rounded-lg overflow-hidden border border-slate-200 dark:border-gray-700",
+                        index >= ETSY_LISTING_LIMITS.maxImages && "opacity-40"
+                      )}
+                    >
+                      <img
+                        src={image.thumbnailDataUrl}
+                        alt={image.originalFilename}
+                        className="w-20 h-20 object-cover"
+                        draggable={false}
+                      />
+                      <span className="absolute top-1 left-1 px-1 rounded bg-black/60 text-[10px] text-white">
+                        {index + 1}
+                      </span>
+                      <div className="flex justify-between bg-slate-100 dark:bg-gray-800">
+                        <button
+                          type="button"
+                          onClick={() => handleMoveImage(index, -1)}
+                          disabled={index === 0}
+                          className="p-0.5 disabled:opacity-30"
+                          aria-label={`Move ${image.originalFilename} earlier`}
+                        >
+                          <ChevronLeft className="h-4 w-4 text-slate-500" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleMoveImage(index, 1)}
+                          disabled={index === imageOrder.length - 1}
+                          className="p-0.5 disabled:opacity-30"
+                          aria-label={`Move ${image.originalFilename} later`}
+                        >
+                          <ChevronRight className="h-4 w-4 text-slate-500" />
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div>
+              <label
+                htmlFor="materials"
+                className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1"
+              >
+                Materials
+                <span className="ml-2 text-xs font-normal text-slate-400 dark:text-gray-500">
+                  Comma-separated, up to {ETSY_LISTING_LIMITS.maxMaterials}
+                </span>
+              </label>
+              <input
+                id="materials"
+                type="text"
+                value={materials}
+                onChange={(e) => setMaterials(e.target.value)}
+                placeholder="cotton, wood, silver"
+                style={{
+                  backgroundColor: "#1f2937",
+                  color: "#ffffff",
+                  border: "1px solid #4b5563",
+                }}
+                className={cn(
+                  "w-full px-3 py-2 rounded-lg",
+                  "focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent",
+                  "placeholder:text-slate-400 dark:placeholder:text-gray-500"
+                )}
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <select
+                value={occasion}
+                onChange={(e) => setOccasion(e.target.value)}
+                aria-label="Occasion"
+                style={{
+                  backgroundColor: "#1f2937",
+                  color: "#ffffff",
+                  border: "1px solid #4b5563",
+                }}
+                className="flex-1 px-3 py-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">No occasion</option>
+                {ETSY_OCCASIONS.map((value) => (
+                  <option key={value} value={value}>
+                    {value}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={styles}
+                onChange={(e) => setStyles(e.target.value)}
+                placeholder={`Style (up to ${ETSY_LISTING_LIMITS.maxStyles}, comma-separated)`}
+                style={{
+                  backgroundColor: "#1f2937",
+                  color: "#ffffff",
+                  border: "1px solid #4b5563",
+                }}
+                className={cn(
+                  "flex-1 px-3 py-2 rounded-lg",
+                  "focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent",
+                  "placeholder:text-slate-400 dark:placeholder:text-gray-500"
+                )}
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <input
+                type="text"
+                inputMode="decimal"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                placeholder="Price"
+                style={{
+                  backgroundColor: "#1f2937",
+                  color: "#ffffff",
+                  border: "1px solid #4b5563",
+                }}
+                className={cn(
+                  "flex-1 px-3 py-2 rounded-lg",
+                  "focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent",
+                  "placeholder:text-slate-400 dark:placeholder:text-gray-500"
+                )}
+              />
+              <input
+                type="number"
+                min={1}
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                placeholder="Quantity"
+                style={{
+                  backgroundColor: "#1f2937",
+                  color: "#ffffff",
+                  border: "1px solid #4b5563",
+                }}
+                className={cn(
+                  "flex-1 px-3 py-2 rounded-lg",
+                  "focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent",
+                  "placeholder:text-slate-400 dark:placeholder:text-gray-500"
+                )}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Editorial */}
+        <div className="mb-4">
+          <label className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-300">
+            <input
+              type="checkbox"
+              checked={editorial}
+              onChange={(e) => setEditorial(e.target.checked)}
+              className="h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+            />
+            Editorial use only
+            <span className="text-xs font-normal text-slate-400 dark:text-gray-500">
+              News, events, visible brands or people without releases
+            </span>
+          </label>
+          {editorial && (
+            <div className="mt-2 space-y-2">
+              <div className="flex gap-2">
+                {(["city", "country"] as const).map((field) => (
+                  <input
+                    key={field}
+                    type="text"
+                    value={editorialDetails[field] ?? ""}
+                    onChange={(e) => handleEditorialDetailChange(field, e.target.value)}
+                    placeholder={field === "city" ? "City" : "Country"}
+                    style={{
+                      backgroundColor: "#1f2937",
+                      color: "#ffffff",
+                      border: "1px solid #4b5563",
+                    }}
+                    className={cn(
+                      "flex-1 px-3 py-2 rounded-lg",
+                      "focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent",
+                      "placeholder:text-slate-400 dark:placeholder:text-gray-500"
+                    )}
+                  />
+                ))}
+                <input
+                  type="date"
+                  value={editorialDetails.date ?? ""}
+                  onChange={(e) => handleEditorialDetailChange("date", e.target.value)}
+                  title="Leave empty to use each image's capture date"
+                  style={{
+                    backgroundColor: "#1f2937",
+                    color: "#ffffff",
+                    border: "1px solid #4b5563",
+                  }}
+                  className={cn(
+                    "px-3 py-2 rounded-lg",
+                    "focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  )}
+                />
+              </div>
+              <p className="text-xs text-slate-500 dark:text-gray-400">
+                {editorialMissing.length > 0
+                  ? `Add the ${editorialMissing.join(" and ")} — agencies reject editorial captions without them.`
+                  : `Caption: ${captionPreview}`}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Category Pickers */}
+        {categorySlots > 0 && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+              {profile.name} {categorySlots === 1 ? "Category" : "Categories"}
+            </label>
+            <div className="flex gap-2">
+              {Array.from({ length: categorySlots }, (_, slot) => (
+                <select
+                  key={slot}
+                  value={categories[slot] ?? ""}
+                  onChange={(e) => handleCategoryChange(slot, e.target.value)}
+                  disabled={slot > categories.length}
+                  style={{
+                    backgroundColor: "#1f2937",
+                    color: "#ffffff",
+                    border: "1px solid #4b5563",
+                  }}
+                  className={cn(
+                    "flex-1 px-3 py-2 rounded-lg",
+                    "focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent",
+                    "disabled:opacity-50 disabled:cursor-not-allowed"
+                  )}
+                >
+                  <option value="">{slot === 0 ? "No category" : "None"}</option>
+                  {profile.categories.map((category) => (
+                    <option key={category.code} value={category.code}>
+                      {category.code === category.label
+                        ? category.label
+                        : `${category.code} — ${category.label}`}
+                    </option>
+                  ))}
+                </select>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Releases */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+            Releases
+            <span className="ml-2 text-xs font-normal text-slate-400 dark:text-gray-500">
+              Apply to every image in the group
+            </span>
+          </label>
+          {unreleasedCount > 0 && (
+            <p className="mb-2 text-xs text-amber-600 dark:text-amber-400">
+              {unreleasedCount === 1 ? "1 image shows" : `${unreleasedCount} images show`} people or
+              property that probably need a release. Export is blocked until one is linked or the
+              group is marked editorial.
+            </p>
+          )}
+          <ReleasePicker selectedIds={releaseIds} onChange={setReleaseIds} />
+        </div>
+
         {/* Tags Section */}
         <div className="mb-6">
           <div className="flex items-center justify-between mb-1">
@@ -328,15 +745,25 @@ export function TagEditor({ group, isOpen, onClose }: TagEditorProps) {
             <SortableContext items={tagIds} strategy={horizontalListSortingStrategy}>
               <div className="flex flex-wrap gap-2 p-3 bg-slate-50 dark:bg-gray-800 rounded-lg min-h-[80px] mb-2">
                 {tags.map((tag, index) => (
-                  <SortableTag
-                    key={tagIds[index]}
-                    id={tagIds[index]!}
-                    tag={tag}
-                    index={index}
-                    onRemove={handleRemoveTag}
-                    onCopy={handleCopySingleTag}
-                    copiedTagIndex={copiedTagIndex}
-                  />
+                  <Fragment key={tagIds[index]}>
+                    {/* Agencies weigh the first 10 keywords most — mark where that ends */}
+                    {index === TOP_KEYWORD_COUNT && (
+                      <div className="basis-full flex items-center gap-2 text-xs text-slate-400 dark:text-gray-500">
+                        <span className="h-px flex-1 bg-slate-300 dark:bg-gray-600" />
+                        Top {TOP_KEYWORD_COUNT} above — weighted most in search
+                        <span className="h-px flex-1 bg-slate-300 dark:bg-gray-600" />
+                      </div>
+                    )}
+                    <SortableTag
+                      id={tagIds[index]!}
+                      tag={tag}
+                      index={index}
+                      relevance={group.tagRelevance?.[tag.toLowerCase()]}
+                      onRemove={handleRemoveTag}
+                      onCopy={handleCopySingleTag}
+                      copiedTagIndex={copiedTagIndex}
+                    />
+                  </Fragment>
                 ))}
                 {tags.length === 0 && (
                   <span className="text-slate-400 dark:text-gray-500 text-sm">
@@ -381,6 +808,38 @@ export function TagEditor({ group, isOpen, onClose }: TagEditorProps) {
               Add
             </button>
           </div>
+
+          {/* Keywords the tag cleanup dropped, with the reason and a way back */}
+          {removals.length > 0 && (
+            <details className="mt-3 text-sm">
+              <summary className="cursor-pointer text-slate-600 dark:text-slate-400">
+                {removals.length} keyword{removals.length === 1 ? "" : "s"} removed as
+                near-duplicates or filtered
+              </summary>
+              <ul className="mt-2 space-y-1">
+                {removals.map((removal) => (
+                  <li
+                    key={`${removal.tag}-${removal.reason}`}
+                    className="flex items-center gap-2 text-xs"
+                  >
+                    <span className="font-medium text-slate-700 dark:text-slate-300 line-through">
+                      {removal.tag}
+                    </span>
+                    <span className="flex-1 text-slate-500 dark:text-gray-400">
+                      {describeTagRemoval(removal)}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => handleRestoreTag(removal)}
+                      className="text-blue-600 hover:text-blue-700"
+                    >
+                      Restore
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
         </div>
 
         {/* Footer Buttons */}
@@ -1 +1,2 @@
 export * from "./TagEditor";
+export * from "./ReleasePicker";
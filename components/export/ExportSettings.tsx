@@ -1,12 +1,13 @@
 "use client";
 
 import { useState, useEffect, useRef, KeyboardEvent } from "react";
-import { X, Settings2, HelpCircle, Plus, Tag } from "lucide-react";
+import { X, Settings2, HelpCircle, Plus, Tag, Store } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui";
 import { previewFilename, validatePattern } from "@/lib/export/export-namer";
 import type { ExportSettings as ExportSettingsType } from "@/lib/export";
 import { DEFAULT_EXPORT_SETTINGS } from "@/lib/export";
+import { listMarketplaceProfiles, type MarketplaceId } from "@/lib/marketplaces";
 
 export interface ExportSettingsProps {
   settings: ExportSettingsType;
@@ -50,6 +51,8 @@ export function ExportSettings({
       const normalizedSettings = {
         ...settings,
         globalTags: settings.globalTags ?? [],
+        marketplaces: settings.marketplaces ?? [],
+        metadata: { ...DEFAULT_EXPORT_SETTINGS.metadata, ...settings.metadata },
       };
       setLocalSettings(normalizedSettings);
       setPatternError(null);
@@ -107,6 +110,14 @@ export function ExportSettings({
     setPatternError(validation.valid ? null : validation.error || null);
   };
 
+  const handleToggleMarketplace = (marketplace: MarketplaceId, checked: boolean) => {
+    const current = localSettings.marketplaces ?? [];
+    setLocalSettings({
+      ...localSettings,
+      marketplaces: checked ? [...current, marketplace] : current.filter((m) => m !== marketplace),
+    });
+  };
+
   const handleSave = () => {
     if (patternError) return;
     onSettingsChange(localSettings);
@@ -318,6 +329,31 @@ export function ExportSettings({
           )}
         </section>
 
+        {/* Marketplaces Section */}
+        <section className="mb-6">
+          <div className="flex items-center gap-2 mb-3">
+            <Store className="h-4 w-4 text-slate-600" />
+            <h3 className="text-sm font-medium text-slate-700">Marketplaces</h3>
+          </div>
+          <p className="text-xs text-slate-500 mb-3">
+            Metadata and CSV are fitted to each selected marketplace; selecting several gives one
+            folder per marketplace. Leave empty to export for the current marketplace as tagged.
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            {listMarketplaceProfiles().map((profile) => (
+              <label key={profile.id} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={(localSettings.marketplaces ?? []).includes(profile.id)}
+                  onChange={(e) => handleToggleMarketplace(profile.id, e.target.checked)}
+                  className="h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="text-sm text-slate-700">{profile.name}</span>
+              </label>
+            ))}
+          </div>
+        </section>
+
         {/* Metadata Section */}
         <section className="mb-6">
           <h3 className="text-sm font-medium text-slate-700 mb-3">Metadata Embedding</h3>
@@ -363,6 +399,45 @@ export function ExportSettings({
                   </span>
                 </div>
               </label>
+              <label className="flex items-center gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={localSettings.metadata.burnXmp}
+                  onChange={(e) =>
+                    setLocalSettings({
+                      ...localSettings,
+                      metadata: { ...localSettings.metadata, burnXmp: e.target.checked },
+                    })
+                  }
+                  className="h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                />
+                <div>
+                  <span className="text-sm text-slate-700">XMP Packet</span>
+                  <span className="text-xs text-slate-500 block">
+                    dc:title, dc:description, dc:subject (Lightroom, agencies; the only tags
+                    PNG/WebP carry)
+                  </span>
+                </div>
+              </label>
+              <label className="flex items-center gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={localSettings.metadata.writeXmpSidecars}
+                  onChange={(e) =>
+                    setLocalSettings({
+                      ...localSettings,
+                      metadata: { ...localSettings.metadata, writeXmpSidecars: e.target.checked },
+                    })
+                  }
+                  className="h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                />
+                <div>
+                  <span className="text-sm text-slate-700">XMP Sidecars</span>
+                  <span className="text-xs text-slate-500 block">
+                    .xmp file next to each PNG/WebP export
+                  </span>
+                </div>
+              </label>
             </div>
           )}
         </section>
@@ -9,12 +9,15 @@ import {
   Eye,
   Copy,
   FileSpreadsheet,
+  ShieldAlert,
 } from "lucide-react";
 import { toast } from "sonner";
 import { Button } from "@/components/ui";
 import { cn, collectAllTags, copyToClipboard, downloadString } from "@/lib/utils";
 import { useBatchStore } from "@/store/useBatchStore";
-import { ExportEngine, generateStockCSV } from "@/lib/export";
+import { ExportEngine, findMissingReleases, generateStockCSV } from "@/lib/export";
+import { findNonCompliantGroups } from "@/lib/compliance";
+import { recordExportedImages } from "@/lib/persistence/db";
 import { ExportSettings } from "./ExportSettings";
 import { MetadataPreviewModal } from "@/components/gallery/MetadataPreviewModal";
 import type {
@@ -43,6 +46,7 @@ export function ExportToolbar({ className, projectName }: ExportToolbarProps) {
     updateExportSettings,
     selectedGroupIds,
     selectAllGroups,
+    releases,
   } = useBatchStore();
 
   const [isExporting, setIsExporting] = useState(false);
@@ -51,6 +55,11 @@ export function ExportToolbar({ className, projectName }: ExportToolbarProps) {
   const [showResult, setShowResult] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
+  // Compliance errors stopped an export; the user can review them or export anyway
+  const [complianceBlock, setComplianceBlock] = useState<{
+    issues: string[];
+    retry: () => void;
+  } | null>(null);
 
   const exportableGroups = groups.filter(
     (g) =>
@@ -66,13 +75,14 @@ export function ExportToolbar({ className, projectName }: ExportToolbarProps) {
   const totalExportableImages = groupsToExport.reduce((sum, g) => sum + g.images.length, 0);
   const canExport = totalExportableImages > 0 && !isExporting;
 
-  const handleExport = async () => {
+  const handleExport = async (allowComplianceErrors = false) => {
     if (!canExport) return;
 
     setIsExporting(true);
     setResult(null);
     setShowResult(false);
     setProgress(null);
+    setComplianceBlock(null);
 
     try {
       const engine = new ExportEngine({
@@ -80,14 +90,93 @@ export function ExportToolbar({ className, projectName }: ExportToolbarProps) {
         settings: exportSettings,
         selectedGroupIds: selectedGroupIds.size > 0 ? selectedGroupIds : undefined,
         folderName: projectName, // Folder name for ZIP filename
+        releases,
+        allowComplianceErrors,
       });
       engine.onProgress(setProgress);
 
       const exportResult = await engine.exportGroups(groups);
+      if (!exportResult.success && exportResult.complianceErrors?.length) {
+        setComplianceBlock({
+          issues: exportResult.complianceErrors,
+          retry: () => handleExport(true),
+        });
+        return;
+      }
       setResult(exportResult);
 
       if (exportResult.success && exportResult.blob && exportResult.filename) {
         ExportEngine.downloadBlob(exportResult.blob, exportResult.filename);
+
+        const untagged = exportResult.untaggedFiles ?? [];
+        if (untagged.length > 0) {
+          const listed = untagged.slice(0, 5).map((f) => `${f.filename}: ${f.reason}`);
+          if (untagged.length > listed.length) {
+            listed.push(`…and ${untagged.length - listed.length} more`);
+          }
+          toast.warning(
+            `${untagged.length} file${untagged.length === 1 ? "" : "s"} exported without embedded metadata`,
+            { description: listed.join("\n"), duration: 10000 }
+          );
+        }
+
+        const removed = exportResult.removedTrademarks ?? [];
+        if (removed.length > 0) {
+          toast.warning(
+            `Removed ${removed.length} trademarked keyword${removed.length === 1 ? "" : "s"} from commercial files`,
+            {
+              description: `${removed.slice(0, 10).join(", ")}${removed.length > 10 ? ", …" : ""}. Mark the group editorial to keep brand names.`,
+              duration: 10000,
+            }
+          );
+        }
+
+        const complianceWarnings = exportResult.complianceWarnings ?? 0;
+        if (complianceWarnings > 0) {
+          toast.warning(
+            `${complianceWarnings} compliance warning${complianceWarnings === 1 ? "" : "s"} in the exported metadata`,
+            {
+              description: allowComplianceErrors
+                ? "Exported with the compliance errors you accepted. Open Preview Data to review them."
+                : "Open Preview Data to review them before uploading.",
+              duration: 10000,
+            }
+          );
+        } else if (allowComplianceErrors) {
+          toast.warning("Exported with the compliance errors you accepted", { duration: 10000 });
+        }
+
+        const failedChecks = (exportResult.verification ?? []).filter(
+          (v) => v.status === "mismatch" || v.status === "unreadable"
+        );
+        if (failedChecks.length > 0) {
+          toast.error(
+            `${failedChecks.length} file${failedChecks.length === 1 ? "" : "s"} failed metadata verification`,
+            {
+              description: `${failedChecks[0]!.filename}: ${failedChecks[0]!.issues[0]?.message ?? "unreadable"}. See metadata-verification.csv in the ZIP.`,
+              duration: 10000,
+            }
+          );
+        }
+
+        // Remember what was submitted so re-uploads of these frames get flagged
+        const exportedAt = Date.now();
+        recordExportedImages(
+          groupsToExport.flatMap((g) =>
+            g.images.flatMap((img) =>
+              img.contentHash
+                ? [
+                    {
+                      contentHash: img.contentHash,
+                      perceptualHash: img.perceptualHash,
+                      filename: img.originalFilename,
+                      exportedAt,
+                    },
+                  ]
+                : []
+            )
+          )
+        ).catch((err) => console.warn("[IDB] Failed to record export history:", err));
       }
 
       setShowResult(true);
@@ -153,15 +242,39 @@ export function ExportToolbar({ className, projectName }: ExportToolbarProps) {
     }
   };
 
-  const handleDownloadAdobeCSV = () => {
+  const handleDownloadAdobeCSV = (allowComplianceErrors = false) => {
+    setComplianceBlock(null);
     if (groupsToExport.length === 0) {
       toast.error("No groups to export");
       return;
     }
 
+    const missingReleases = findMissingReleases(groupsToExport, releases);
+    if (missingReleases.length > 0) {
+      toast.error("Releases missing", {
+        description: `${missingReleases.join("; ")}. Link a release or mark the images editorial.`,
+        duration: 10000,
+      });
+      return;
+    }
+
+    const nonCompliant = findNonCompliantGroups(groupsToExport, [marketplace]);
+    if (nonCompliant.length > 0 && !allowComplianceErrors) {
+      setComplianceBlock({
+        issues: nonCompliant,
+        retry: () => handleDownloadAdobeCSV(true),
+      });
+      return;
+    }
+
     // Use the new stock-csv generator with full semanticTags support
     // Pass projectName as prefix to handle deduplication
-    const csv = generateStockCSV(groupsToExport, marketplace, exportSettings.naming.projectName);
+    const csv = generateStockCSV(
+      groupsToExport,
+      marketplace,
+      exportSettings.naming.projectName,
+      releases
+    );
 
     // Build filename: visionbatch-[FolderName]-[GroupName].csv
     const firstGroup = groupsToExport[0];
@@ -222,7 +335,7 @@ export function ExportToolbar({ className, projectName }: ExportToolbarProps) {
       {/* Row 2: Download buttons (full width) */}
       <div className="flex flex-col sm:flex-row gap-2">
         <Button
-          onClick={handleDownloadAdobeCSV}
+          onClick={() => handleDownloadAdobeCSV()}
           variant="outline"
           size="md"
           title="Download Adobe Stock CSV"
@@ -234,7 +347,7 @@ export function ExportToolbar({ className, projectName }: ExportToolbarProps) {
         </Button>
 
         <Button
-          onClick={handleExport}
+          onClick={() => handleExport()}
           disabled={!canExport}
           isLoading={isExporting}
           variant="primary"
@@ -246,6 +359,40 @@ export function ExportToolbar({ className, projectName }: ExportToolbarProps) {
         </Button>
       </div>
 
+      {/* Compliance errors: review or explicitly accept before anything downloads */}
+      {complianceBlock && (
+        <div className="px-3 py-2 rounded-lg text-sm bg-red-50 text-red-700 border border-red-200 space-y-2">
+          <div className="flex items-center gap-2 font-medium">
+            <ShieldAlert className="h-4 w-4" />
+            {complianceBlock.issues.length} group
+            {complianceBlock.issues.length === 1 ? " has" : "s have"} compliance errors
+          </div>
+          <ul className="list-disc pl-5 space-y-0.5 text-xs">
+            {complianceBlock.issues.slice(0, 3).map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+            {complianceBlock.issues.length > 3 && (
+              <li>…and {complianceBlock.issues.length - 3} more</li>
+            )}
+          </ul>
+          <div className="flex gap-2">
+            <Button
+              onClick={() => {
+                setComplianceBlock(null);
+                handlePreview();
+              }}
+              variant="outline"
+              size="sm"
+            >
+              Review
+            </Button>
+            <Button onClick={complianceBlock.retry} variant="outline" size="sm">
+              Export anyway
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Result notification */}
       {showResult && result && (
         <div
@@ -260,6 +407,11 @@ export function ExportToolbar({ className, projectName }: ExportToolbarProps) {
             <>
               <CheckCircle className="h-4 w-4" />
               Exported {result.stats.totalImages} images
+              {!!result.untaggedFiles?.length && (
+                <span className="text-amber-700">
+                  ({result.untaggedFiles.length} without embedded metadata)
+                </span>
+              )}
             </>
           ) : (
             <>
@@ -21,6 +21,7 @@ import { StrategySelector } from "@/components/dashboard";
 import { ExportToolbar } from "@/components/export";
 import { useBatchStore } from "@/store/useBatchStore";
 import { DEFAULT_TAG_BLACKLIST } from "@/lib/utils/tag-processing";
+import { TagSynonymsPopover } from "./TagSynonymsPopover";
 
 interface Project {
   id: string;
@@ -328,6 +329,8 @@ export function BatchToolbar({ className, selectedProjectId, folderName }: Batch
               </div>
             )}
           </div>
+
+          <TagSynonymsPopover />
         </div>
       </div>
 
@@ -19,17 +19,29 @@ import {
   Plus,
   Coins,
   AlertTriangle,
+  RotateCcw,
 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
-import { cn, copyToClipboard, processTags } from "@/lib/utils";
+import {
+  cn,
+  copyToClipboard,
+  findSharedTags,
+  processTags,
+  processTagsWithReport,
+  type TagRemoval,
+  type TagSynonymRule,
+} from "@/lib/utils";
+import { hasUsableKeywords } from "@/lib/image-processing/embedded-metadata";
 import { useBatchStore, LocalGroup, LocalImageItem, GroupSortOption } from "@/store/useBatchStore";
 import { useCredits, triggerCreditsRefresh } from "@/hooks/useCredits";
+import { useVisionWorker, type TagChunk } from "@/hooks/useVisionWorker";
 import { TagEditor } from "@/components/editor";
 import { DraggableImage, DroppableGroup } from "@/components/dnd";
 import { ImageLightbox } from "./ImageLightbox";
 import { deleteImageData, deleteGroupData } from "@/lib/persistence";
 import { markExplicitClear } from "@/hooks/usePersistence";
+import { missingRelease } from "@/lib/export";
 import {
   Select,
   AlertDialog,
@@ -41,13 +53,48 @@ import {
   AlertDialogAction,
   AlertDialogCancel,
 } from "@/components/ui";
-import type { VisionTagsResponse } from "@/types";
+import type { ImageTagResult, VisionTagsResponse } from "@/types";
 
 // Max images rendered per group card before the "Show more" button appears.
 // Capping initial renders prevents the browser from decoding thousands of
 // base64 thumbnails simultaneously when a large batch is clustered.
 const VISIBLE_IMAGES_LIMIT = 20;
 
+// Per-image tagging sends at most this many images per request (the tags route's per-image
+// cap): one parallel round of AI calls, so a chunk fits inside one provider timeout.
+const PER_IMAGE_CHUNK_SIZE = 4;
+
+type TagResultInput = Pick<
+  ImageTagResult,
+  "imageId" | "title" | "tags" | "confidence" | "tagRelevance"
+>;
+
+/** Tag result taken from the keywords already embedded in an upload — no API call. */
+function embeddedTagResult(
+  image: LocalImageItem,
+  blacklist: string[],
+  synonyms: TagSynonymRule[]
+): TagResultInput {
+  const metadata = image.embeddedMetadata;
+  return {
+    imageId: image.id,
+    title: metadata?.title || metadata?.caption || "",
+    tags: processTags(metadata?.keywords ?? [], blacklist, synonyms),
+    confidence: 1,
+  };
+}
+
+/** Removals from several tag lists, each dropped tag listed once */
+function uniqueRemovals(removals: TagRemoval[]): TagRemoval[] {
+  const seen = new Set<string>();
+  return removals.filter((r) => {
+    const key = r.tag.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
 const SORT_OPTIONS = [
   { value: "date", label: "Sort by Date" },
   { value: "name", label: "Sort by Name" },
@@ -417,6 +464,8 @@ function CollapsibleGroupCard({
   const [isLoading, setIsLoading] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Per-image tagging: images whose chunk failed or that came back unusable, for a retry
+  const [failedTagImageIds, setFailedTagImageIds] = useState<string[]>([]);
   const [showFolderMenu, setShowFolderMenu] = useState(false);
   const [showGenerateDialog, setShowGenerateDialog] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
@@ -431,12 +480,36 @@ function CollapsibleGroupCard({
     maxTags,
     namingSettings,
     tagBlacklist,
+    tagSynonyms,
+    taggingMode,
+    reuseEmbeddedMetadata,
+    setReuseEmbeddedMetadata,
     updateGroupTags,
+    updateImageTagResults,
+    updateGroup,
     toggleGroupCollapse,
+    releases,
   } = useBatchStore();
+  const { runChunks } = useVisionWorker();
+  const unreleasedCount = group.images.filter(
+    (img) => missingRelease(img, group, releases) !== null
+  ).length;
+
+  // Already-keyworded uploads skip paid tagging. Group mode bills every image in the
+  // group, so there only a fully keyworded group is free.
+  const keywordedIds = new Set(
+    group.images.filter((img) => hasUsableKeywords(img.embeddedMetadata)).map((img) => img.id)
+  );
+  const imagesToTag = !reuseEmbeddedMetadata
+    ? group.images
+    : taggingMode === "per-image"
+      ? group.images.filter((img) => !keywordedIds.has(img.id))
+      : keywordedIds.size === group.images.length
+        ? []
+        : group.images;
 
   // Cost calculation: 1 credit per image
-  const batchCost = group.images.length;
+  const batchCost = imagesToTag.length;
   const hasEnoughCredits = !isAuthenticated || creditsBalance >= batchCost;
 
   const isCollapsed = group.isCollapsed ?? false;
@@ -465,12 +538,141 @@ function CollapsibleGroupCard({
     setShowGenerateDialog(true);
   };
 
+  const announceTagged = (imageCount: number) => {
+    setShowSuccess(true);
+    setTimeout(() => setShowSuccess(false), 3000);
+    triggerCreditsRefresh();
+
+    // ROI "Time Saved" toast
+    const minutesSaved = imageCount * 2;
+    toast.success(
+      `${imageCount} image${imageCount !== 1 ? "s" : ""} tagged. You saved ~${minutesSaved} minutes of work.`
+    );
+  };
+
+  /** Keyworded images get their embedded metadata as results; no credits are spent. */
+  const applyEmbeddedTags = () => {
+    const results = group.images.map((img) => embeddedTagResult(img, tagBlacklist, tagSynonyms));
+    updateImageTagResults(group.id, results);
+    setShowSuccess(true);
+    setTimeout(() => setShowSuccess(false), 3000);
+    toast.success(
+      `Reused existing keywords for ${results.length} image${results.length !== 1 ? "s" : ""} — no credits used.`
+    );
+  };
+
+  // Per-image mode: every image is tagged (and billed) individually, in chunks of 4
+  // A retry passes the failed ids: only those are sent, the rest keep their results
+  const doGeneratePerImageTags = async (retryIds?: Set<string>) => {
+    const targets = retryIds ? group.images.filter((img) => retryIds.has(img.id)) : imagesToTag;
+    const reused =
+      reuseEmbeddedMetadata && !retryIds
+        ? group.images
+            .filter((img) => keywordedIds.has(img.id))
+            .map((img) => embeddedTagResult(img, tagBlacklist, tagSynonyms))
+        : [];
+    const previous = retryIds
+      ? group.images
+          .filter((img) => !retryIds.has(img.id) && img.status === "analyzed" && img.aiTags)
+          .map((img) => ({
+            imageId: img.id,
+            title: img.aiTitle ?? "",
+            tags: img.aiTags ?? [],
+            confidence: img.aiConfidence ?? 0,
+            releaseNeeded: img.releaseNeeded,
+          }))
+      : [];
+    const chunks: TagChunk[] = [];
+    const totalChunks = Math.ceil(targets.length / PER_IMAGE_CHUNK_SIZE);
+    for (let i = 0; i < targets.length; i += PER_IMAGE_CHUNK_SIZE) {
+      chunks.push({
+        chunkIndex: chunks.length,
+        totalChunks,
+        payload: {
+          images: targets.slice(i, i + PER_IMAGE_CHUNK_SIZE).map((img) => ({
+            id: img.id,
+            dataUrl: img.thumbnailDataUrl,
+          })),
+          marketplace,
+          strategy,
+          maxTags,
+          platform: namingSettings.platform || "GENERIC",
+          mode: "per-image",
+          editorial: group.editorial ?? false,
+        },
+      });
+    }
+
+    const embeddedById = new Map(group.images.map((img) => [img.id, img.embeddedMetadata]));
+    const { responses, failed } =
+      chunks.length > 0 ? await runChunks(chunks) : { responses: [], failed: [] };
+    setFailedTagImageIds([
+      ...failed.flatMap(({ chunk }) => chunk.payload.images.map((img) => img.id)),
+      ...responses.flatMap((r) => r.failedImageIds),
+    ]);
+    const removals: TagRemoval[] = [];
+    const results = responses
+      .flatMap((r) => r.results)
+      .map((r) => {
+        const existing = reuseEmbeddedMetadata ? embeddedById.get(r.imageId)?.keywords : undefined;
+        // Partially keyworded images keep their own keywords ahead of the AI's
+        const processed = processTagsWithReport(
+          [...(existing ?? []), ...r.tags],
+          tagBlacklist,
+          tagSynonyms
+        );
+        removals.push(...processed.removed);
+        return { ...r, tags: processed.tags.slice(0, maxTags) };
+      });
+    const creditsRefunded = responses.reduce((sum, r) => sum + r.creditsRefunded, 0);
+
+    if (results.length === 0 && reused.length === 0) {
+      throw new Error(
+        creditsRefunded > 0
+          ? "No usable tags were generated. Your credits were refunded."
+          : (failed[0]?.error.message ?? "Tag generation failed")
+      );
+    }
+
+    updateImageTagResults(group.id, [...previous, ...reused, ...results]);
+    updateGroup(group.id, { tagRemovals: uniqueRemovals(removals) });
+    if (creditsRefunded > 0) {
+      toast.warning(
+        `${creditsRefunded} image${creditsRefunded !== 1 ? "s" : ""} returned no usable tags. Your credits were refunded.`
+      );
+    }
+    announceTagged(results.length + reused.length);
+  };
+
+  const doRetryFailedTags = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsLoading(true);
+    setError(null);
+    try {
+      await doGeneratePerImageTags(new Set(failedTagImageIds));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Tag generation failed");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const doGenerateTags = async () => {
     setIsLoading(true);
     setError(null);
     setShowSuccess(false);
+    setFailedTagImageIds([]);
 
     try {
+      if (imagesToTag.length === 0) {
+        applyEmbeddedTags();
+        return;
+      }
+      if (taggingMode === "per-image") {
+        await doGeneratePerImageTags();
+        return;
+      }
+
       // Send up to 4 representative images for multi-view batch analysis
       const sampleImages = group.images.slice(0, 4).map((img) => ({
         id: img.id,
@@ -487,6 +689,7 @@ function CollapsibleGroupCard({
           strategy,
           maxTags,
           platform: namingSettings.platform || "GENERIC",
+          editorial: group.editorial ?? false,
           totalImageCount: group.images.length,
         }),
       });
@@ -502,19 +705,31 @@ function CollapsibleGroupCard({
       }
 
       const tagResult = result.data.results[0];
+      if (!tagResult && result.data.creditsRefunded > 0) {
+        throw new Error("No usable tags were generated. Your credits were refunded.");
+      }
       if (tagResult) {
-        const cleanedTags = processTags(tagResult.tags, tagBlacklist);
-        updateGroupTags(group.id, tagResult.title, cleanedTags, tagResult.confidence);
-        setShowSuccess(true);
-        setTimeout(() => setShowSuccess(false), 3000);
-        triggerCreditsRefresh();
-
-        // ROI "Time Saved" toast
-        const imageCount = group.images.length;
-        const minutesSaved = imageCount * 2;
-        toast.success(
-          `${imageCount} image${imageCount !== 1 ? "s" : ""} tagged. You saved ~${minutesSaved} minutes of work.`
+        // Keywords most images were already tagged with lead the AI's list
+        const existing = reuseEmbeddedMetadata
+          ? findSharedTags(group.images.map((img) => img.embeddedMetadata?.keywords ?? []))
+          : [];
+        const processed = processTagsWithReport(
+          [...existing, ...tagResult.tags],
+          tagBlacklist,
+          tagSynonyms
         );
+        const cleanedTags = processed.tags.slice(0, maxTags);
+        updateGroupTags(
+          group.id,
+          tagResult.title,
+          cleanedTags,
+          tagResult.confidence,
+          tagResult.tagRelevance,
+          tagResult.categories,
+          tagResult.releaseNeeded
+        );
+        updateGroup(group.id, { tagRemovals: uniqueRemovals(processed.removed) });
+        announceTagged(group.images.length);
       }
     } catch (err) {
       const message = err instanceof Error ? err.message : "Tag generation failed";
@@ -643,6 +858,23 @@ function CollapsibleGroupCard({
                 <span className="text-green-600">Tagged</span>
               </>
             )}
+            {group.editorial && (
+              <>
+                <span>•</span>
+                <span className="text-amber-600">Editorial</span>
+              </>
+            )}
+            {unreleasedCount > 0 && (
+              <>
+                <span>•</span>
+                <span
+                  className="text-red-600"
+                  title="People or property detected. Link a release in the group editor or mark the images editorial."
+                >
+                  {unreleasedCount} need{unreleasedCount === 1 ? "s" : ""} a release
+                </span>
+              </>
+            )}
             {currentFolder && (
               <>
                 <span>•</span>
@@ -791,6 +1023,29 @@ function CollapsibleGroupCard({
             </div>
           )}
 
+          {/* Per-image tagging failures */}
+          {failedTagImageIds.length > 0 && (
+            <div className="mb-4 p-2 bg-amber-50 border border-amber-200 rounded-lg flex items-start gap-2">
+              <AlertTriangle className="h-4 w-4 text-amber-500 mt-0.5 shrink-0" />
+              <p className="flex-1 min-w-0 text-sm text-amber-800">
+                {failedTagImageIds.length} image{failedTagImageIds.length !== 1 ? "s" : ""} could
+                not be tagged:{" "}
+                {group.images
+                  .filter((img) => failedTagImageIds.includes(img.id))
+                  .map((img) => img.originalFilename)
+                  .join(", ")}
+              </p>
+              <button
+                onClick={doRetryFailedTags}
+                disabled={isLoading}
+                className="inline-flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium text-amber-800 hover:bg-amber-100 disabled:opacity-50 transition-colors shrink-0"
+              >
+                <RotateCcw className="h-3 w-3" />
+                Retry
+              </button>
+            </div>
+          )}
+
           {/* Tags Preview */}
           {isTagged && group.sharedTags.length > 0 && (
             <div className="mb-4 flex items-start gap-2">
@@ -878,6 +1133,24 @@ function CollapsibleGroupCard({
             </AlertDialogDescription>
           </AlertDialogHeader>
 
+          {keywordedIds.size > 0 && (
+            <label className="mt-3 flex items-start gap-2 text-sm text-slate-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={reuseEmbeddedMetadata}
+                onChange={(e) => setReuseEmbeddedMetadata(e.target.checked)}
+                className="mt-0.5 h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>
+                Reuse existing keywords — {keywordedIds.size} image
+                {keywordedIds.size !== 1 ? "s are" : " is"} already keyworded
+                {taggingMode === "per-image" || keywordedIds.size === group.images.length
+                  ? " and won't be billed"
+                  : ""}
+              </span>
+            </label>
+          )}
+
           {/* Low Balance Warning */}
           {isAuthenticated && !hasEnoughCredits && (
             <div className="mt-3 flex items-start gap-2 rounded-lg bg-red-50 border border-red-200 px-3 py-2.5">
@@ -1,7 +1,7 @@
 "use client";
 
-import { useState } from "react";
-import { Layers, ImageIcon, Loader2, X, Users, Hand, Trash2 } from "lucide-react";
+import { useMemo, useState } from "react";
+import { Layers, ImageIcon, Loader2, X, Users, Hand, Trash2, Copy } from "lucide-react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { useBatchStore, LocalGroup } from "@/store/useBatchStore";
@@ -20,7 +20,22 @@ import {
 import { DraggableImage, DroppableGroup } from "@/components/dnd";
 import { ClusterDialog } from "./ClusterDialog";
 import { NamingSettings } from "./NamingSettings";
-import type { VisionClusterResponse, ClusterSettings } from "@/types";
+import { TaxonomySettings } from "./TaxonomySettings";
+import { MergeProposalsDialog } from "./MergeProposalsDialog";
+import { StackPickerDialog } from "./StackPickerDialog";
+import {
+  proposeClusterMerges,
+  applyClusterMerges,
+  type ChunkedClusterGroup,
+  type MergeProposal,
+} from "@/lib/utils/cluster-merge";
+import {
+  runPreClustering,
+  getRepresentativeIds,
+  expandRepresentativeGroups,
+  type PreCluster,
+} from "@/lib/image-processing";
+import type { VisionClusterResponse, ClusterSettings, ImageClusterGroup } from "@/types";
 
 export interface ImageGalleryProps {
   className?: string;
@@ -29,6 +44,8 @@ export interface ImageGalleryProps {
 // ─── Client-side orchestration constants ───────────────────────────────────────
 const CHUNK_SIZE = 20; // images per API call — matches MAX_IMAGES_PER_REQUEST in the route
 const MAX_RETRIES = 3;
+// Below this, pre-clustering can't save a meaningful number of API images
+const PRECLUSTER_MIN_IMAGES = 8;
 
 /**
  * Send one chunk to /api/vision/cluster with automatic retry on transient errors
@@ -104,6 +121,8 @@ export function ImageGallery({ className }: ImageGalleryProps) {
     removeImageFromGroup,
     updateGroup,
     setClusteringProgress,
+    setStackKeeper,
+    unstackImages,
   } = useBatchStore();
 
   const [showOrganizeModal, setShowOrganizeModal] = useState(false);
@@ -112,9 +131,47 @@ export function ImageGallery({ className }: ImageGalleryProps) {
   const [showGroupAllConfirm, setShowGroupAllConfirm] = useState(false);
   const [clusterMode, setClusterMode] = useState<"append" | "clear" | null>(null);
   const [pendingSettings, setPendingSettings] = useState<ClusterSettings | undefined>(undefined);
+  // Cross-chunk merge review: clusters are held back until the user resolves the proposals
+  const [mergeReview, setMergeReview] = useState<{
+    clusters: ChunkedClusterGroup[];
+    proposals: MergeProposal[];
+    sourceImages: typeof images;
+  } | null>(null);
+
+  const [openStackId, setOpenStackId] = useState<string | null>(null);
 
   const unclusteredGroup = groups.find((g) => g.id === "unclustered");
-  const images = unclusteredGroup?.images ?? [];
+  const uploadedImages = unclusteredGroup?.images ?? [];
+  // Burst stacks collapse to their keeper: the other frames are hidden and never clustered
+  // while the stack has a keeper anywhere in the batch. Once the keeper is grouped they
+  // stay in uploads as one tile per stack, where another keeper can be picked.
+  const keeperStackIds = new Set(
+    groups.flatMap((g) => g.images).flatMap((img) => (img.isStackKeeper && img.stackId) || [])
+  );
+  const uploadedKeeperStackIds = new Set(
+    uploadedImages.flatMap((img) => (img.isStackKeeper && img.stackId) || [])
+  );
+  const images = uploadedImages.filter(
+    (img) => !img.stackId || img.isStackKeeper || !keeperStackIds.has(img.stackId)
+  );
+  const heldBackStackTiles = uploadedImages.filter(
+    (img, index) =>
+      img.stackId &&
+      !img.isStackKeeper &&
+      keeperStackIds.has(img.stackId) &&
+      !uploadedKeeperStackIds.has(img.stackId) &&
+      uploadedImages.findIndex((other) => other.stackId === img.stackId) === index
+  );
+  const stackFrames = (stackId: string) => uploadedImages.filter((img) => img.stackId === stackId);
+  // Frames hidden behind a keeper still in uploads: they stay behind when it is grouped
+  const heldBackFrameCount = uploadedImages.filter(
+    (img) => img.stackId && !img.isStackKeeper && uploadedKeeperStackIds.has(img.stackId)
+  ).length;
+  const duplicateImages = images.filter((img) => img.duplicate);
+  const openStackFrames = useMemo(
+    () => (openStackId ? uploadedImages.filter((img) => img.stackId === openStackId) : []),
+    [openStackId, uploadedImages]
+  );
 
   const handleDeleteImage = async (imageId: string) => {
     // Mark explicit clear to allow sync with reduced image count
@@ -129,11 +186,37 @@ export function ImageGallery({ className }: ImageGalleryProps) {
     }
   };
 
+  const handleRemoveDuplicates = async () => {
+    if (duplicateImages.length === 0) return;
+    await Promise.all(duplicateImages.map((img) => handleDeleteImage(img.id)));
+    toast.success(
+      `Removed ${duplicateImages.length} duplicate${duplicateImages.length !== 1 ? "s" : ""}.`
+    );
+  };
+
+  const handleStackKeep = async (imageId: string, discardOthers: boolean) => {
+    if (!openStackId) return;
+    const others = openStackFrames.filter((img) => img.id !== imageId);
+    setStackKeeper(openStackId, imageId);
+    setOpenStackId(null);
+    if (discardOthers) {
+      await Promise.all(others.map((img) => handleDeleteImage(img.id)));
+      unstackImages(openStackId);
+      toast.success(`Kept 1 frame, deleted ${others.length}.`);
+    }
+  };
+
+  const handleUnstack = () => {
+    if (!openStackId) return;
+    unstackImages(openStackId);
+    setOpenStackId(null);
+  };
+
   const handleClearUploads = async () => {
-    if (images.length === 0) return;
+    if (uploadedImages.length === 0) return;
     markExplicitClear();
     // Purge every uploaded image from IndexedDB before clearing the store.
-    await Promise.allSettled(images.map((img) => deleteImageData(img.id)));
+    await Promise.allSettled(uploadedImages.map((img) => deleteImageData(img.id)));
     updateGroup("unclustered", { images: [] });
     toast.success("All uploaded images cleared.");
   };
@@ -183,6 +266,7 @@ export function ImageGallery({ className }: ImageGalleryProps) {
     };
     appendGroups([newGroup]);
     toast.success(`Grouped all ${images.length} images as "${groupTitle}"`);
+    noteHeldBackFrames();
   };
 
   const handleManualMode = () => {
@@ -218,6 +302,48 @@ export function ImageGallery({ className }: ImageGalleryProps) {
     setPendingSettings(undefined);
   };
 
+  const noteHeldBackFrames = () => {
+    if (heldBackFrameCount === 0) return;
+    toast(
+      `${heldBackFrameCount} burst frame${heldBackFrameCount !== 1 ? "s" : ""} stayed in uploads — open the stack to pick another keeper or delete them.`,
+      { duration: 6000 }
+    );
+  };
+
+  /** Transform API clusters into LocalGroup[] — always use UUID for group IDs. */
+  const commitClusters = (clusters: ImageClusterGroup[], sourceImages: typeof images) => {
+    const baseTimestamp = Date.now();
+    const newGroups: LocalGroup[] = clusters.map((cluster, index) => ({
+      id: crypto.randomUUID(),
+      groupNumber: index + 1,
+      images: cluster.imageIds
+        .map((id) => sourceImages.find((img) => img.id === id))
+        .filter((img): img is NonNullable<typeof img> => img !== undefined),
+      sharedTags: [],
+      sharedTitle: cluster.title || cluster.suggestedLabel,
+      semanticTags: cluster.semanticTags,
+      editorial: cluster.usageType === "editorial" || undefined,
+      isVerified: false,
+      createdAt: baseTimestamp + index,
+    }));
+
+    appendGroups(newGroups);
+    noteHeldBackFrames();
+  };
+
+  const handleMergeResolve = (accepted: MergeProposal[]) => {
+    if (!mergeReview) return;
+    const { clusters, proposals, sourceImages } = mergeReview;
+    setMergeReview(null);
+    commitClusters(applyClusterMerges(clusters, accepted), sourceImages);
+    if (accepted.length > 0) {
+      const mergedCount = accepted.reduce((sum, p) => sum + p.groupIndices.length - 1, 0);
+      toast.success(
+        `Merged ${mergedCount} duplicate group${mergedCount !== 1 ? "s" : ""} (${accepted.length} of ${proposals.length} suggestions)`
+      );
+    }
+  };
+
   const performClustering = async (mode: "append" | "clear", settings?: ClusterSettings) => {
     if (images.length < 2) {
       setError("At least 2 images are required for clustering");
@@ -231,22 +357,37 @@ export function ImageGallery({ className }: ImageGalleryProps) {
 
     setError(null);
     setProcessingState({ isClustering: true });
-
-    // Always show progress — even a single chunk benefits from the indicator.
-    const totalChunks = Math.ceil(images.length / CHUNK_SIZE);
     setClusteringProgress({
       currentBatch: 0,
-      totalBatches: totalChunks,
+      totalBatches: Math.ceil(images.length / CHUNK_SIZE),
       totalImages: images.length,
     });
 
     try {
-      const allGroups: VisionClusterResponse["groups"] = [];
+      // Local pre-clustering: group look-alikes in a Web Worker and send only their
+      // representatives to the vision API. Any failure falls back to sending everything.
+      let preClusters: PreCluster[] | null = null;
+      if (images.length >= PRECLUSTER_MIN_IMAGES) {
+        preClusters = await runPreClustering({
+          images: images.map((img) => ({ id: img.id, dataUrl: img.thumbnailDataUrl })),
+        }).catch((err) => {
+          console.warn("[ImageGallery] Pre-clustering failed, sending all images:", err);
+          return null;
+        });
+      }
+      const representativeIds = preClusters ? getRepresentativeIds(preClusters) : null;
+      const apiImages = representativeIds
+        ? images.filter((img) => representativeIds.has(img.id))
+        : images;
+
+      // Always show progress — even a single chunk benefits from the indicator.
+      const totalChunks = Math.ceil(apiImages.length / CHUNK_SIZE);
+      const chunkGroups: ChunkedClusterGroup[] = [];
 
       // Sequential chunk loop with per-chunk retry. Each chunk is a single API call,
       // so the server stays stateless and well under the 60 s timeout.
       for (let i = 0; i < totalChunks; i++) {
-        const chunk = images.slice(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE);
+        const chunk = apiImages.slice(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE);
 
         setClusteringProgress({
           currentBatch: i + 1,
@@ -254,26 +395,24 @@ export function ImageGallery({ className }: ImageGalleryProps) {
           totalImages: images.length,
         });
 
-        const chunkGroups = await fetchClusterChunk(chunk, images.length, marketplace, settings);
-        allGroups.push(...chunkGroups);
+        const groups = await fetchClusterChunk(chunk, apiImages.length, marketplace, settings);
+        chunkGroups.push(...groups.map((group) => ({ ...group, chunkIndex: i })));
       }
 
-      // Transform API response into LocalGroup[] — always use UUID for group IDs.
-      const baseTimestamp = Date.now();
-      const newGroups: LocalGroup[] = allGroups.map((cluster, index) => ({
-        id: crypto.randomUUID(),
-        groupNumber: index + 1,
-        images: cluster.imageIds
-          .map((id) => images.find((img) => img.id === id))
-          .filter((img): img is NonNullable<typeof img> => img !== undefined),
-        sharedTags: [],
-        sharedTitle: cluster.title || cluster.suggestedLabel,
-        semanticTags: cluster.semanticTags,
-        isVerified: false,
-        createdAt: baseTimestamp + index,
-      }));
-
-      appendGroups(newGroups);
+      // Every representative brings along the look-alikes it stood in for
+      const allGroups = preClusters
+        ? expandRepresentativeGroups(chunkGroups, preClusters)
+        : chunkGroups;
+
+      // Each chunk is clustered independently, so the same subject can come back as
+      // several groups. Let the user review cross-chunk merges before creating groups.
+      const proposals = totalChunks > 1 ? proposeClusterMerges(allGroups) : [];
+      if (proposals.length > 0) {
+        setMergeReview({ clusters: allGroups, proposals, sourceImages: images });
+        return;
+      }
+
+      commitClusters(allGroups, images);
     } catch (err) {
       const raw = err instanceof Error ? err.message : "Clustering failed";
       const isOverloaded =
@@ -309,10 +448,28 @@ export function ImageGallery({ className }: ImageGalleryProps) {
           Uploaded Images {images.length > 0 && `(${images.length})`}
         </h2>
         <div className="flex items-center gap-2">
+          <TaxonomySettings />
           <NamingSettings />
+          {duplicateImages.length > 0 && (
+            <button
+              onClick={handleRemoveDuplicates}
+              disabled={isClustering}
+              className={cn(
+                "inline-flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium",
+                "text-amber-700 hover:text-amber-800 hover:bg-amber-50",
+                "border border-amber-200 hover:border-amber-300",
+                "transition-all duration-200",
+                "disabled:opacity-40 disabled:pointer-events-none"
+              )}
+              title="Remove images flagged as duplicates or already exported"
+            >
+              <Copy className="h-4 w-4" aria-hidden="true" />
+              Remove {duplicateImages.length} duplicate{duplicateImages.length !== 1 ? "s" : ""}
+            </button>
+          )}
           <button
             onClick={handleClearUploads}
-            disabled={images.length === 0 || isClustering}
+            disabled={uploadedImages.length === 0 || isClustering}
             className={cn(
               "inline-flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium",
               "text-red-600 hover:text-red-700 hover:bg-red-50",
@@ -349,7 +506,7 @@ export function ImageGallery({ className }: ImageGalleryProps) {
 
       {/* Grid or Empty State */}
       <DroppableGroup groupId="unclustered">
-        {images.length > 0 ? (
+        {images.length > 0 || heldBackStackTiles.length > 0 ? (
           <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
             {images.map((image) => (
               <DraggableImage
@@ -357,6 +514,23 @@ export function ImageGallery({ className }: ImageGalleryProps) {
                 image={image}
                 groupId="unclustered"
                 onDeleteImage={(imageId) => handleDeleteImage(imageId)}
+                stackSize={
+                  image.stackId && image.isStackKeeper
+                    ? stackFrames(image.stackId).length
+                    : undefined
+                }
+                onOpenStack={image.stackId ? () => setOpenStackId(image.stackId!) : undefined}
+              />
+            ))}
+            {/* Frames whose keeper is in a group: not clustered until one is picked here */}
+            {heldBackStackTiles.map((image) => (
+              <DraggableImage
+                key={image.id}
+                image={image}
+                groupId="unclustered"
+                onDeleteImage={(imageId) => handleDeleteImage(imageId)}
+                stackSize={stackFrames(image.stackId!).length}
+                onOpenStack={() => setOpenStackId(image.stackId!)}
               />
             ))}
           </div>
@@ -455,6 +629,23 @@ export function ImageGallery({ className }: ImageGalleryProps) {
         imageCount={images.length}
       />
 
+      {/* Cross-chunk Merge Review */}
+      <MergeProposalsDialog
+        isOpen={mergeReview !== null}
+        proposals={mergeReview?.proposals ?? []}
+        groups={mergeReview?.clusters ?? []}
+        onResolve={handleMergeResolve}
+      />
+
+      {/* Burst Stack Keeper Picker */}
+      <StackPickerDialog
+        isOpen={openStackId !== null}
+        frames={openStackFrames}
+        onClose={() => setOpenStackId(null)}
+        onKeep={handleStackKeep}
+        onUnstack={handleUnstack}
+      />
+
       {/* Group All Confirmation Dialog */}
       <AlertDialog open={showGroupAllConfirm} onOpenChange={setShowGroupAllConfirm}>
         <AlertDialogContent>
@@ -4,6 +4,8 @@ import { useState, useEffect, useCallback } from "react";
 import { X, ChevronLeft, ChevronRight, Check, AlertCircle } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useBatchStore, LocalImageItem } from "@/store/useBatchStore";
+import { RELEASE_TYPE_LABELS } from "@/lib/export";
+import type { ReleaseType } from "@/types";
 
 export interface ImageLightboxProps {
   image: LocalImageItem | null;
@@ -29,18 +31,28 @@ export function ImageLightbox({
   hasNext = false,
   onSaveComplete,
 }: ImageLightboxProps) {
-  const { updateImageTags } = useBatchStore();
+  const { updateImageTags, updateImageEditorial, updateImageReleases, groups, releases } =
+    useBatchStore();
+  const group = groups.find((g) => g.id === groupId);
+  const groupEditorial = group?.editorial ?? false;
+  const groupReleaseIds = group?.releaseIds ?? [];
 
   const [editedTitle, setEditedTitle] = useState("");
   const [editedTags, setEditedTags] = useState<string[]>([]);
   const [newTag, setNewTag] = useState("");
   const [hasChanges, setHasChanges] = useState(false);
+  const [editorial, setEditorial] = useState<boolean | undefined>(undefined);
+  const [releaseIds, setReleaseIds] = useState<string[]>([]);
+  const [releaseNeeded, setReleaseNeeded] = useState<ReleaseType | undefined>(undefined);
 
   // Sync local state with image prop
   useEffect(() => {
     if (image) {
       setEditedTitle(image.userTitle || image.aiTitle || "");
       setEditedTags(image.userTags || image.aiTags || []);
+      setEditorial(image.editorial);
+      setReleaseIds(image.releaseIds ?? []);
+      setReleaseNeeded(image.releaseNeeded);
       setHasChanges(false);
     }
   }, [image]);
@@ -68,6 +80,23 @@ export function ImageLightbox({
     setHasChanges(true);
   };
 
+  const handleUsageChange = (value: string) => {
+    setEditorial(value === "group" ? undefined : value === "editorial");
+    setHasChanges(true);
+  };
+
+  const handleReleaseToggle = (releaseId: string, checked: boolean) => {
+    setReleaseIds(
+      checked ? [...releaseIds, releaseId] : releaseIds.filter((id) => id !== releaseId)
+    );
+    setHasChanges(true);
+  };
+
+  const handleDismissRelease = () => {
+    setReleaseNeeded(undefined);
+    setHasChanges(true);
+  };
+
   const handleAddTag = () => {
     const tag = newTag.trim().toLowerCase();
     if (tag && !editedTags.includes(tag)) {
@@ -85,10 +114,29 @@ export function ImageLightbox({
   const handleSave = useCallback(() => {
     if (!image) return;
     updateImageTags(groupId, image.id, editedTags, editedTitle);
+    if (editorial !== image.editorial) {
+      updateImageEditorial(groupId, image.id, editorial);
+    }
+    updateImageReleases(groupId, image.id, {
+      releaseIds: releaseIds.length > 0 ? releaseIds : undefined,
+      releaseNeeded,
+    });
     setHasChanges(false);
     // Trigger immediate persistence after save
     onSaveComplete?.();
-  }, [image, groupId, editedTags, editedTitle, updateImageTags, onSaveComplete]);
+  }, [
+    image,
+    groupId,
+    editedTags,
+    editedTitle,
+    editorial,
+    releaseIds,
+    releaseNeeded,
+    updateImageTags,
+    updateImageEditorial,
+    updateImageReleases,
+    onSaveComplete,
+  ]);
 
   const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === "Enter") {
@@ -194,6 +242,80 @@ export function ImageLightbox({
             />
           </div>
 
+          {/* Usage */}
+          <div className="p-4" style={{ borderBottom: "1px solid #e5e7eb" }}>
+            <label className="block text-sm font-medium mb-1" style={{ color: "#374151" }}>
+              Usage
+            </label>
+            <select
+              value={editorial === undefined ? "group" : editorial ? "editorial" : "commercial"}
+              onChange={(e) => handleUsageChange(e.target.value)}
+              style={{
+                backgroundColor: "#ffffff",
+                color: "#000000",
+                border: "1px solid #e5e7eb",
+              }}
+              className="w-full px-3 py-2 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="group">
+                Same as group ({groupEditorial ? "Editorial" : "Commercial"})
+              </option>
+              <option value="commercial">Commercial</option>
+              <option value="editorial">Editorial</option>
+            </select>
+          </div>
+
+          {/* Releases */}
+          <div className="p-4" style={{ borderBottom: "1px solid #e5e7eb" }}>
+            <label className="block text-sm font-medium mb-1" style={{ color: "#374151" }}>
+              Releases
+            </label>
+            {releaseNeeded && (
+              <div className="mb-2 p-2 bg-amber-50 border border-amber-200 rounded-lg flex items-start gap-2">
+                <AlertCircle className="w-4 h-4 text-amber-500 flex-shrink-0 mt-0.5" />
+                <p className="flex-1 text-sm text-amber-700">
+                  {RELEASE_TYPE_LABELS[releaseNeeded]} probably needed for commercial use.
+                </p>
+                <button
+                  onClick={handleDismissRelease}
+                  className="text-xs text-amber-700 underline hover:text-amber-800"
+                >
+                  Not needed
+                </button>
+              </div>
+            )}
+            {releases.length === 0 ? (
+              <p className="text-sm italic" style={{ color: "#9ca3af" }}>
+                Upload releases in the group editor
+              </p>
+            ) : (
+              <div className="space-y-1">
+                {releases.map((release) => {
+                  const viaGroup = groupReleaseIds.includes(release.id);
+                  return (
+                    <label
+                      key={release.id}
+                      className="flex items-center gap-2 text-sm"
+                      style={{ color: "#374151" }}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={viaGroup || releaseIds.includes(release.id)}
+                        disabled={viaGroup}
+                        onChange={(e) => handleReleaseToggle(release.id, e.target.checked)}
+                        className="h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="truncate">{release.name}</span>
+                      <span className="text-xs whitespace-nowrap" style={{ color: "#9ca3af" }}>
+                        {viaGroup ? "via group" : RELEASE_TYPE_LABELS[release.type]}
+                      </span>
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
           {/* Tags Section */}
           <div className="flex-1 p-4 overflow-y-auto">
             <label className="block text-sm font-medium mb-2" style={{ color: "#374151" }}>
@@ -0,0 +1,112 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Merge } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogAction,
+  AlertDialogCancel,
+} from "@/components/ui";
+import type { MergeProposal } from "@/lib/utils/cluster-merge";
+import type { ImageClusterGroup } from "@/types";
+
+export interface MergeProposalsDialogProps {
+  isOpen: boolean;
+  proposals: MergeProposal[];
+  /** Cluster groups the proposals' groupIndices point into. */
+  groups: ImageClusterGroup[];
+  /** Called with the accepted proposals; an empty list keeps every group separate. */
+  onResolve: (accepted: MergeProposal[]) => void;
+}
+
+/**
+ * Review step after chunked clustering: each proposal merges groups from different
+ * chunks that look like the same subject. All proposals start accepted.
+ */
+export function MergeProposalsDialog({
+  isOpen,
+  proposals,
+  groups,
+  onResolve,
+}: MergeProposalsDialogProps) {
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (isOpen) setRejected(new Set());
+  }, [isOpen, proposals]);
+
+  const toggle = (id: string) => {
+    setRejected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const accepted = proposals.filter((p) => !rejected.has(p.id));
+
+  return (
+    <AlertDialog open={isOpen} onOpenChange={(open) => !open && onResolve([])}>
+      <AlertDialogContent className="max-w-lg">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <Merge className="h-5 w-5 text-blue-600" />
+            Merge similar groups?
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            Large batches are clustered in chunks, so one subject can end up in several groups.
+            Untick any merge you want to keep separate.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-2 max-h-80 overflow-y-auto py-2">
+          {proposals.map((proposal) => {
+            const titles = proposal.groupIndices.map(
+              (i) => groups[i]?.title || groups[i]?.suggestedLabel || "Untitled"
+            );
+            return (
+              <label
+                key={proposal.id}
+                className="flex items-start gap-3 p-3 rounded-lg border border-slate-200 cursor-pointer hover:bg-slate-50"
+              >
+                <input
+                  type="checkbox"
+                  checked={!rejected.has(proposal.id)}
+                  onChange={() => toggle(proposal.id)}
+                  className="mt-0.5 h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-slate-900">
+                    {proposal.groupIndices.length} groups → &ldquo;{proposal.title}&rdquo;{" "}
+                    <span className="font-normal text-slate-500">
+                      ({proposal.imageCount} images)
+                    </span>
+                  </p>
+                  <p className="text-xs text-slate-500 truncate" title={titles.join(", ")}>
+                    {proposal.reason === "same-title"
+                      ? "Same title"
+                      : `Similar tags (${Math.round(proposal.similarity * 100)}% overlap)`}
+                    : {titles.join(", ")}
+                  </p>
+                </div>
+              </label>
+            );
+          })}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={() => onResolve([])}>Keep all separate</AlertDialogCancel>
+          <AlertDialogAction onClick={() => onResolve(accepted)}>
+            Merge {accepted.length} of {proposals.length}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
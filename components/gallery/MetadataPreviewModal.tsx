@@ -11,6 +11,9 @@ import {
   Copy,
   Check,
   ChevronDown,
+  Info,
+  ShieldCheck,
+  Wand2,
 } from "lucide-react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
@@ -18,6 +21,14 @@ import { copyToClipboard, downloadString } from "@/lib/utils";
 import { useBatchStore, type LocalGroup } from "@/store/useBatchStore";
 import { generateStockCSV, CSV_PRESETS, formatPreviewCsv } from "@/lib/export";
 import type { CsvFormatPreset } from "@/lib/export";
+import {
+  applyComplianceFixes,
+  checkGroupCompliance,
+  hasBlockingViolation,
+  type ComplianceSeverity,
+} from "@/lib/compliance";
+import { resolveImageMetadata } from "@/lib/export/metadata-service";
+import { getMarketplaceProfile } from "@/lib/marketplaces";
 
 export interface MetadataPreviewModalProps {
   isOpen: boolean;
@@ -50,6 +61,12 @@ function getGroupMetadata(group: LocalGroup) {
   return { title, description, tags };
 }
 
+const SEVERITY_STYLES: Record<ComplianceSeverity, string> = {
+  error: "bg-red-50 border-red-200 text-red-800",
+  warning: "bg-amber-50 border-amber-200 text-amber-800",
+  info: "bg-slate-50 border-slate-200 text-slate-700",
+};
+
 // ─── Character Counter ───────────────────────────────────────
 
 function CharCounter({ current, max, label }: { current: number; max: number; label?: string }) {
@@ -84,12 +101,15 @@ function CharCounter({ current, max, label }: { current: number; max: number; la
 // ─── Main Component ──────────────────────────────────────────
 
 export function MetadataPreviewModal({ isOpen, onClose, groups }: MetadataPreviewModalProps) {
-  const { strategy, marketplace, exportSettings } = useBatchStore();
+  const { strategy, marketplace, exportSettings, releases, updateGroupMetadata, updateImageTags } =
+    useBatchStore();
   const [activeTab, setActiveTab] = useState<"inspector" | "raw">("inspector");
   const [activeGroupIndex, setActiveGroupIndex] = useState(0);
   const [copiedCsv, setCopiedCsv] = useState(false);
   const [keepExtraTags, setKeepExtraTags] = useState(false);
-  const [csvPreset, setCsvPreset] = useState<CsvFormatPreset>(CSV_PRESETS[0]!);
+  const [csvPreset, setCsvPreset] = useState<CsvFormatPreset>(
+    () => CSV_PRESETS.find((preset) => preset.id === marketplace) ?? CSV_PRESETS[0]!
+  );
   const [showPresetMenu, setShowPresetMenu] = useState(false);
 
   const limits: PlatformLimits = PLATFORM_LIMITS[strategy] ?? PLATFORM_LIMITS.standard!;
@@ -101,6 +121,21 @@ export function MetadataPreviewModal({ isOpen, onClose, groups }: MetadataPrevie
     [activeGroup]
   );
 
+  const compliance = useMemo(
+    () => (activeGroup ? checkGroupCompliance(activeGroup, marketplace) : []),
+    [activeGroup, marketplace]
+  );
+  const nonCompliantIds = useMemo(
+    () =>
+      new Set(
+        groups
+          .filter((g) => hasBlockingViolation(checkGroupCompliance(g, marketplace)))
+          .map((g) => g.id)
+      ),
+    [groups, marketplace]
+  );
+  const fixableCount = compliance.filter((v) => v.fix).length;
+
   // CSV preview driven by formatter engine
   const csvPreview = useMemo(
     () =>
@@ -117,7 +152,8 @@ export function MetadataPreviewModal({ isOpen, onClose, groups }: MetadataPrevie
   const descOk = metadata.description.length <= limits.descriptionMax;
   const tagsOk =
     metadata.tags.length > 0 && (keepExtraTags || metadata.tags.length <= limits.tagsMax);
-  const allOk = titleOk && descOk && tagsOk;
+  const complianceOk = !hasBlockingViolation(compliance);
+  const allOk = titleOk && descOk && tagsOk && complianceOk;
 
   const handleCopyCsv = async () => {
     const ok = await copyToClipboard(csvPreview.full);
@@ -127,8 +163,31 @@ export function MetadataPreviewModal({ isOpen, onClose, groups }: MetadataPrevie
     }
   };
 
+  const handleApplyFixes = () => {
+    if (!activeGroup) return;
+    const shared = applyComplianceFixes(
+      {
+        title: activeGroup.sharedTitle || "",
+        description: activeGroup.sharedDescription || "",
+        tags: activeGroup.sharedTags,
+      },
+      compliance
+    );
+    updateGroupMetadata(activeGroup.id, shared.title, shared.description, shared.tags);
+
+    // Per-image groups keep their own titles and keywords, so fix each one too
+    if (activeGroup.taggingMode === "per-image") {
+      for (const image of activeGroup.images) {
+        const { title, tags } = resolveImageMetadata(image, activeGroup);
+        const fixed = applyComplianceFixes({ title, description: "", tags }, compliance);
+        updateImageTags(activeGroup.id, image.id, fixed.tags, fixed.title);
+      }
+    }
+    toast.success(`Applied ${fixableCount} suggested fix${fixableCount === 1 ? "" : "es"}`);
+  };
+
   const handleDownloadSampleCsv = () => {
-    const csv = generateStockCSV(groups, marketplace, exportSettings.naming.projectName);
+    const csv = generateStockCSV(groups, marketplace, exportSettings.naming.projectName, releases);
     downloadString(csv, "visionbatch-sample.csv", "text/csv;charset=utf-8");
     toast.success(
       `Downloaded sample CSV with ${groups.reduce((s, g) => s + g.images.length, 0)} images`
@@ -219,6 +278,9 @@ export function MetadataPreviewModal({ isOpen, onClose, groups }: MetadataPrevie
                           : "bg-white border-slate-200 text-slate-600 hover:border-slate-300"
                       )}
                     >
+                      {nonCompliantIds.has(g.id) && (
+                        <span className="inline-block h-1.5 w-1.5 rounded-full bg-red-500 mr-1.5 align-middle" />
+                      )}
                       {g.sharedTitle || `Group ${g.groupNumber}`}
                     </button>
                   ))}
@@ -407,6 +469,64 @@ export function MetadataPreviewModal({ isOpen, onClose, groups }: MetadataPrevie
                   </p>
                 )}
               </div>
+
+              {/* Section 4: Compliance */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-semibold text-slate-700 uppercase tracking-wide">
+                    Compliance
+                  </h3>
+                  {fixableCount > 0 && (
+                    <button
+                      onClick={handleApplyFixes}
+                      className="inline-flex items-center gap-1.5 text-xs font-medium text-blue-600 hover:text-blue-700"
+                    >
+                      <Wand2 className="h-3.5 w-3.5" />
+                      Apply suggested fixes ({fixableCount})
+                    </button>
+                  )}
+                </div>
+
+                {compliance.length === 0 ? (
+                  <div className="flex items-center gap-2 px-4 py-3 rounded-lg border text-sm bg-emerald-50 border-emerald-200 text-emerald-700">
+                    <ShieldCheck className="h-4 w-4" />
+                    No issues with {getMarketplaceProfile(marketplace).name}&apos;s content rules
+                  </div>
+                ) : (
+                  <ul className="space-y-1.5">
+                    {compliance.map((v) => (
+                      <li
+                        key={`${v.rule}|${v.field}|${v.match}`}
+                        className={cn(
+                          "flex items-start gap-2 px-3 py-2 rounded-lg border text-xs",
+                          SEVERITY_STYLES[v.severity]
+                        )}
+                      >
+                        {v.severity === "info" ? (
+                          <Info className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                        ) : (
+                          <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                        )}
+                        <div>
+                          <p className="font-medium">
+                            <span className="uppercase text-[10px] tracking-wide opacity-70 mr-1.5">
+                              {v.field}
+                            </span>
+                            {v.message}
+                          </p>
+                          <p className="opacity-80">{v.suggestion}</p>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {!complianceOk && (
+                  <p className="text-xs text-red-600">
+                    Export stops on errors until they are fixed or you choose to export anyway.
+                  </p>
+                )}
+              </div>
             </div>
           ) : (
             /* Raw CSV Tab */
@@ -489,8 +609,7 @@ export function MetadataPreviewModal({ isOpen, onClose, groups }: MetadataPrevie
                   Separator: {csvPreset.separator === "," ? "Comma (,)" : "Semicolon (;)"}
                 </span>
                 <span className="px-2 py-0.5 rounded-md bg-slate-100 text-slate-500 text-xs font-medium border border-slate-200">
-                  Headers: {csvPreset.headers.title}, {csvPreset.headers.description},{" "}
-                  {csvPreset.headers.tags}
+                  Headers: {csvPreset.headers.join(", ")}
                 </span>
                 {keepExtraTags && (
                   <span className="px-2 py-0.5 rounded-md bg-amber-50 text-amber-600 text-xs font-medium border border-amber-200">
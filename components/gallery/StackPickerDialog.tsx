@@ -0,0 +1,108 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Layers } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogAction,
+  AlertDialogCancel,
+} from "@/components/ui";
+import type { LocalImageItem } from "@/store/useBatchStore";
+
+export interface StackPickerDialogProps {
+  isOpen: boolean;
+  /** Frames of one burst stack, in capture order. */
+  frames: LocalImageItem[];
+  onClose: () => void;
+  /** Keep the chosen frame; with `discardOthers` the rest of the stack is deleted. */
+  onKeep: (imageId: string, discardOthers: boolean) => void;
+  /** Break the stack up so every frame is shown and clustered on its own. */
+  onUnstack: () => void;
+}
+
+/**
+ * Pick the keeper of a burst stack. Only the keeper is shown in the upload grid and
+ * sent to clustering and tagging; the other frames stay hidden until discarded or unstacked.
+ */
+export function StackPickerDialog({
+  isOpen,
+  frames,
+  onClose,
+  onKeep,
+  onUnstack,
+}: StackPickerDialogProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) setSelectedId(frames.find((f) => f.isStackKeeper)?.id ?? frames[0]?.id ?? null);
+  }, [isOpen, frames]);
+
+  return (
+    <AlertDialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent className="max-w-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5 text-blue-600" />
+            Burst of {frames.length} frames
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            Agencies reject near-identical submissions. Pick the frame to keep — only it will be
+            organized, tagged and exported.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="grid grid-cols-3 sm:grid-cols-4 gap-3 max-h-96 overflow-y-auto py-2">
+          {frames.map((frame) => (
+            <button
+              key={frame.id}
+              type="button"
+              onClick={() => setSelectedId(frame.id)}
+              className={cn(
+                "relative aspect-square rounded-lg overflow-hidden border-2 transition-all",
+                selectedId === frame.id
+                  ? "border-blue-600 ring-2 ring-blue-200"
+                  : "border-slate-200 hover:border-blue-300"
+              )}
+              aria-pressed={selectedId === frame.id}
+              title={frame.originalFilename}
+            >
+              <img
+                src={frame.thumbnailDataUrl}
+                alt={frame.originalFilename}
+                className="w-full h-full object-cover"
+                draggable={false}
+              />
+              {selectedId === frame.id && (
+                <span className="absolute bottom-1 left-1 text-[10px] font-medium text-white bg-blue-600 px-1.5 py-0.5 rounded">
+                  Keeper
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onUnstack}>Keep all frames</AlertDialogCancel>
+          <AlertDialogAction
+            variant="outline"
+            onClick={() => selectedId && onKeep(selectedId, false)}
+          >
+            Set keeper
+          </AlertDialogAction>
+          <AlertDialogAction
+            variant="destructive"
+            onClick={() => selectedId && onKeep(selectedId, true)}
+          >
+            Keep & delete {Math.max(frames.length - 1, 0)} others
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Combine, Trash2, X } from "lucide-react";
+import { cn, DEFAULT_TAG_SYNONYMS, type TagSynonymMode } from "@/lib/utils";
+import { useBatchStore } from "@/store/useBatchStore";
+import { useClickOutsideOrEscape } from "@/hooks";
+
+const MODE_LABELS: Record<TagSynonymMode, string> = {
+  merge: "Merge",
+  "prefer-canonical": "Prefer term",
+  "keep-both": "Keep both",
+};
+
+const MODE_HINTS: Record<TagSynonymMode, string> = {
+  merge: "Keep whichever comes first",
+  "prefer-canonical": "Always write the term, whichever synonym appears",
+  "keep-both": "Never fold these together",
+};
+
+/**
+ * Editor for the synonym map tag processing folds keywords by. Each rule is a
+ * preferred term, its synonyms and what to do when several appear in one list.
+ */
+export function TagSynonymsPopover() {
+  const { tagSynonyms, setTagSynonyms } = useBatchStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [canonical, setCanonical] = useState("");
+  const [synonyms, setSynonyms] = useState("");
+  const popoverRef = useRef<HTMLDivElement>(null);
+
+  useClickOutsideOrEscape(popoverRef, () => setIsOpen(false), { enabled: isOpen });
+
+  const handleAdd = () => {
+    const term = canonical.trim().toLowerCase();
+    const members = synonyms
+      .split(",")
+      .map((s) => s.trim().toLowerCase())
+      .filter((s) => s && s !== term);
+    if (!term || members.length === 0) return;
+    setTagSynonyms([
+      ...tagSynonyms.filter((rule) => rule.canonical !== term),
+      { canonical: term, synonyms: Array.from(new Set(members)), mode: "merge" },
+    ]);
+    setCanonical("");
+    setSynonyms("");
+  };
+
+  const handleModeChange = (index: number, mode: TagSynonymMode) => {
+    setTagSynonyms(tagSynonyms.map((rule, i) => (i === index ? { ...rule, mode } : rule)));
+  };
+
+  return (
+    <div className="relative" ref={popoverRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={cn(
+          "inline-flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium",
+          "border border-slate-300 text-slate-600 hover:bg-slate-50 transition-colors shrink-0"
+        )}
+        title="Tag synonyms"
+      >
+        <Combine className="h-4 w-4" />
+        Synonyms
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-96 bg-white rounded-xl shadow-xl border border-slate-200 p-4 z-50 space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="font-semibold text-gray-900 text-sm">Tag Synonyms</h4>
+            {tagSynonyms.length > 0 && (
+              <button
+                type="button"
+                onClick={() => setTagSynonyms([])}
+                className="inline-flex items-center gap-1 text-xs text-red-600 hover:text-red-700 font-medium"
+              >
+                <Trash2 className="h-3 w-3" />
+                Clear All
+              </button>
+            )}
+          </div>
+
+          {tagSynonyms.length > 0 && (
+            <ul className="space-y-1.5 max-h-64 overflow-y-auto">
+              {tagSynonyms.map((rule, i) => (
+                <li key={rule.canonical} className="flex items-center gap-2 text-xs">
+                  <span className="flex-1 min-w-0 truncate text-gray-700">
+                    <span className="font-semibold">{rule.canonical}</span>
+                    <span className="text-gray-400"> = </span>
+                    {rule.synonyms.join(", ")}
+                  </span>
+                  <select
+                    value={rule.mode}
+                    onChange={(e) => handleModeChange(i, e.target.value as TagSynonymMode)}
+                    title={MODE_HINTS[rule.mode]}
+                    className="px-1.5 py-1 rounded-md border border-slate-200 bg-white text-gray-700"
+                  >
+                    {(Object.keys(MODE_LABELS) as TagSynonymMode[]).map((mode) => (
+                      <option key={mode} value={mode}>
+                        {MODE_LABELS[mode]}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => setTagSynonyms(tagSynonyms.filter((_, idx) => idx !== i))}
+                    className="p-0.5 rounded-full hover:bg-slate-200 transition-colors"
+                    aria-label={`Remove synonyms of ${rule.canonical}`}
+                  >
+                    <X className="h-3 w-3 text-gray-500" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={canonical}
+              onChange={(e) => setCanonical(e.target.value)}
+              placeholder="Term"
+              className={cn(
+                "w-24 px-3 py-1.5 text-sm rounded-lg border border-slate-200",
+                "bg-white text-gray-900",
+                "focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent",
+                "placeholder:text-gray-400"
+              )}
+            />
+            <input
+              type="text"
+              value={synonyms}
+              onChange={(e) => setSynonyms(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  handleAdd();
+                }
+              }}
+              placeholder="Synonyms, comma-separated"
+              className={cn(
+                "flex-1 px-3 py-1.5 text-sm rounded-lg border border-slate-200",
+                "bg-white text-gray-900",
+                "focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent",
+                "placeholder:text-gray-400"
+              )}
+            />
+          </div>
+          <p className="text-xs text-gray-500">
+            Plurals (dog/dogs) are folded automatically, and -ing/-ed forms when their stem is also
+            listed (run/running). Add synonyms here; &quot;Keep both&quot; stops two terms from ever
+            being folded.
+          </p>
+
+          <button
+            type="button"
+            onClick={() => setTagSynonyms(DEFAULT_TAG_SYNONYMS)}
+            className="text-xs text-slate-500 hover:text-blue-600 font-medium transition-colors"
+          >
+            Restore defaults
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
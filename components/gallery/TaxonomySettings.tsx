@@ -0,0 +1,275 @@
+"use client";
+
+import { useState, useRef, useEffect, useCallback } from "react";
+import { FolderTree, Save, Loader2, Trash2, Check } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { useBatchStore } from "@/store/useBatchStore";
+import type { Taxonomy, TaxonomyCategory } from "@/types";
+import { APPROVED_CATEGORIES } from "@/lib/vision/prompts/shared";
+
+const CATEGORY_LINE_EXAMPLE = `Dessert: cakes, pastries and sweets | cake, tart, macaron
+Main: plated savoury courses | steak, pasta, risotto
+Drinks | cocktail, coffee, wine
+Plating`;
+
+/**
+ * Parse one category per line: "Name: description | keyword, keyword".
+ * Description and keywords are optional.
+ */
+function parseCategoryLines(text: string): TaxonomyCategory[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [head = "", keywordPart] = line.split("|");
+      const colon = head.indexOf(":");
+      const name = (colon === -1 ? head : head.slice(0, colon)).trim();
+      const description = colon === -1 ? undefined : head.slice(colon + 1).trim() || undefined;
+      const keywords = keywordPart
+        ?.split(",")
+        .map((k) => k.trim())
+        .filter(Boolean);
+      return { name, description, keywords: keywords?.length ? keywords : undefined };
+    });
+}
+
+/**
+ * Popover for picking the category taxonomy the current batch is clustered into,
+ * and for saving new taxonomies. The selection is stored in namingSettings.taxonomyId
+ * and resolved server-side by the cluster route.
+ */
+export function TaxonomySettings() {
+  const { namingSettings, setNamingSettings } = useBatchStore();
+  const [open, setOpen] = useState(false);
+  const popoverRef = useRef<HTMLDivElement>(null);
+
+  const [taxonomies, setTaxonomies] = useState<Taxonomy[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [name, setName] = useState("");
+  const [categoryText, setCategoryText] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selectedId = namingSettings.taxonomyId;
+  const selected = taxonomies.find((t) => t.id === selectedId);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    if (open) {
+      document.addEventListener("mousedown", handleClickOutside);
+    }
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [open]);
+
+  const select = (taxonomyId: string | undefined) => {
+    setNamingSettings({ ...namingSettings, taxonomyId });
+  };
+
+  const loadTaxonomies = useCallback(async () => {
+    if (isLoaded || isLoading) return;
+    setIsLoading(true);
+    try {
+      const res = await fetch("/api/taxonomies");
+      const json = await res.json();
+      if (json.success && Array.isArray(json.data)) {
+        setTaxonomies(json.data);
+      }
+    } catch {
+      // Silently fail — taxonomies are optional (user may not be logged in)
+    } finally {
+      setIsLoading(false);
+      setIsLoaded(true);
+    }
+  }, [isLoaded, isLoading]);
+
+  useEffect(() => {
+    if (open) {
+      loadTaxonomies();
+    }
+  }, [open, loadTaxonomies]);
+
+  const handleSave = async () => {
+    const categories = parseCategoryLines(categoryText);
+    if (!name.trim() || categories.length === 0) {
+      toast.error("Enter a name and at least one category");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const res = await fetch("/api/taxonomies", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: name.trim(), categories }),
+      });
+      const json = await res.json();
+      if (json.success) {
+        setTaxonomies((prev) => [json.data, ...prev]);
+        select(json.data.id);
+        setName("");
+        setCategoryText("");
+        toast.success(`Taxonomy "${json.data.name}" saved`);
+      } else {
+        toast.error(json.error || "Failed to save taxonomy");
+      }
+    } catch {
+      toast.error("Failed to save taxonomy");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (taxonomyId: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      const res = await fetch(`/api/taxonomies?id=${taxonomyId}`, { method: "DELETE" });
+      const json = await res.json();
+      if (json.success) {
+        setTaxonomies((prev) => prev.filter((t) => t.id !== taxonomyId));
+        if (selectedId === taxonomyId) select(undefined);
+        toast.success("Taxonomy deleted");
+      }
+    } catch {
+      toast.error("Failed to delete taxonomy");
+    }
+  };
+
+  const optionClass = (active: boolean) =>
+    cn(
+      "w-full flex items-center justify-between p-2 rounded-lg border text-left transition-colors group",
+      active
+        ? "border-blue-300 bg-blue-50"
+        : "border-slate-200 hover:border-blue-300 hover:bg-blue-50"
+    );
+
+  return (
+    <div className="relative" ref={popoverRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className={cn(
+          "inline-flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium",
+          "border transition-colors",
+          selectedId
+            ? "border-blue-300 text-blue-700 bg-blue-50 hover:bg-blue-100"
+            : "border-slate-300 text-slate-600 hover:bg-slate-50"
+        )}
+        title="Clustering categories"
+      >
+        <FolderTree className="h-4 w-4" />
+        {selected?.name ?? "Categories"}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-96 bg-white rounded-xl shadow-xl border border-slate-200 p-4 z-50 space-y-4 max-h-[80vh] overflow-y-auto">
+          <div>
+            <h4 className="font-semibold text-gray-900 text-sm">Categories for this batch</h4>
+            <p className="text-xs text-gray-500 mt-0.5">
+              Groups are titled with these categories unless you describe a specific shoot.
+            </p>
+          </div>
+
+          <div className="space-y-1.5 max-h-48 overflow-y-auto">
+            <button onClick={() => select(undefined)} className={optionClass(!selectedId)}>
+              <div className="min-w-0">
+                <div className="text-xs font-medium text-gray-900">Default</div>
+                <div className="text-[10px] text-gray-500 truncate">
+                  {APPROVED_CATEGORIES.join(", ")}
+                </div>
+              </div>
+              {!selectedId && <Check className="h-3.5 w-3.5 text-blue-600 shrink-0" />}
+            </button>
+
+            {isLoading ? (
+              <div className="flex items-center justify-center py-3 text-sm text-gray-400">
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                Loading taxonomies...
+              </div>
+            ) : (
+              taxonomies.map((taxonomy) => (
+                <button
+                  key={taxonomy.id}
+                  onClick={() => select(taxonomy.id)}
+                  className={optionClass(taxonomy.id === selectedId)}
+                >
+                  <div className="min-w-0">
+                    <div className="text-xs font-medium text-gray-900 truncate">
+                      {taxonomy.name}
+                    </div>
+                    <div className="text-[10px] text-gray-500 truncate">
+                      {taxonomy.categories.map((c) => c.name).join(", ")}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    {taxonomy.id === selectedId && <Check className="h-3.5 w-3.5 text-blue-600" />}
+                    <button
+                      onClick={(e) => handleDelete(taxonomy.id, e)}
+                      className="opacity-0 group-hover:opacity-100 p-1 rounded hover:bg-red-100 transition-all"
+                      title="Delete taxonomy"
+                    >
+                      <Trash2 className="h-3 w-3 text-red-500" />
+                    </button>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+
+          {/* New taxonomy */}
+          <div className="border-t border-slate-200 pt-3 space-y-2">
+            <h4 className="font-semibold text-gray-900 text-sm">New taxonomy</h4>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name, e.g. Food menu"
+              maxLength={100}
+              className={cn(
+                "w-full px-3 py-1.5 text-sm rounded-lg border border-slate-200",
+                "bg-white text-gray-900",
+                "focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent",
+                "placeholder:text-gray-400"
+              )}
+            />
+            <textarea
+              value={categoryText}
+              onChange={(e) => setCategoryText(e.target.value)}
+              placeholder={CATEGORY_LINE_EXAMPLE}
+              rows={5}
+              className={cn(
+                "w-full px-3 py-2 text-xs font-mono rounded-lg border border-slate-200",
+                "bg-white text-gray-900",
+                "focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent",
+                "placeholder:text-gray-400"
+              )}
+            />
+            <p className="text-[11px] text-gray-500">
+              One category per line: <code>Name: description | keyword, keyword</code>. Description
+              and keywords are optional.
+            </p>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !name.trim() || !categoryText.trim()}
+              className={cn(
+                "inline-flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium",
+                "bg-blue-600 text-white hover:bg-blue-700 transition-colors",
+                "disabled:opacity-50 disabled:pointer-events-none"
+              )}
+            >
+              {isSaving ? (
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <Save className="h-3.5 w-3.5" />
+              )}
+              Save & use
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
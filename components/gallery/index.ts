@@ -3,4 +3,5 @@ export * from "./GroupList";
 export * from "./GroupSkeleton";
 export * from "./ImageLightbox";
 export * from "./BatchToolbar";
+export * from "./TagSynonymsPopover";
 export * from "./ClusteringProgress";
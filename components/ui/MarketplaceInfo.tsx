@@ -3,7 +3,11 @@
 import { useState, useRef, useEffect } from "react";
 import { HelpCircle } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { MARKETPLACE_CONFIGS } from "@/types/marketplace";
+import {
+  describeMarketplaceRequirements,
+  getMarketplaceProfile,
+  isMarketplaceId,
+} from "@/lib/marketplaces";
 
 export interface MarketplaceInfoProps {
   marketplace: string;
@@ -14,8 +18,9 @@ export function MarketplaceInfo({ marketplace, className }: MarketplaceInfoProps
   const [isOpen, setIsOpen] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
 
-  const config = MARKETPLACE_CONFIGS[marketplace];
+  const config = isMarketplaceId(marketplace) ? getMarketplaceProfile(marketplace) : null;
   if (!config) return null;
+  const requirements = describeMarketplaceRequirements(config);
 
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -54,9 +59,9 @@ export function MarketplaceInfo({ marketplace, className }: MarketplaceInfoProps
             "z-50 animate-in fade-in-0 zoom-in-95 duration-150"
           )}
         >
-          <h4 className="font-medium text-slate-900 mb-2 text-sm">{config.tooltipSummary}</h4>
+          <h4 className="font-medium text-slate-900 mb-2 text-sm">{config.name} Requirements</h4>
           <ul className="space-y-1.5">
-            {config.tooltipDetails.map((detail, i) => (
+            {requirements.map((detail, i) => (
               <li key={i} className="text-xs text-slate-600 flex items-start gap-2">
                 <span className="text-blue-500 mt-0.5">•</span>
                 <span>{detail}</span>
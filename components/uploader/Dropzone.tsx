@@ -3,11 +3,24 @@
 import { useCallback, useState } from "react";
 import { Upload, Loader2, AlertCircle } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { isValidImageType, resizeImageForApi } from "@/lib/image-processing";
+import {
+  ACCEPTED_EXTENSIONS,
+  ACCEPTED_MIME_TYPES,
+  isValidImageType,
+  resizeImageForApi,
+  computeContentHash,
+  computePerceptualHash,
+  findBurstStacks,
+  findDuplicates,
+  burstStackId,
+  readEmbeddedMetadata,
+  hasUsableKeywords,
+  type HashedImage,
+} from "@/lib/image-processing";
 import { preflightCheck } from "@/lib/image-processing/validation";
 import { useBatchStore, LocalImageItem } from "@/store/useBatchStore";
 import { sanitizeFilename } from "@/lib/utils/slugify";
-import { saveOriginalFile } from "@/lib/persistence/db";
+import { saveOriginalFile, getExportHistory } from "@/lib/persistence/db";
 
 export interface DropzoneProps {
   maxFiles?: number;
@@ -23,6 +36,8 @@ export function Dropzone({ maxFiles = 500, maxSizeMB = 25, disabled, className }
   const [isDragActive, setIsDragActive] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [skippedInfo, setSkippedInfo] = useState<{ added: number; skipped: number } | null>(null);
+  const [scanInfo, setScanInfo] = useState<{ duplicates: number; stacks: number } | null>(null);
+  const [keywordedCount, setKeywordedCount] = useState(0);
   const [processingState, setProcessingState] = useState<{
     isProcessing: boolean;
     processed: number;
@@ -32,9 +47,45 @@ export function Dropzone({ maxFiles = 500, maxSizeMB = 25, disabled, className }
   const {
     ensureUnclusteredGroup,
     addImageToGroup,
+    applyDuplicateScan,
     setProcessingState: setStoreProcessing,
   } = useBatchStore();
 
+  /**
+   * Flag duplicates among the new images (against the batch and past exports) and
+   * collapse burst sequences into stacks. Runs once per drop, after every file is hashed.
+   */
+  const scanForDuplicates = useCallback(
+    async (added: HashedImage[]) => {
+      const addedIds = new Set(added.map((img) => img.id));
+      const existing = useBatchStore
+        .getState()
+        .groups.flatMap((g) => g.images)
+        .filter((img) => !addedIds.has(img.id));
+
+      let exported: Awaited<ReturnType<typeof getExportHistory>> = [];
+      try {
+        exported = await getExportHistory();
+      } catch (err) {
+        console.warn("[IDB] Failed to read export history:", err);
+      }
+
+      const stacks = findBurstStacks(added);
+      const stackIdOf = new Map(stacks.flatMap((ids) => ids.map((id) => [id, burstStackId(ids)])));
+      const flags = findDuplicates(
+        added.map((img) => ({ ...img, stackId: stackIdOf.get(img.id) })),
+        existing,
+        exported
+      );
+
+      if (flags.size > 0 || stacks.length > 0) {
+        applyDuplicateScan(flags, stacks);
+        setScanInfo({ duplicates: flags.size, stacks: stacks.length });
+      }
+    },
+    [applyDuplicateScan]
+  );
+
   const validateFiles = useCallback(
     (files: File[]): { valid: File[]; errors: string[] } => {
       const valid: File[] = [];
@@ -43,7 +94,9 @@ export function Dropzone({ maxFiles = 500, maxSizeMB = 25, disabled, className }
 
       for (const file of files) {
         if (!isValidImageType(file)) {
-          errors.push(`${file.name}: Invalid file type. Only JPG, PNG, and WebP are allowed.`);
+          errors.push(
+            `${file.name}: Invalid file type. Only JPG, PNG, WebP, HEIC, TIFF and AVIF are allowed.`
+          );
           continue;
         }
         if (file.size > maxSizeBytes) {
@@ -69,6 +122,8 @@ export function Dropzone({ maxFiles = 500, maxSizeMB = 25, disabled, className }
       ensureUnclusteredGroup();
 
       let processed = 0;
+      const added: HashedImage[] = [];
+      let keyworded = 0;
 
       // Concurrency-limited worker pool: at most UPLOAD_CONCURRENCY resize ops run at once.
       // Workers share a mutable index. JS is single-threaded so index++ is race-free across
@@ -84,6 +139,17 @@ export function Dropzone({ maxFiles = 500, maxSizeMB = 25, disabled, className }
             const fileSize = file.size;
             const mimeType = file.type;
             const thumbnailDataUrl = await resizeImageForApi(file, 512);
+            // Hashes feed the duplicate scan and embedded metadata seeds tagging;
+            // failures just leave the image unchecked.
+            const [contentHash, perceptualHash, embeddedMetadata] = await Promise.all([
+              computeContentHash(file).catch(() => undefined),
+              computePerceptualHash(thumbnailDataUrl).catch(() => undefined),
+              readEmbeddedMetadata(file).catch(() => null),
+            ]);
+            const embeddedCapture = embeddedMetadata?.capturedAt
+              ? Date.parse(embeddedMetadata.capturedAt)
+              : NaN;
+            const capturedAt = Number.isNaN(embeddedCapture) ? file.lastModified : embeddedCapture;
             // Persist the original File to IndexedDB BEFORE releasing the reference.
             // IDB stores File objects natively via structured-clone (no ArrayBuffer needed).
             // Failures are non-fatal: the session still works with thumbnail-only data.
@@ -101,9 +167,15 @@ export function Dropzone({ maxFiles = 500, maxSizeMB = 25, disabled, className }
               sanitizedSlug: sanitizeFilename(file.name),
               thumbnailDataUrl,
               status: "pending",
+              contentHash,
+              perceptualHash,
+              capturedAt,
+              embeddedMetadata: embeddedMetadata ?? undefined,
             };
 
             addImageToGroup("unclustered", image);
+            added.push(image);
+            if (hasUsableKeywords(image.embeddedMetadata)) keyworded++;
           } catch (err) {
             console.error(`Failed to process ${file.name}:`, err);
           } finally {
@@ -113,17 +185,21 @@ export function Dropzone({ maxFiles = 500, maxSizeMB = 25, disabled, className }
         }
       };
       await Promise.all(Array.from({ length: Math.min(UPLOAD_CONCURRENCY, files.length) }, worker));
+      await scanForDuplicates(added);
+      setKeywordedCount(keyworded);
 
       setProcessingState({ isProcessing: false, processed: 0, total: 0 });
       setStoreProcessing({ isUploading: false });
     },
-    [ensureUnclusteredGroup, addImageToGroup, setStoreProcessing]
+    [ensureUnclusteredGroup, addImageToGroup, scanForDuplicates, setStoreProcessing]
   );
 
   const handleFilesAccepted = useCallback(
     async (files: File[]) => {
       // Clear previous summary on each new drop
       setSkippedInfo(null);
+      setScanInfo(null);
+      setKeywordedCount(0);
 
       // 1. Size + MIME check (sync, fast)
       const { valid: sizeValid, errors } = validateFiles(files);
@@ -226,7 +302,7 @@ export function Dropzone({ maxFiles = 500, maxSizeMB = 25, disabled, className }
           id="dropzone-file-input"
           type="file"
           multiple
-          accept="image/jpeg,image/png,image/webp"
+          accept={[...ACCEPTED_MIME_TYPES, ...ACCEPTED_EXTENSIONS].join(",")}
           onChange={handleFileInput}
           disabled={isDisabled}
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
@@ -241,7 +317,9 @@ export function Dropzone({ maxFiles = 500, maxSizeMB = 25, disabled, className }
             <p className="text-lg font-medium text-slate-700" aria-live="polite">
               Processing {processingState.processed}/{processingState.total} images...
             </p>
-            <p className="text-sm mt-1 text-slate-500">Resizing to 512px WebP thumbnails</p>
+            <p className="text-sm mt-1 text-slate-500">
+              Decoding and resizing to 512px WebP thumbnails
+            </p>
           </div>
         ) : error ? (
           <div className="text-slate-600">
@@ -250,7 +328,7 @@ export function Dropzone({ maxFiles = 500, maxSizeMB = 25, disabled, className }
               <span className="font-medium text-blue-600">Click to upload</span> or drag and drop
             </p>
             <p className="text-sm mt-1 text-slate-500">
-              JPG, PNG, or WebP (max {maxSizeMB}MB each)
+              JPG, PNG, WebP, HEIC, TIFF or AVIF (max {maxSizeMB}MB each)
             </p>
             <p className="text-sm mt-1 text-slate-500">Maximum {maxFiles} images per batch</p>
           </div>
@@ -261,7 +339,7 @@ export function Dropzone({ maxFiles = 500, maxSizeMB = 25, disabled, className }
               <span className="font-medium text-blue-600">Click to upload</span> or drag and drop
             </p>
             <p className="text-sm mt-1 text-slate-500">
-              JPG, PNG, or WebP (max {maxSizeMB}MB each)
+              JPG, PNG, WebP, HEIC, TIFF or AVIF (max {maxSizeMB}MB each)
             </p>
             <p className="text-sm mt-1 text-slate-500">Maximum {maxFiles} images per batch</p>
           </div>
@@ -277,7 +355,24 @@ export function Dropzone({ maxFiles = 500, maxSizeMB = 25, disabled, className }
       {skippedInfo && skippedInfo.skipped > 0 && (
         <p className="mt-2 text-sm text-amber-600" role="status">
           {skippedInfo.added} image{skippedInfo.added !== 1 ? "s" : ""} added, {skippedInfo.skipped}{" "}
-          skipped (unsupported format)
+          skipped (unreadable or corrupted)
+        </p>
+      )}
+
+      {keywordedCount > 0 && (
+        <p className="mt-2 text-sm text-slate-600" role="status">
+          {keywordedCount} image{keywordedCount !== 1 ? "s are" : " is"} already keyworded —
+          existing titles and keywords will be reused
+        </p>
+      )}
+
+      {scanInfo && (
+        <p className="mt-2 text-sm text-amber-600" role="status">
+          {scanInfo.duplicates > 0 &&
+            `${scanInfo.duplicates} duplicate${scanInfo.duplicates !== 1 ? "s" : ""} flagged`}
+          {scanInfo.duplicates > 0 && scanInfo.stacks > 0 && ", "}
+          {scanInfo.stacks > 0 &&
+            `${scanInfo.stacks} burst sequence${scanInfo.stacks !== 1 ? "s" : ""} stacked — pick a keeper for each`}
         </p>
       )}
     </div>
@@ -14,6 +14,14 @@ export interface TagChunk {
   payload: Omit<VisionTagsRequest, "chunkIndex" | "totalChunks">;
 }
 
+/** Outcome of a runChunks call: one chunk failing does not discard the others. */
+export interface ChunkRunResult {
+  /** Responses of the chunks that succeeded, in chunk order */
+  responses: VisionTagsResponse[];
+  /** Chunks that still failed after retries; none of their images were tagged */
+  failed: { chunk: TagChunk; error: Error }[];
+}
+
 interface UseVisionWorkerOptions {
   /** Max simultaneous in-flight requests. Default: 3. */
   concurrency?: number;
@@ -94,11 +102,12 @@ async function dispatchChunk(chunk: TagChunk, maxRetries: number): Promise<Visio
  * Usage:
  * ```ts
  * const { runChunks } = useVisionWorker();
- * const results = await runChunks(chunks);
+ * const { responses, failed } = await runChunks(chunks);
  * ```
  *
  * - Dispatches up to `concurrency` (default 3) chunks simultaneously.
  * - Retries transient 500/503/504 errors with exponential backoff (2s/4s/8s).
+ * - Settles each chunk on its own: a failed chunk is reported, the rest still return.
  * - Writes progress to `useBatchStore.taggingProgress` after each chunk completes.
  * - Clears `taggingProgress` when all chunks are done (or on abort).
  * - Aborts remaining work when the component unmounts (via AbortController).
@@ -108,7 +117,7 @@ export function useVisionWorker(options: UseVisionWorkerOptions = {}) {
   const abortRef = useRef<AbortController | null>(null);
 
   const runChunks = useCallback(
-    async (chunks: TagChunk[]): Promise<VisionTagsResponse[]> => {
+    async (chunks: TagChunk[]): Promise<ChunkRunResult> => {
       // Cancel any previous in-flight run
       abortRef.current?.abort();
       const controller = new AbortController();
@@ -123,7 +132,8 @@ export function useVisionWorker(options: UseVisionWorkerOptions = {}) {
       // Shared mutable cursor — safe because JS is single-threaded.
       // Each worker increments this to claim the next chunk atomically.
       let nextIndex = 0;
-      const results: VisionTagsResponse[] = new Array(total);
+      const results: (VisionTagsResponse | undefined)[] = new Array(total);
+      const failed: ChunkRunResult["failed"] = [];
 
       async function worker(): Promise<void> {
         while (true) {
@@ -137,8 +147,11 @@ export function useVisionWorker(options: UseVisionWorkerOptions = {}) {
           try {
             results[myIndex] = await dispatchChunk(chunk, maxRetries);
           } catch (err) {
-            // Propagate the error to the outer Promise.all so the caller sees it
-            throw err;
+            // Other chunks were already billed; record this one and keep going
+            failed.push({
+              chunk,
+              error: err instanceof Error ? err : new Error(String(err)),
+            });
           }
 
           if (!controller.signal.aborted) {
@@ -156,7 +169,10 @@ export function useVisionWorker(options: UseVisionWorkerOptions = {}) {
         useBatchStore.getState().setTaggingProgress(null);
       }
 
-      return results;
+      return {
+        responses: results.filter((r): r is VisionTagsResponse => r !== undefined),
+        failed: failed.sort((a, b) => a.chunk.chunkIndex - b.chunk.chunkIndex),
+      };
     },
     [concurrency, maxRetries]
   );
@@ -0,0 +1,125 @@
+import { getMarketplaceProfile } from "@/lib/marketplaces";
+import { isEditorialImage } from "@/lib/export/editorial";
+import { resolveImageMetadata } from "@/lib/export/metadata-service";
+import type { LocalGroup, MarketplaceType } from "@/store/useBatchStore";
+import { COMPLIANCE_RULES } from "./rules";
+import type { ComplianceListing, ComplianceSeverity, ComplianceViolation } from "./types";
+
+export type * from "./types";
+export { COMPLIANCE_RULES } from "./rules";
+
+/**
+ * Compliance checks. Each marketplace profile lists the rules it enforces; the rules
+ * run over the listing text and report violations with a severity and suggested fix.
+ * Error-level violations block export until fixed or explicitly accepted.
+ */
+
+const SEVERITY_ORDER: Record<ComplianceSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+/**
+ * Violations of the marketplace's rule set in one listing, most severe first
+ */
+export function checkCompliance(
+  listing: ComplianceListing,
+  marketplace: MarketplaceType,
+  options: { editorial?: boolean } = {}
+): ComplianceViolation[] {
+  const profile = getMarketplaceProfile(marketplace);
+  const context = { marketplace: profile.id, editorial: options.editorial ?? false };
+  return profile.complianceRules
+    .flatMap((rule) => COMPLIANCE_RULES[rule](listing, context))
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+/**
+ * Violations across a group: its shared listing plus every image's own title and
+ * keywords, each checked as editorial or commercial. Repeats are reported once.
+ */
+export function checkGroupCompliance(
+  group: LocalGroup,
+  marketplace: MarketplaceType
+): ComplianceViolation[] {
+  const description = group.sharedDescription || "";
+  const checks = group.images.map((image) => {
+    const { title, tags } = resolveImageMetadata(image, group);
+    return checkCompliance({ title, description, tags }, marketplace, {
+      editorial: isEditorialImage(image, group),
+    });
+  });
+
+  const seen = new Set<string>();
+  return checks
+    .flat()
+    .filter((v) => {
+      const key = `${v.rule}|${v.field}|${v.match.toLowerCase()}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+export function hasBlockingViolation(violations: ComplianceViolation[]): boolean {
+  return violations.some((v) => v.severity === "error");
+}
+
+/**
+ * Groups with error-level violations on any of the marketplaces, as
+ * `"Group name" on Etsy: "replica" presents the item as…` entries for messages
+ */
+export function findNonCompliantGroups(
+  groups: LocalGroup[],
+  marketplaces: MarketplaceType[]
+): string[] {
+  const entries: string[] = [];
+  for (const group of groups) {
+    for (const marketplace of marketplaces) {
+      const errors = checkGroupCompliance(group, marketplace).filter((v) => v.severity === "error");
+      if (errors.length === 0) continue;
+      const name = group.sharedTitle || `Group ${group.groupNumber}`;
+      const more = errors.length > 1 ? ` (+${errors.length - 1} more)` : "";
+      entries.push(
+        `"${name}" on ${getMarketplaceProfile(marketplace).name}: ${errors[0]!.message}${more}`
+      );
+    }
+  }
+  return entries;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Replace whole-word occurrences and tidy the spacing and punctuation left behind */
+function replaceTerm(text: string, find: string, replace: string): string {
+  const before = /^\w/.test(find) ? "(?<![\\w])" : "";
+  const after = /\w$/.test(find) ? "(?![\\w])" : "";
+  return text
+    .replace(new RegExp(`${before}${escapeRegExp(find)}${after}`, "gi"), replace)
+    .replace(/\s+([,.;:!?])/g, "$1")
+    .replace(/([,;:])(?:\s*[,;:])+/g, "$1")
+    .replace(/\s{2,}/g, " ")
+    .replace(/^[\s,;:-]+|[\s,;:-]+$/g, "");
+}
+
+/**
+ * The listing with every violation's suggested fix applied. Violations without a
+ * machine-applicable fix (capitals, stuffing) are left for the user.
+ */
+export function applyComplianceFixes(
+  listing: ComplianceListing,
+  violations: ComplianceViolation[]
+): ComplianceListing {
+  let { title, description, tags } = listing;
+  for (const { fix } of violations) {
+    if (!fix) continue;
+    if (fix.kind === "remove-tag") {
+      tags = tags.filter((tag) => tag.toLowerCase() !== fix.tag.toLowerCase());
+    } else if (fix.field === "title") {
+      title = replaceTerm(title, fix.find, fix.replace);
+    } else {
+      description = replaceTerm(description, fix.find, fix.replace);
+    }
+  }
+  return { title, description, tags };
+}
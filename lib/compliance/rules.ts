@@ -0,0 +1,350 @@
+import { getMarketplaceProfile } from "@/lib/marketplaces";
+import { TRADEMARK_TERMS } from "@/lib/export/trademarks";
+import {
+  CELEBRITY_NAMES,
+  ETSY_PROHIBITED_TERMS,
+  FILE_WORDS,
+  GENERIC_TERMS,
+  META_PHRASES,
+  PROMOTIONAL_PHRASES,
+} from "./terms";
+import type {
+  ComplianceFix,
+  ComplianceListing,
+  ComplianceRule,
+  ComplianceRuleId,
+  ComplianceViolation,
+} from "./types";
+
+/**
+ * One function per rule id. Each reports every violation it finds in the listing;
+ * severity and fixes are decided here, the marketplace profile only picks the rules.
+ */
+
+type TextField = "title" | "description";
+const TEXT_FIELDS: TextField[] = ["title", "description"];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Whole-word, like TRADEMARK_PATTERN in lib/export/trademarks
+function termPattern(terms: readonly string[]): RegExp {
+  return new RegExp(`(?:^|[^a-z0-9])(${terms.map(escapeRegExp).join("|")})(?=$|[^a-z0-9])`, "gi");
+}
+
+/** Distinct lowercase terms from the pattern found in the text */
+function findTerms(text: string, pattern: RegExp): string[] {
+  const found = new Set<string>();
+  for (const match of text.matchAll(pattern)) {
+    if (match[1]) found.add(match[1].toLowerCase());
+  }
+  return Array.from(found);
+}
+
+const TRADEMARKS = termPattern(TRADEMARK_TERMS);
+const CELEBRITIES = termPattern(CELEBRITY_NAMES);
+const PROHIBITED = termPattern(Object.keys(ETSY_PROHIBITED_TERMS));
+const META = termPattern(META_PHRASES);
+const PROMOTIONAL = termPattern(PROMOTIONAL_PHRASES);
+const FILE_WORD_SET = new Set(FILE_WORDS);
+const LINK_PATTERN = /(?:https?:\/\/|www\.)\S+|[\w.+-]+@[\w-]+\.[\w.]+/gi;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/gu;
+const SHOUTED_WORD = /\b[A-Z]{3,}\b/g;
+
+const STOPWORDS = new Set([
+  "the",
+  "and",
+  "for",
+  "with",
+  "from",
+  "into",
+  "over",
+  "under",
+  "this",
+  "that",
+  "are",
+  "was",
+  "its",
+  "their",
+  "your",
+  "our",
+]);
+
+type ScanTarget = { field: TextField } | { field: "tags"; tag: string };
+
+/** Runs a term pattern over the title, description and each tag */
+function scanTerms(
+  listing: ComplianceListing,
+  pattern: RegExp,
+  report: (term: string, target: ScanTarget) => ComplianceViolation
+): ComplianceViolation[] {
+  const violations: ComplianceViolation[] = [];
+  for (const field of TEXT_FIELDS) {
+    for (const term of findTerms(listing[field], pattern)) {
+      violations.push(report(term, { field }));
+    }
+  }
+  for (const tag of listing.tags) {
+    const term = findTerms(tag, pattern)[0];
+    if (term) violations.push(report(term, { field: "tags", tag }));
+  }
+  return violations;
+}
+
+/** Drop the keyword, or replace the term in the text it was found in */
+function fixFor(target: ScanTarget, term: string, replace = ""): ComplianceFix {
+  return target.field === "tags"
+    ? { kind: "remove-tag", tag: target.tag }
+    : { kind: "replace-text", field: target.field, find: term, replace };
+}
+
+const trademarks: ComplianceRule = (listing, { editorial }) => {
+  if (editorial) return [];
+  return scanTerms(listing, TRADEMARKS, (term, target) => {
+    const generic = GENERIC_TERMS[term];
+    // Commercial exports already drop trademarked keywords, so a tag only warns
+    return target.field === "tags"
+      ? {
+          rule: "trademarks",
+          field: "tags",
+          severity: "warning",
+          match: target.tag,
+          message: `Keyword "${target.tag}" names the brand "${term}"`,
+          suggestion: generic
+            ? `Use "${generic}" instead. Commercial exports drop this keyword automatically.`
+            : "Remove it. Commercial exports drop this keyword automatically.",
+          fix: fixFor(target, term),
+        }
+      : {
+          rule: "trademarks",
+          field: target.field,
+          severity: "error",
+          match: term,
+          message: `The ${target.field} names the brand "${term}"; commercial licences exclude trademarks`,
+          suggestion: generic
+            ? `Write "${generic}" instead, or mark the files editorial.`
+            : "Remove the brand name, or mark the files editorial.",
+          fix: fixFor(target, term, generic),
+        };
+  });
+};
+
+const celebrities: ComplianceRule = (listing, { editorial }) => {
+  if (editorial) return [];
+  return scanTerms(listing, CELEBRITIES, (term, target) => ({
+    rule: "celebrities",
+    field: target.field,
+    severity: "error",
+    match: target.field === "tags" ? target.tag : term,
+    message: `Names "${term}"; using a famous person's name commercially needs their consent`,
+    suggestion: "Remove the name, or mark the files editorial.",
+    fix: fixFor(target, term),
+  }));
+};
+
+const prohibitedTerms: ComplianceRule = (listing) =>
+  scanTerms(listing, PROHIBITED, (term, target) => {
+    const medical = ETSY_PROHIBITED_TERMS[term] === "medical";
+    return {
+      rule: "prohibited-terms",
+      field: target.field,
+      severity: "error",
+      match: target.field === "tags" ? target.tag : term,
+      message: medical
+        ? `"${term}" is a health claim; Etsy removes listings that make them`
+        : `"${term}" presents the item as an imitation of someone else's product`,
+      suggestion: medical
+        ? "Remove the claim and describe what the item is."
+        : "Describe the item on its own terms, without referring to other brands.",
+      fix: fixFor(target, term),
+    };
+  });
+
+const metaKeywords: ComplianceRule = (listing) => {
+  const violations = scanTerms(listing, META, (term, target) => ({
+    rule: "meta-keywords",
+    field: target.field,
+    severity: "warning",
+    match: target.field === "tags" ? target.tag : term,
+    message: `"${term}" describes the file, not the subject`,
+    suggestion: "Remove it; buyers search for what the image shows.",
+    fix: fixFor(target, term),
+  }));
+  for (const tag of listing.tags) {
+    if (FILE_WORD_SET.has(tag.trim().toLowerCase())) {
+      violations.push({
+        rule: "meta-keywords",
+        field: "tags",
+        severity: "warning",
+        match: tag,
+        message: `Keyword "${tag}" names the file format, not the subject`,
+        suggestion: "Remove it; it matches every file on the site.",
+        fix: { kind: "remove-tag", tag },
+      });
+    }
+  }
+  return violations;
+};
+
+const spam: ComplianceRule = (listing) => {
+  const violations: ComplianceViolation[] = [];
+
+  for (const field of TEXT_FIELDS) {
+    const text = listing[field];
+    for (const link of new Set(text.match(LINK_PATTERN) ?? [])) {
+      violations.push({
+        rule: "spam",
+        field,
+        severity: "error",
+        match: link,
+        message: `The ${field} contains a link or contact address`,
+        suggestion: "Remove it; marketplaces reject off-site links and contact details.",
+        fix: { kind: "replace-text", field, find: link, replace: "" },
+      });
+    }
+    for (const phrase of findTerms(text, PROMOTIONAL)) {
+      violations.push({
+        rule: "spam",
+        field,
+        severity: "warning",
+        match: phrase,
+        message: `"${phrase}" is sales wording`,
+        suggestion: "Describe the subject instead; promotional phrases read as spam.",
+        fix: { kind: "replace-text", field, find: phrase, replace: "" },
+      });
+    }
+    for (const emoji of new Set(text.match(EMOJI_PATTERN) ?? [])) {
+      violations.push({
+        rule: "spam",
+        field,
+        severity: "warning",
+        match: emoji,
+        message: `The ${field} contains emoji`,
+        suggestion: "Remove it; search ignores emoji and reviewers treat them as spam.",
+        fix: { kind: "replace-text", field, find: emoji, replace: "" },
+      });
+    }
+  }
+
+  const shouted = listing.title.match(SHOUTED_WORD) ?? [];
+  if (shouted.length >= 2) {
+    violations.push({
+      rule: "spam",
+      field: "title",
+      severity: "warning",
+      match: shouted.join(" "),
+      message: "The title is written in capitals",
+      suggestion: "Write it in sentence case.",
+    });
+  }
+  const punctuation = listing.title.match(/[!?]{2,}/)?.[0];
+  if (punctuation) {
+    violations.push({
+      rule: "spam",
+      field: "title",
+      severity: "warning",
+      match: punctuation,
+      message: "The title has repeated punctuation",
+      suggestion: "End it plainly, without exclamation marks.",
+    });
+  }
+
+  for (const tag of listing.tags) {
+    if (tag.match(LINK_PATTERN) || findTerms(tag, PROMOTIONAL).length > 0) {
+      violations.push({
+        rule: "spam",
+        field: "tags",
+        severity: "warning",
+        match: tag,
+        message: `Keyword "${tag}" is promotional, not descriptive`,
+        suggestion: "Remove it.",
+        fix: { kind: "remove-tag", tag },
+      });
+    }
+  }
+
+  return violations;
+};
+
+/** Content words of a text, lowercased, for repetition counts */
+function contentWords(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9']+/g) ?? []).filter(
+    (word) => word.length >= 3 && !STOPWORDS.has(word)
+  );
+}
+
+function countWords(words: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const word of words) counts.set(word, (counts.get(word) ?? 0) + 1);
+  return counts;
+}
+
+const keywordStuffing: ComplianceRule = (listing, { marketplace }) => {
+  const violations: ComplianceViolation[] = [];
+
+  for (const [word, count] of countWords(contentWords(listing.title))) {
+    if (count >= 3) {
+      violations.push({
+        rule: "keyword-stuffing",
+        field: "title",
+        severity: "warning",
+        match: word,
+        message: `"${word}" appears ${count} times in the title`,
+        suggestion: "Use it once; repeating a keyword doesn't rank the listing higher.",
+      });
+    }
+  }
+  if (listing.title.split(",").length >= 5) {
+    violations.push({
+      rule: "keyword-stuffing",
+      field: "title",
+      severity: "warning",
+      match: listing.title,
+      message: "The title reads as a keyword list",
+      suggestion: "Write a descriptive phrase; keywords belong in the tags.",
+    });
+  }
+
+  const descriptionWords = contentWords(listing.description);
+  for (const [word, count] of countWords(descriptionWords)) {
+    if (count >= 5 && count / descriptionWords.length > 0.08) {
+      violations.push({
+        rule: "keyword-stuffing",
+        field: "description",
+        severity: "warning",
+        match: word,
+        message: `"${word}" makes up ${Math.round((count / descriptionWords.length) * 100)}% of the description`,
+        suggestion: "Vary the wording; reviewers reject descriptions padded with keywords.",
+      });
+    }
+  }
+
+  // Shop tags are long-tail phrases that legitimately share a word; agencies want variety
+  const shop = getMarketplaceProfile(marketplace).promptStrategy === "etsy";
+  const tagWords = listing.tags.flatMap((tag) => Array.from(new Set(contentWords(tag))));
+  const limit = Math.max(3, Math.ceil(listing.tags.length * 0.3));
+  for (const [word, count] of countWords(tagWords)) {
+    if (count > limit) {
+      violations.push({
+        rule: "keyword-stuffing",
+        field: "tags",
+        severity: shop ? "info" : "warning",
+        match: word,
+        message: `"${word}" appears in ${count} of ${listing.tags.length} keywords`,
+        suggestion: "Replace some of those keywords with other aspects of the subject.",
+      });
+    }
+  }
+
+  return violations;
+};
+
+export const COMPLIANCE_RULES: Record<ComplianceRuleId, ComplianceRule> = {
+  trademarks,
+  celebrities,
+  "prohibited-terms": prohibitedTerms,
+  "meta-keywords": metaKeywords,
+  spam,
+  "keyword-stuffing": keywordStuffing,
+};
@@ -0,0 +1,155 @@
+/**
+ * Term lists the compliance rules match against, whole-word and case-insensitively.
+ * Brand names come from the export module's TRADEMARK_TERMS so stripping on export
+ * and flagging here never disagree.
+ */
+
+/** Generic wording to suggest in place of a brand ("iphone" → "smartphone") */
+export const GENERIC_TERMS: Readonly<Record<string, string>> = {
+  iphone: "smartphone",
+  ipad: "tablet",
+  imac: "desktop computer",
+  macbook: "laptop",
+  airpods: "wireless earbuds",
+  "apple watch": "smartwatch",
+  xbox: "game console",
+  playstation: "game console",
+  nintendo: "game console",
+  gopro: "action camera",
+  "coca-cola": "soda",
+  "coca cola": "soda",
+  pepsi: "soda",
+  starbucks: "coffee",
+  "red bull": "energy drink",
+  heineken: "beer",
+  nutella: "chocolate spread",
+  oreo: "cookie",
+  rolex: "wristwatch",
+  "levi's": "jeans",
+  lego: "building blocks",
+  barbie: "doll",
+  vespa: "scooter",
+  "harley-davidson": "motorcycle",
+  "harley davidson": "motorcycle",
+  jacuzzi: "hot tub",
+  frisbee: "flying disc",
+  kleenex: "tissue",
+  "post-it": "sticky note",
+  "band-aid": "adhesive bandage",
+  velcro: "hook and loop fastener",
+  "jet ski": "personal watercraft",
+  styrofoam: "polystyrene foam",
+  photoshop: "photo editing",
+};
+
+/** Famous people whose names need their consent (or an editorial licence) to use */
+export const CELEBRITY_NAMES: readonly string[] = [
+  "albert einstein",
+  "marilyn monroe",
+  "elvis presley",
+  "michael jackson",
+  "princess diana",
+  "queen elizabeth",
+  "king charles",
+  "frida kahlo",
+  "bob marley",
+  "audrey hepburn",
+  "the beatles",
+  "taylor swift",
+  "beyonce",
+  "rihanna",
+  "lady gaga",
+  "ariana grande",
+  "billie eilish",
+  "harry styles",
+  "kanye west",
+  "snoop dogg",
+  "kim kardashian",
+  "oprah winfrey",
+  "brad pitt",
+  "leonardo dicaprio",
+  "tom cruise",
+  "keanu reeves",
+  "elon musk",
+  "barack obama",
+  "donald trump",
+  "joe biden",
+  "lionel messi",
+  "cristiano ronaldo",
+  "michael jordan",
+  "lebron james",
+  "serena williams",
+];
+
+/**
+ * Wording Etsy removes listings for: passing items off as branded goods, and health
+ * claims only regulated products may make
+ */
+export const ETSY_PROHIBITED_TERMS: Readonly<Record<string, "replica" | "medical">> = {
+  replica: "replica",
+  knockoff: "replica",
+  "knock off": "replica",
+  "knock-off": "replica",
+  dupe: "replica",
+  counterfeit: "replica",
+  bootleg: "replica",
+  unlicensed: "replica",
+  "inspired by": "replica",
+  "in the style of": "replica",
+  "look alike": "replica",
+  lookalike: "replica",
+  cure: "medical",
+  cures: "medical",
+  heals: "medical",
+  "treats anxiety": "medical",
+  "fda approved": "medical",
+  antiviral: "medical",
+  "anti-viral": "medical",
+  covid: "medical",
+  coronavirus: "medical",
+};
+
+/** Phrases about the file rather than what it shows; agencies treat them as spam */
+export const META_PHRASES: readonly string[] = [
+  "stock photo",
+  "stock image",
+  "stock photography",
+  "royalty free",
+  "royalty-free",
+  "high resolution",
+  "high res",
+];
+
+/** Single words naming the medium or format; fine in a sentence, spam as a keyword */
+export const FILE_WORDS: readonly string[] = [
+  "hd",
+  "4k",
+  "8k",
+  "jpeg",
+  "jpg",
+  "png",
+  "photo",
+  "photograph",
+  "image",
+  "picture",
+  "pic",
+];
+
+/** Sales wording that reads as spam in titles, descriptions and tags */
+export const PROMOTIONAL_PHRASES: readonly string[] = [
+  "free shipping",
+  "best seller",
+  "bestseller",
+  "best selling",
+  "buy now",
+  "click here",
+  "limited time",
+  "on sale",
+  "discount",
+  "cheap",
+  "cheapest",
+  "best price",
+  "must have",
+  "top quality",
+  "best quality",
+];
@@ -0,0 +1,48 @@
+import type { ComplianceRuleId, MarketplaceId } from "@/lib/marketplaces";
+
+export type { ComplianceRuleId };
+
+/**
+ * "error": the marketplace rejects the file or takes the listing down; export is blocked.
+ * "warning": likely to hurt review or search ranking.
+ * "info": worth a look, never blocks.
+ */
+export type ComplianceSeverity = "error" | "warning" | "info";
+
+export type ComplianceField = "title" | "description" | "tags";
+
+/** The text a rule set runs over */
+export interface ComplianceListing {
+  title: string;
+  description: string;
+  tags: string[];
+}
+
+export interface ComplianceContext {
+  marketplace: MarketplaceId;
+  /** Editorial files may name brands and people, so those rules stand down */
+  editorial: boolean;
+}
+
+/** A machine-applicable fix for one violation */
+export type ComplianceFix =
+  | { kind: "remove-tag"; tag: string }
+  /** Replace every whole-word occurrence of `find` in a text field ("" deletes it) */
+  | { kind: "replace-text"; field: "title" | "description"; find: string; replace: string };
+
+export interface ComplianceViolation {
+  rule: ComplianceRuleId;
+  field: ComplianceField;
+  severity: ComplianceSeverity;
+  /** The offending term, tag or pattern as found */
+  match: string;
+  message: string;
+  /** What to do about it, in words */
+  suggestion: string;
+  fix?: ComplianceFix;
+}
+
+export type ComplianceRule = (
+  listing: ComplianceListing,
+  context: ComplianceContext
+) => ComplianceViolation[];
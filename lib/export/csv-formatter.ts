@@ -1,50 +1,30 @@
+import { getMarketplaceProfile, listMarketplaceProfiles } from "@/lib/marketplaces";
 import type { LocalGroup } from "@/store/useBatchStore";
+import { buildCsvLines } from "./csv-generator";
+import { resolveImageMetadata } from "./metadata-service";
+import { buildEtsyListingRow } from "./etsy-listing";
+import type { CsvRow, MarketplaceType } from "./types";
 
 // ─── Preset Types ────────────────────────────────────────────
 
 export interface CsvFormatPreset {
-  id: string;
+  id: MarketplaceType;
   label: string;
   description: string;
   separator: "," | ";";
-  headers: {
-    filename: string;
-    title: string;
-    description: string;
-    tags: string;
-  };
+  headers: string[];
 }
 
 // ─── Built-in Presets ────────────────────────────────────────
 
-export const CSV_PRESETS: CsvFormatPreset[] = [
-  {
-    id: "standard",
-    label: "Standard / Shutterstock",
-    description: "Comma-separated, standard headers",
-    separator: ",",
-    headers: { filename: "Filename", title: "Title", description: "Description", tags: "Keywords" },
-  },
-  {
-    id: "adobe",
-    label: "Adobe Stock",
-    description: "Semicolon-separated, prevents splitting titles with commas",
-    separator: ";",
-    headers: { filename: "Filename", title: "Title", description: "Description", tags: "Keywords" },
-  },
-  {
-    id: "getty",
-    label: "Getty / ESP",
-    description: "Comma-separated, strict Getty field names",
-    separator: ",",
-    headers: {
-      filename: "Filename",
-      title: "ObjectName",
-      description: "Caption",
-      tags: "Keywords",
-    },
-  },
-];
+/** One preset per marketplace profile, using the agency's exact upload columns */
+export const CSV_PRESETS: CsvFormatPreset[] = listMarketplaceProfiles().map((profile) => ({
+  id: profile.id,
+  label: profile.name,
+  description: `${profile.csv.separator === ";" ? "Semicolon" : "Comma"}-separated, ${profile.csv.columns.length} columns`,
+  separator: profile.csv.separator,
+  headers: profile.csv.columns.map((c) => c.header),
+}));
 
 // ─── Format Options ──────────────────────────────────────────
 
@@ -64,13 +44,6 @@ function getGroupMetadata(group: LocalGroup) {
   return { title, description, tags };
 }
 
-function escapeCsvField(value: string, separator: string): string {
-  if (value.includes(separator) || value.includes('"') || value.includes("\n")) {
-    return `"${value.replace(/"/g, '""')}"`;
-  }
-  return value;
-}
-
 // ─── Public API ──────────────────────────────────────────────
 
 /**
@@ -82,32 +55,43 @@ export function formatPreviewCsv(
   options: CsvFormatOptions
 ): { header: string; rows: string; full: string } {
   const { preset, includeExtraTags, tagsMax } = options;
-  const sep = preset.separator;
-  const h = preset.headers;
-
-  const header = [h.filename, h.title, h.description, h.tags]
-    .map((v) => escapeCsvField(v, sep))
-    .join(sep);
-
-  const rowLines: string[] = [];
+  const csvRows: CsvRow[] = [];
+  const perListing = getMarketplaceProfile(preset.id).csv.rowPer === "listing";
 
   for (const group of groups) {
     if (group.id === "unclustered" || group.images.length === 0) continue;
 
-    const { title, description, tags } = getGroupMetadata(group);
-    const finalTags = includeExtraTags ? tags : tags.slice(0, tagsMax);
-    const filename = group.images[0]?.originalFilename || "image.jpg";
-
-    const row = [
-      escapeCsvField(filename, sep),
-      escapeCsvField(title, sep),
-      escapeCsvField(description, sep),
-      escapeCsvField(finalTags.join(", "), sep),
-    ].join(sep);
-
-    rowLines.push(row);
+    // Listing presets (Etsy) preview the one row the group exports as
+    if (perListing) {
+      const row = buildEtsyListingRow(group, (image) => image.originalFilename);
+      csvRows.push(includeExtraTags ? row : { ...row, tags: row.tags.slice(0, tagsMax) });
+      continue;
+    }
+
+    // Per-image groups get one row per image, since every image has its own metadata
+    const entries =
+      group.taggingMode === "per-image"
+        ? group.images.map((image) => ({
+            ...resolveImageMetadata(image, group),
+            description: group.sharedDescription || "",
+            filename: image.originalFilename,
+          }))
+        : [{ ...getGroupMetadata(group), filename: group.images[0]?.originalFilename }];
+
+    for (const { title, description, tags, filename } of entries) {
+      csvRows.push({
+        filename: filename || "image.jpg",
+        title,
+        description,
+        tags: includeExtraTags ? tags : tags.slice(0, tagsMax),
+        categories: group.categories,
+      });
+    }
   }
 
-  const rows = rowLines.join("\n");
+  const { header, lines } = buildCsvLines(csvRows, preset.id, {
+    keepExtraTags: includeExtraTags,
+  });
+  const rows = lines.join("\n");
   return { header, rows, full: `${header}\n${rows}` };
 }
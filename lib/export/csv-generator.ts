@@ -1,47 +1,109 @@
+import { fitToMarketplace, getMarketplaceProfile } from "@/lib/marketplaces";
+import type { ListingText, MarketplaceCsvColumn, MarketplaceProfile } from "@/lib/marketplaces";
 import type { CsvRow, MarketplaceType } from "./types";
 
-const MARKETPLACE_TITLE_LIMITS: Record<MarketplaceType, number> = {
-  ETSY: 140,
-  ADOBE_STOCK: 200,
-};
+export interface CsvBuildOptions {
+  /** Keep keywords beyond the marketplace's limit (preview only; uploads reject them) */
+  keepExtraTags?: boolean;
+}
 
 /**
  * Escape a value for CSV format
  */
-function escapeCsv(value: string): string {
-  if (value.includes(",") || value.includes('"') || value.includes("\n")) {
+function escapeCsv(value: string, separator: string): string {
+  if (value.includes(separator) || value.includes('"') || value.includes("\n")) {
     return `"${value.replace(/"/g, '""')}"`;
   }
   return value;
 }
 
 /**
- * Truncate title to marketplace-specific limit
+ * Cell value for one column, from the row's text already fitted to the marketplace
  */
-function truncateTitle(title: string, marketplace: MarketplaceType): string {
-  const maxLength = MARKETPLACE_TITLE_LIMITS[marketplace];
-  if (title.length <= maxLength) return title;
-  return title.slice(0, maxLength - 3) + "...";
+function cellValue(
+  row: CsvRow,
+  listing: ListingText,
+  column: MarketplaceCsvColumn,
+  profile: MarketplaceProfile
+): string {
+  const [yes, no] = profile.csv.booleanValues;
+  switch (column.field) {
+    case "filename":
+      return row.filename;
+    case "title":
+      return listing.title;
+    case "description":
+      return listing.description;
+    case "keywords":
+      return listing.keywords.join(profile.csv.keywordSeparator);
+    case "category": {
+      const codes = (row.categories?.[profile.id] ?? []).slice(0, profile.limits.maxCategories);
+      return column.index !== undefined ? (codes[column.index] ?? "") : codes.join(",");
+    }
+    case "editorial":
+      return row.editorial ? yes : no;
+    case "mature":
+      return row.mature ? yes : no;
+    case "illustration":
+      return row.illustration ? yes : no;
+    case "releases":
+      return (row.releases ?? [])
+        .filter((r) => !column.releaseType || r.type === column.releaseType)
+        .map((r) => r.name)
+        .join(",");
+    case "materials":
+      return (row.materials ?? []).join(",");
+    case "occasion":
+      return row.occasion ?? "";
+    case "style":
+      return (row.styles ?? []).join(",");
+    case "price":
+      return row.price ?? "";
+    case "quantity":
+      return row.quantity?.toString() ?? "";
+    case "image":
+      return row.images?.[column.index] ?? "";
+    case "constant":
+      return column.value;
+  }
 }
 
 /**
- * Generate CSV content with proper escaping and BOM for Excel compatibility
+ * Header and row lines in the marketplace's column layout, with proper escaping
+ */
+export function buildCsvLines(
+  rows: CsvRow[],
+  marketplace: MarketplaceType,
+  options: CsvBuildOptions = {}
+): { header: string; lines: string[] } {
+  const profile = getMarketplaceProfile(marketplace);
+  const { columns, separator } = profile.csv;
+  const header = columns.map((c) => escapeCsv(c.header, separator)).join(separator);
+
+  const lines = rows.map((row) => {
+    // Agencies without a caption column read the editorial caption from the title
+    const title =
+      row.editorial && profile.editorialCaptionField === "title" ? row.description : row.title;
+    const listing = fitToMarketplace(
+      { title, description: row.description, keywords: row.tags },
+      marketplace
+    );
+    if (options.keepExtraTags) listing.keywords = row.tags;
+    return columns
+      .map((c) => escapeCsv(cellValue(row, listing, c, profile), separator))
+      .join(separator);
+  });
+
+  return { header, lines };
+}
+
+/**
+ * Generate the upload CSV for a marketplace, with BOM for Excel compatibility
  */
 export function generateCsv(rows: CsvRow[], marketplace: MarketplaceType): string {
-  const headers = ["Filename", "Title", "Description", "Tags"];
-  const lines: string[] = [headers.join(",")];
-
-  for (const row of rows) {
-    const values = [
-      escapeCsv(row.filename),
-      escapeCsv(truncateTitle(row.title, marketplace)),
-      escapeCsv(row.description),
-      escapeCsv(row.tags),
-    ];
-    lines.push(values.join(","));
-  }
+  const { header, lines } = buildCsvLines(rows, marketplace);
 
   // Add BOM for Excel compatibility
   const bom = "\uFEFF";
-  return bom + lines.join("\n");
+  return bom + [header, ...lines].join("\n");
 }
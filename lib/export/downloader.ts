@@ -2,7 +2,7 @@ import JSZip from "jszip";
 import { slugify, sanitizeForCsv } from "@/lib/utils";
 import { generateCsv } from "./csv-generator";
 import { buildNamingContext, generateExportFilename } from "./export-namer";
-import { embedMetadata, buildImageMetadata } from "./metadata-service";
+import { embedMetadata, buildImageMetadata, resolveImageMetadata } from "./metadata-service";
 import type {
   ExportOptions,
   ExportProgress,
@@ -11,26 +11,99 @@ import type {
   CsvRow,
   LocalGroup,
   ExportSettings,
+  ImageMetadata,
+  UntaggedFile,
+  FileVerification,
+  MarketplaceType,
 } from "./types";
 import { DEFAULT_EXPORT_SETTINGS } from "./types";
 import type { LocalImageItem } from "@/store/useBatchStore";
+import { toExportableFile } from "@/lib/image-processing/decode-image";
+import type { EmbeddedSource } from "@/lib/image-processing/embedded-metadata";
+import { buildXmpPacket, xmpSidecarName } from "./xmp";
+import { generateVerificationReport, verifyEmbeddedMetadata } from "./verify-metadata";
+import { fitToMarketplace, getMarketplaceProfile } from "@/lib/marketplaces";
+import {
+  buildEditorialCaption,
+  isEditorialImage,
+  missingEditorialFields,
+  resolveEditorialDetails,
+} from "./editorial";
+import { stripTrademarkKeywords } from "./trademarks";
+import { findMissingReleases, linkedReleases } from "./releases";
+import { buildEtsyListingRow } from "./etsy-listing";
+import { checkCompliance } from "@/lib/compliance";
+import type { ReleaseDocument } from "@/store/useBatchStore";
+
+interface ExportTarget {
+  marketplace: MarketplaceType;
+  /** ZIP path prefix ("" for the flat single-marketplace layout) */
+  folder: string;
+  /** Fit titles/keywords to the marketplace before embedding */
+  fit: boolean;
+}
+
+/** What one image ships with once editorial and trademark rules are applied */
+interface ResolvedListing {
+  title: string;
+  /** The editorial caption for editorial files */
+  description: string;
+  tags: string[];
+  editorial: boolean;
+  /** Trademarked keywords dropped because the file is commercial */
+  removedTrademarks: string[];
+  /** Releases covering the file */
+  releases: ReleaseDocument[];
+}
+
+/** Embedded metadata fitted to one marketplace's limits and accepted fields */
+function fitMetadata(metadata: ImageMetadata, marketplace: MarketplaceType): ImageMetadata {
+  const { editorialCaptionField } = getMarketplaceProfile(marketplace);
+  const fitted = fitToMarketplace(
+    {
+      title:
+        metadata.editorial && editorialCaptionField === "title" && metadata.description
+          ? metadata.description
+          : metadata.title,
+      description: metadata.description ?? "",
+      keywords: metadata.keywords,
+    },
+    marketplace
+  );
+  return {
+    ...metadata,
+    title: fitted.title,
+    keywords: fitted.keywords,
+    description: fitted.description || undefined,
+  };
+}
 
 export class ExportEngine {
-  private options: Required<Omit<ExportOptions, "settings" | "selectedGroupIds" | "folderName">>;
+  private options: Required<
+    Omit<ExportOptions, "settings" | "selectedGroupIds" | "folderName" | "releases">
+  >;
   private settings: ExportSettings;
+  private releases: ReleaseDocument[];
   private selectedGroupIds?: Set<string>;
   private folderName?: string;
   private progressCallback?: ExportProgressCallback;
 
   constructor(options: ExportOptions) {
-    const { settings, selectedGroupIds, folderName, ...rest } = options;
+    const { settings, selectedGroupIds, folderName, releases, ...rest } = options;
     this.options = {
       includeUnverified: true,
+      allowComplianceErrors: false,
       ...rest,
     };
-    this.settings = settings ?? DEFAULT_EXPORT_SETTINGS;
+    const base = settings ?? DEFAULT_EXPORT_SETTINGS;
+    // Persisted settings may predate newer metadata options; fill those from defaults
+    this.settings = {
+      ...base,
+      metadata: { ...DEFAULT_EXPORT_SETTINGS.metadata, ...base.metadata },
+    };
     this.selectedGroupIds = selectedGroupIds;
     this.folderName = folderName;
+    this.releases = releases ?? [];
   }
 
   /**
@@ -42,13 +115,21 @@ export class ExportEngine {
   }
 
   /**
-   * Main export method - creates a zip file with images and metadata.csv
+   * Main export method - creates a zip file with images and metadata.csv, in one folder
+   * per marketplace when several are selected
    */
   async exportGroups(groups: LocalGroup[]): Promise<ExportResult> {
     const zip = new JSZip();
     const csvRows: CsvRow[] = [];
     let processedImages = 0;
     let skippedImages = 0;
+    const targets = this.getTargets();
+    const untaggedFiles: UntaggedFile[] = [];
+    const verification = new Map<string, FileVerification[]>(targets.map((t) => [t.folder, []]));
+
+    const removedTrademarks = new Set<string>();
+    // Exported filename per image id, for listing CSVs that reference photos by name
+    const exportedNames = new Map<string, string>();
 
     const filteredGroups = this.filterGroups(groups);
     const totalImages = this.countTotalImages(filteredGroups);
@@ -61,6 +142,37 @@ export class ExportEngine {
       };
     }
 
+    // Agencies reject editorial files without a "City, Country - Date:" caption
+    const incompleteEditorial = this.findIncompleteEditorial(filteredGroups);
+    if (incompleteEditorial.length > 0) {
+      return {
+        success: false,
+        error: `Editorial caption details missing for ${incompleteEditorial.join("; ")}. Add them in the group editor before exporting.`,
+        stats: { totalGroups: filteredGroups.length, totalImages: 0, skippedImages: 0 },
+      };
+    }
+
+    // Recognisable people and property can't be licensed commercially without a release
+    const missingReleases = findMissingReleases(filteredGroups, this.releases);
+    if (missingReleases.length > 0) {
+      return {
+        success: false,
+        error: `Releases missing for ${missingReleases.join("; ")}. Link a release or mark the images editorial before exporting.`,
+        stats: { totalGroups: filteredGroups.length, totalImages: 0, skippedImages: 0 },
+      };
+    }
+
+    // Rejected metadata never ships unnoticed: errors block until the user accepts them
+    const compliance = this.checkCompliance(filteredGroups, targets);
+    if (compliance.errors.length > 0 && !this.options.allowComplianceErrors) {
+      return {
+        success: false,
+        error: `Compliance errors in ${compliance.errors.join("; ")}. Fix them in Preview Data or export anyway.`,
+        stats: { totalGroups: filteredGroups.length, totalImages: 0, skippedImages: 0 },
+        complianceErrors: compliance.errors,
+      };
+    }
+
     this.reportProgress({
       current: 0,
       total: totalImages,
@@ -83,7 +195,9 @@ export class ExportEngine {
             continue;
           }
 
-          const extension = this.getFileExtension(image.originalFilename);
+          // HEIC/TIFF/AVIF originals are converted to JPEG; everything else ships as-is
+          const source = await toExportableFile(image.file);
+          const extension = this.getFileExtension(source.name);
           const groupName = group.sharedTitle || `group-${group.groupNumber}`;
           const filename = this.generateFilenameWithPattern(
             image.originalFilename,
@@ -99,10 +213,46 @@ export class ExportEngine {
             currentFile: filename,
           });
 
-          const arrayBuffer = await this.processImageWithMetadata(image, group);
-          zip.file(filename, arrayBuffer);
+          const listing = this.resolveListing(image, group);
+          listing.removedTrademarks.forEach((tag) => removedTrademarks.add(tag.toLowerCase()));
+          const baseMetadata = this.buildMetadata(image, listing);
+          for (const target of targets) {
+            const metadata = target.fit
+              ? fitMetadata(baseMetadata, target.marketplace)
+              : baseMetadata;
+            const path = target.folder + filename;
+            const written = await this.processImageWithMetadata(source, metadata);
+            zip.file(path, written.data);
+            if (written.error) {
+              untaggedFiles.push({ filename: path, reason: written.error });
+            }
+            if (this.settings.metadata.enabled) {
+              verification.get(target.folder)!.push(
+                written.error
+                  ? {
+                      filename,
+                      status: "not-embedded",
+                      blocks: [],
+                      issues: [],
+                      reason: written.error,
+                    }
+                  : verifyEmbeddedMetadata(filename, written.data, metadata, written.blocks)
+              );
+            }
+
+            // Some DAMs ignore XMP embedded in PNG/WebP and only read a sidecar
+            const { metadata: metadataOptions } = this.settings;
+            if (
+              metadataOptions.enabled &&
+              metadataOptions.writeXmpSidecars &&
+              source.type !== "image/jpeg"
+            ) {
+              zip.file(target.folder + xmpSidecarName(filename), buildXmpPacket(metadata));
+            }
+          }
 
-          csvRows.push(this.createCsvRow(filename, group, image));
+          csvRows.push(this.createCsvRow(filename, group, listing));
+          exportedNames.set(image.id, filename);
 
           processedImages++;
           globalSequence++;
@@ -115,8 +265,21 @@ export class ExportEngine {
         phase: "compressing",
       });
 
-      const csvContent = generateCsv(csvRows, this.options.marketplace);
-      zip.file("metadata.csv", csvContent);
+      // One CSV per package: same rows, each in its marketplace's layout and limits
+      const listingRows = filteredGroups
+        .map((group) => buildEtsyListingRow(group, (image) => exportedNames.get(image.id)))
+        .filter((row) => row.images && row.images.length > 0);
+      for (const target of targets) {
+        const rowPer = getMarketplaceProfile(target.marketplace).csv.rowPer;
+        zip.file(
+          `${target.folder}metadata.csv`,
+          generateCsv(rowPer === "listing" ? listingRows : csvRows, target.marketplace)
+        );
+        const report = verification.get(target.folder) ?? [];
+        if (report.length > 0) {
+          zip.file(`${target.folder}metadata-verification.csv`, generateVerificationReport(report));
+        }
+      }
 
       const blob = await zip.generateAsync({
         type: "blob",
@@ -145,6 +308,16 @@ export class ExportEngine {
           totalImages: processedImages,
           skippedImages,
         },
+        untaggedFiles,
+        verification: targets.flatMap((target) =>
+          (verification.get(target.folder) ?? []).map((entry) => ({
+            ...entry,
+            filename: target.folder + entry.filename,
+          }))
+        ),
+        removedTrademarks: Array.from(removedTrademarks),
+        complianceErrors: compliance.errors,
+        complianceWarnings: compliance.warnings,
       };
     } catch (error) {
       const message = error instanceof Error ? error.message : "Export failed";
@@ -241,40 +414,161 @@ export class ExportEngine {
     return mergedTags;
   }
 
-  private async processImageWithMetadata(
-    image: LocalImageItem,
-    group: LocalGroup
-  ): Promise<ArrayBuffer> {
-    const baseTags = image.userTags || group.sharedTags || image.aiTags || [];
-    const mergedTags = this.mergeWithGlobalTags(baseTags);
-
-    const metadata = buildImageMetadata(
-      image.userTitle || group.sharedTitle || image.aiTitle,
-      mergedTags,
-      group.sharedDescription
-    );
+  /**
+   * Packages to write. With no marketplaces selected the ZIP is flat and keeps the
+   * metadata as tagged; selected marketplaces get metadata fitted to their limits,
+   * and when there are several, one folder each.
+   */
+  private getTargets(): ExportTarget[] {
+    const selected = Array.from(new Set(this.settings.marketplaces ?? []));
+    if (selected.length === 0) {
+      return [{ marketplace: this.options.marketplace, folder: "", fit: false }];
+    }
+    return selected.map((marketplace) => ({
+      marketplace,
+      folder: selected.length > 1 ? `${slugify(getMarketplaceProfile(marketplace).name)}/` : "",
+      fit: true,
+    }));
+  }
 
-    if (this.settings.metadata.enabled && image.file) {
-      const result = await embedMetadata(image.file, metadata, this.settings.metadata);
-      if (result.success && result.data) {
-        return result.data;
+  /**
+   * Groups with editorial images that can't be captioned yet, as
+   * `"Group name" (city, date)` entries for the error message
+   */
+  private findIncompleteEditorial(groups: LocalGroup[]): string[] {
+    const incomplete: string[] = [];
+    for (const group of groups) {
+      const missing = new Set(
+        group.images
+          .filter((image) => isEditorialImage(image, group))
+          .flatMap((image) => missingEditorialFields(resolveEditorialDetails(image, group)))
+      );
+      if (missing.size > 0) {
+        const name = group.sharedTitle || `Group ${group.groupNumber}`;
+        incomplete.push(`"${name}" (${Array.from(missing).join(", ")})`);
       }
     }
+    return incomplete;
+  }
 
-    return image.file?.arrayBuffer() ?? new ArrayBuffer(0);
+  /**
+   * Run each target marketplace's compliance rules over what every image will ship
+   * with. Errors come back as `"Group name" on Etsy: message` entries; warnings are
+   * counted once per distinct violation.
+   */
+  private checkCompliance(
+    groups: LocalGroup[],
+    targets: ExportTarget[]
+  ): { errors: string[]; warnings: number } {
+    const errors: string[] = [];
+    const warnings = new Set<string>();
+    for (const group of groups) {
+      const name = group.sharedTitle || `Group ${group.groupNumber}`;
+      for (const target of targets) {
+        const groupErrors = new Set<string>();
+        for (const image of group.images) {
+          const listing = this.resolveListing(image, group);
+          for (const violation of checkCompliance(listing, target.marketplace, {
+            editorial: listing.editorial,
+          })) {
+            const key = `${target.marketplace}|${violation.rule}|${violation.match.toLowerCase()}`;
+            if (violation.severity === "error") groupErrors.add(violation.message);
+            else if (violation.severity === "warning") warnings.add(`${group.id}|${key}`);
+          }
+        }
+        if (groupErrors.size > 0) {
+          const [first, ...rest] = Array.from(groupErrors);
+          const more = rest.length > 0 ? ` (+${rest.length} more)` : "";
+          errors.push(
+            `"${name}" on ${getMarketplaceProfile(target.marketplace).name}: ${first}${more}`
+          );
+        }
+      }
+    }
+    return { errors, warnings: warnings.size };
   }
 
-  private createCsvRow(filename: string, group: LocalGroup, image: LocalImageItem): CsvRow {
-    const title = image.userTitle || group.sharedTitle || image.aiTitle || "";
+  /**
+   * Title, description, keywords and releases for one image. Editorial files get the
+   * agency caption as their description; commercial files lose trademarked keywords.
+   */
+  private resolveListing(image: LocalImageItem, group: LocalGroup): ResolvedListing {
+    const { title, tags } = resolveImageMetadata(image, group);
+    const mergedTags = this.mergeWithGlobalTags(tags);
     const description = group.sharedDescription || "";
-    const baseTags = image.userTags || group.sharedTags || image.aiTags || [];
-    const mergedTags = this.mergeWithGlobalTags(baseTags);
+    const releases = linkedReleases(image, group, this.releases);
+
+    if (isEditorialImage(image, group)) {
+      const caption = buildEditorialCaption(
+        resolveEditorialDetails(image, group),
+        description || title
+      );
+      return {
+        title,
+        description: caption ?? description,
+        tags: mergedTags,
+        editorial: true,
+        removedTrademarks: [],
+        releases,
+      };
+    }
+
+    const { kept, removed } = stripTrademarkKeywords(mergedTags);
+    return {
+      title,
+      description,
+      tags: kept,
+      editorial: false,
+      removedTrademarks: removed,
+      releases,
+    };
+  }
+
+  private buildMetadata(image: LocalImageItem, listing: ResolvedListing): ImageMetadata {
+    return {
+      ...buildImageMetadata(
+        listing.title,
+        listing.tags,
+        listing.description || undefined,
+        image.embeddedMetadata?.capturedAt
+      ),
+      editorial: listing.editorial || undefined,
+    };
+  }
+
+  /**
+   * Returns the bytes to ship, the metadata blocks written into them, and why
+   * metadata couldn't be embedded (if it couldn't)
+   */
+  private async processImageWithMetadata(
+    source: File,
+    metadata: ImageMetadata
+  ): Promise<{ data: ArrayBuffer; blocks: EmbeddedSource[]; error?: string }> {
+    if (this.settings.metadata.enabled) {
+      const result = await embedMetadata(source, metadata, this.settings.metadata);
+      if (result.success && result.data) {
+        return { data: result.data, blocks: result.written ?? [] };
+      }
+      return {
+        data: result.data ?? (await source.arrayBuffer()),
+        blocks: [],
+        error: result.error ?? "Metadata could not be embedded",
+      };
+    }
+
+    return { data: await source.arrayBuffer(), blocks: [] };
+  }
 
+  private createCsvRow(filename: string, group: LocalGroup, listing: ResolvedListing): CsvRow {
     return {
       filename,
-      title: sanitizeForCsv(title),
-      description: sanitizeForCsv(description),
-      tags: mergedTags.map(sanitizeForCsv).join(", "),
+      title: sanitizeForCsv(listing.title),
+      // Editorial captions need their commas; generateCsv quotes the cell instead
+      description: listing.editorial ? listing.description : sanitizeForCsv(listing.description),
+      tags: listing.tags.map(sanitizeForCsv),
+      categories: group.categories,
+      editorial: listing.editorial,
+      releases: listing.releases,
     };
   }
 
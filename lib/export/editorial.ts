@@ -0,0 +1,95 @@
+import type { EditorialDetails, LocalGroup, LocalImageItem } from "@/store/useBatchStore";
+
+/**
+ * Editorial captions. Agencies reject editorial files whose caption doesn't open with
+ * where and when the photo was taken:
+ *   "Paris, France - June 3, 2024: Tourists queue outside the Louvre museum."
+ */
+
+export type EditorialField = "city" | "country" | "date";
+
+// "City, Country - Month D, YYYY: " (the city part may itself contain commas, e.g. a state)
+const CAPTION_PREFIX_PATTERN = /^[^:\n]+,\s*[^:\n]+\s+-\s+[A-Z][a-z]+ \d{1,2}, \d{4}:\s*/;
+
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+/**
+ * Whether an image ships as editorial: its own flag wins, otherwise the group's
+ */
+export function isEditorialImage(image: LocalImageItem, group: LocalGroup): boolean {
+  return image.editorial ?? group.editorial ?? false;
+}
+
+/**
+ * The group's caption details for one image; without a date the capture date is used
+ */
+export function resolveEditorialDetails(
+  image: LocalImageItem,
+  group: LocalGroup
+): EditorialDetails {
+  const details = group.editorialDetails ?? {};
+  // EXIF capture time is local "YYYY-MM-DDTHH:MM:SS"; its date part is the shoot date
+  const capturedOn =
+    image.embeddedMetadata?.capturedAt?.slice(0, 10) ??
+    (image.capturedAt ? new Date(image.capturedAt).toISOString().slice(0, 10) : undefined);
+  return { ...details, date: details.date || capturedOn };
+}
+
+/**
+ * Caption fields still missing before an editorial caption can be built
+ */
+export function missingEditorialFields(details: EditorialDetails): EditorialField[] {
+  const missing: EditorialField[] = [];
+  if (!details.city?.trim()) missing.push("city");
+  if (!details.country?.trim()) missing.push("country");
+  if (!details.date || formatEditorialDate(details.date) === null) missing.push("date");
+  return missing;
+}
+
+/**
+ * "2024-06-03" → "June 3, 2024"; null for anything that isn't a YYYY-MM-DD date
+ */
+export function formatEditorialDate(date: string): string | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date.trim());
+  if (!match) return null;
+  const [, year, month, day] = match;
+  const monthName = MONTHS[Number(month) - 1];
+  if (!monthName || Number(day) < 1 || Number(day) > 31) return null;
+  return `${monthName} ${Number(day)}, ${year}`;
+}
+
+/**
+ * True when the text already opens with the "City, Country - Date:" prefix
+ */
+export function hasEditorialPrefix(text: string): boolean {
+  return CAPTION_PREFIX_PATTERN.test(text.trim());
+}
+
+/**
+ * Build the agency caption "City, Country - Month D, YYYY: description".
+ * An existing prefix on the description is replaced, so rebuilding never doubles it.
+ * Returns null while city, country or date is missing.
+ */
+export function buildEditorialCaption(
+  details: EditorialDetails,
+  description: string
+): string | null {
+  if (missingEditorialFields(details).length > 0) return null;
+
+  const body = description.trim().replace(CAPTION_PREFIX_PATTERN, "");
+  const prefix = `${details.city!.trim()}, ${details.country!.trim()} - ${formatEditorialDate(details.date!)}`;
+  return body ? `${prefix}: ${body}` : `${prefix}:`;
+}
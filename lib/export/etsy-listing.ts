@@ -0,0 +1,152 @@
+import { getMarketplaceProfile } from "@/lib/marketplaces";
+import type { EtsyListingDetails, LocalGroup, LocalImageItem } from "@/store/useBatchStore";
+import type { CsvRow } from "./types";
+import { resolveImageMetadata } from "./metadata-service";
+import { stripTrademarkKeywords } from "./trademarks";
+
+/**
+ * Etsy listing mode: a group is one listing. Its photos go out in the saved order
+ * (up to Etsy's 10), with the group's tags, materials and attributes, in the
+ * one-row-per-listing CSV layout of the ETSY profile.
+ */
+
+export const ETSY_LISTING_LIMITS = {
+  maxImages: getMarketplaceProfile("ETSY").csv.maxImages ?? 10,
+  maxMaterials: 13,
+  maxMaterialLength: 45,
+  maxStyles: 2,
+} as const;
+
+/** Values of Etsy's occasion attribute */
+export const ETSY_OCCASIONS: readonly string[] = [
+  "Anniversary",
+  "Baptism",
+  "Bar or Bat Mitzvah",
+  "Birthday",
+  "Canada Day",
+  "Chinese New Year",
+  "Cinco de Mayo",
+  "Confirmation",
+  "Christmas",
+  "Day of the Dead",
+  "Easter",
+  "Eid",
+  "Engagement",
+  "Father's Day",
+  "Get well",
+  "Graduation",
+  "Halloween",
+  "Hanukkah",
+  "Housewarming",
+  "Kwanzaa",
+  "Prom",
+  "July 4th",
+  "Mother's Day",
+  "New baby",
+  "New Year's",
+  "Quinceañera",
+  "Retirement",
+  "St Patrick's Day",
+  "Sweet 16",
+  "Sympathy",
+  "Thanksgiving",
+  "Valentine's",
+  "Wedding",
+];
+
+/**
+ * The group's images in listing photo order: the saved order first (ids no longer
+ * in the group are skipped), then the rest in group order. The first is the thumbnail.
+ */
+export function orderListingImages(group: LocalGroup): LocalImageItem[] {
+  const order = group.etsyListing?.imageOrder ?? [];
+  const byId = new Map(group.images.map((image) => [image.id, image]));
+  const ordered = order.flatMap((id) => byId.get(id) ?? []);
+  const rest = group.images.filter((image) => !order.includes(image.id));
+  return [...ordered, ...rest];
+}
+
+/** Materials as entered (comma-separated or one per line), trimmed to Etsy's limits */
+export function parseMaterials(input: string): string[] {
+  const materials = input
+    .split(/[,\n]/)
+    .map((m) => m.trim().slice(0, ETSY_LISTING_LIMITS.maxMaterialLength))
+    .filter((m) => m.length > 0);
+  return Array.from(new Set(materials)).slice(0, ETSY_LISTING_LIMITS.maxMaterials);
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Listing description from the title, the leading tags, materials and attributes,
+ * for groups without a written one
+ */
+export function buildEtsyDescription(
+  title: string,
+  tags: string[],
+  details: EtsyListingDetails = {}
+): string {
+  const lowerTitle = title.toLowerCase();
+  const highlights = tags.filter((tag) => !lowerTitle.includes(tag.toLowerCase())).slice(0, 5);
+  const lines = [title.trim() ? `${capitalize(title.trim())}.` : ""];
+
+  if (highlights.length > 0) {
+    lines.push("", "Details:", ...highlights.map((tag) => `- ${capitalize(tag)}`));
+  }
+
+  const attributes = [
+    details.materials?.length ? `Materials: ${details.materials.join(", ")}` : "",
+    details.styles?.length ? `Style: ${details.styles.join(", ")}` : "",
+    details.occasion ? `Occasion: ${details.occasion}` : "",
+  ].filter(Boolean);
+  if (attributes.length > 0) lines.push("", ...attributes);
+
+  return lines.join("\n").trim();
+}
+
+/** Title and tags of the listing: the group's, or the first photo's for per-image groups */
+function listingText(
+  group: LocalGroup,
+  images: LocalImageItem[]
+): { title: string; tags: string[] } {
+  const first = images[0];
+  const resolved = first ? resolveImageMetadata(first, group) : { title: "", tags: [] };
+  return {
+    title: group.sharedTitle || resolved.title || "Untitled",
+    tags: group.sharedTags.length > 0 ? group.sharedTags : resolved.tags,
+  };
+}
+
+/**
+ * One bulk-listing row for a group. `filenameOf` names each photo as the CSV should
+ * reference it (the exported filename, or the original when there is no ZIP);
+ * photos it returns undefined for are left out.
+ */
+export function buildEtsyListingRow(
+  group: LocalGroup,
+  filenameOf: (image: LocalImageItem) => string | undefined
+): CsvRow {
+  const details = group.etsyListing ?? {};
+  const images = orderListingImages(group);
+  const { title, tags } = listingText(group, images);
+  // Shop listings are always commercial, so brand names never ship as tags
+  const kept = stripTrademarkKeywords(tags).kept;
+  const filenames = images
+    .flatMap((image) => filenameOf(image) ?? [])
+    .slice(0, ETSY_LISTING_LIMITS.maxImages);
+
+  return {
+    filename: filenames[0] ?? "",
+    title,
+    description: group.sharedDescription?.trim() || buildEtsyDescription(title, kept, details),
+    tags: kept,
+    images: filenames,
+    materials: details.materials,
+    occasion: details.occasion,
+    styles: details.styles,
+    price: details.price,
+    quantity: details.quantity,
+  };
+}
@@ -9,6 +9,38 @@ export {
   validatePattern,
   previewFilename,
 } from "./export-namer";
-export { embedMetadata, buildImageMetadata } from "./metadata-service";
+export { embedMetadata, buildImageMetadata, resolveImageMetadata } from "./metadata-service";
+export {
+  buildXmpPacket,
+  insertXmpIntoJpeg,
+  insertXmpIntoPng,
+  insertXmpIntoWebp,
+  xmpSidecarName,
+} from "./xmp";
+export { verifyEmbeddedMetadata, generateVerificationReport } from "./verify-metadata";
+export {
+  buildEditorialCaption,
+  formatEditorialDate,
+  hasEditorialPrefix,
+  isEditorialImage,
+  missingEditorialFields,
+  resolveEditorialDetails,
+} from "./editorial";
+export type { EditorialField } from "./editorial";
+export { TRADEMARK_TERMS, findTrademark, stripTrademarkKeywords } from "./trademarks";
+export {
+  RELEASE_TYPE_LABELS,
+  findMissingReleases,
+  linkedReleases,
+  missingRelease,
+} from "./releases";
+export {
+  ETSY_LISTING_LIMITS,
+  ETSY_OCCASIONS,
+  buildEtsyDescription,
+  buildEtsyListingRow,
+  orderListingImages,
+  parseMaterials,
+} from "./etsy-listing";
 export { DEFAULT_EXPORT_SETTINGS } from "./types";
 export type * from "./types";
@@ -1,5 +1,9 @@
 import piexif, { type ExifDict } from "piexifjs";
-import type { ImageMetadata, MetadataWriteResult, MetadataOptions } from "./types";
+import type { ImageMetadata, MetadataWriteResult, MetadataOptions, LocalGroup } from "./types";
+import type { LocalImageItem } from "@/store/useBatchStore";
+import { detectImageFormat } from "@/lib/image-processing/formats";
+import type { EmbeddedSource } from "@/lib/image-processing/embedded-metadata";
+import { buildXmpPacket, insertXmpIntoJpeg, insertXmpIntoPng, insertXmpIntoWebp } from "./xmp";
 
 // EXIF Tag Constants
 const EXIF_TAGS = {
@@ -47,10 +51,12 @@ function buildIptcDataset(record: number, dataset: number, data: string): Uint8A
   const encoded = new TextEncoder().encode(data);
   const size = encoded.length;
 
-  // For sizes > 32767, extended format would be needed, but we'll cap at standard
+  // For sizes > 32767, extended format would be needed, but we'll cap at standard.
+  // Cut on a UTF-8 character boundary; export verification reports the truncation.
   if (size > 32767) {
-    const truncated = data.slice(0, 32767);
-    return buildIptcDataset(record, dataset, truncated);
+    let end = 32767;
+    while (end > 0 && ((encoded[end] ?? 0) & 0xc0) === 0x80) end--;
+    return buildIptcDataset(record, dataset, new TextDecoder().decode(encoded.subarray(0, end)));
   }
 
   const result = new Uint8Array(5 + size);
@@ -174,9 +180,20 @@ function buildApp13Segment(iptcData: Uint8Array): Uint8Array {
   return result;
 }
 
+const PHOTOSHOP_APP13_HEADER = "Photoshop 3.0\0";
+
+function isPhotoshopSegment(data: Uint8Array, offset: number, length: number): boolean {
+  if (data[offset + 1] !== 0xed || length < PHOTOSHOP_APP13_HEADER.length + 2) return false;
+  for (let i = 0; i < PHOTOSHOP_APP13_HEADER.length; i++) {
+    if (data[offset + 4 + i] !== PHOTOSHOP_APP13_HEADER.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
 /**
- * Insert APP13 (IPTC) segment into JPEG data
- * Inserts after SOI and any APP0/APP1 segments
+ * Insert APP13 (IPTC) segment into JPEG data, after SOI and any APP0/APP1 segments.
+ * An existing Photoshop APP13 (e.g. from Lightroom) is removed, so agencies and the
+ * export check never read a stale IPTC block ahead of ours.
  */
 function insertApp13IntoJpeg(jpegData: ArrayBuffer, app13Segment: Uint8Array): ArrayBuffer {
   const data = new Uint8Array(jpegData);
@@ -186,33 +203,30 @@ function insertApp13IntoJpeg(jpegData: ArrayBuffer, app13Segment: Uint8Array): A
     return jpegData; // Not a valid JPEG
   }
 
-  // Find insertion point (after SOI and APP0/APP1 segments)
-  let insertPos = 2; // After SOI
-
-  while (insertPos < data.length - 3) {
-    if (data[insertPos] !== 0xff) break;
-
-    const marker = data[insertPos + 1];
-
-    // Skip APP0 (JFIF) and APP1 (EXIF) segments
-    if (marker === 0xe0 || marker === 0xe1) {
-      const segmentLength = ((data[insertPos + 2] ?? 0) << 8) | (data[insertPos + 3] ?? 0);
-      insertPos += 2 + segmentLength;
-    } else if (marker === 0xed) {
-      // Skip existing APP13 segment
-      const segmentLength = ((data[insertPos + 2] ?? 0) << 8) | (data[insertPos + 3] ?? 0);
-      insertPos += 2 + segmentLength;
-    } else {
-      break;
+  const kept: Uint8Array[] = [data.subarray(0, 2)];
+  let insertAt = -1;
+  let offset = 2;
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1]!;
+    if (marker === 0xda) break; // start of scan: the rest is image data
+    const length = ((data[offset + 2] ?? 0) << 8) | (data[offset + 3] ?? 0);
+    const isPhotoshop = isPhotoshopSegment(data, offset, length);
+    // Keep APP0 (JFIF) and APP1 (EXIF/XMP) ahead of the new segment
+    if (insertAt < 0 && marker !== 0xe0 && marker !== 0xe1 && !isPhotoshop) {
+      insertAt = kept.length;
     }
+    if (!isPhotoshop) kept.push(data.subarray(offset, offset + 2 + length));
+    offset += 2 + length;
+  }
+  kept.splice(insertAt < 0 ? kept.length : insertAt, 0, app13Segment);
+  kept.push(data.subarray(offset));
+
+  const result = new Uint8Array(kept.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of kept) {
+    result.set(part, position);
+    position += part.length;
   }
-
-  // Create new array with APP13 inserted
-  const result = new Uint8Array(data.length + app13Segment.length);
-  result.set(data.slice(0, insertPos), 0);
-  result.set(app13Segment, insertPos);
-  result.set(data.slice(insertPos), insertPos + app13Segment.length);
-
   return result.buffer;
 }
 
@@ -249,16 +263,50 @@ function buildExifDict(metadata: ImageMetadata): ExifDict {
 }
 
 /**
- * Embed metadata into a JPEG image
+ * Embed XMP into a PNG (iTXt) or WebP ("XMP " chunk). Neither format has a
+ * standard home for EXIF XP tags or IPTC-IIM, so XMP is the only thing written.
+ */
+async function embedXmpMetadata(
+  imageFile: File,
+  metadata: ImageMetadata,
+  options: MetadataOptions
+): Promise<MetadataWriteResult> {
+  const buffer = await imageFile.arrayBuffer();
+  const format = detectImageFormat(new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 64)));
+
+  if (format !== "png" && format !== "webp") {
+    return { success: false, data: buffer, error: "Format does not support embedded metadata" };
+  }
+  if (!options.burnXmp) {
+    return {
+      success: false,
+      data: buffer,
+      error: `XMP is disabled and ${format.toUpperCase()} cannot carry EXIF/IPTC keywords`,
+    };
+  }
+
+  const packet = buildXmpPacket(metadata);
+  const tagged =
+    format === "png" ? insertXmpIntoPng(buffer, packet) : insertXmpIntoWebp(buffer, packet);
+  if (!tagged) {
+    return { success: false, data: buffer, error: `Could not parse ${format.toUpperCase()} file` };
+  }
+  return { success: true, data: tagged, written: ["xmp"] };
+}
+
+/**
+ * Embed metadata into an image
  * Returns a new ArrayBuffer with embedded metadata
- * Supports both EXIF (Windows XP tags) and IPTC (Caption/Keywords)
+ * JPEG: EXIF (Windows XP tags), IPTC (Caption/Keywords) and XMP (APP1 packet)
+ * PNG/WebP: XMP only
+ * On failure the result carries the untouched bytes in `data` plus an `error`
  */
 export async function embedMetadata(
   imageFile: File,
   metadata: ImageMetadata,
   options: MetadataOptions
 ): Promise<MetadataWriteResult> {
-  if (!options.enabled || (!options.burnExif && !options.burnIptc)) {
+  if (!options.enabled || (!options.burnExif && !options.burnIptc && !options.burnXmp)) {
     const buffer = await imageFile.arrayBuffer();
     return { success: true, data: buffer };
   }
@@ -270,10 +318,10 @@ export async function embedMetadata(
     imageFile.name.toLowerCase().endsWith(".jpeg");
 
   if (!isJpeg) {
-    const buffer = await imageFile.arrayBuffer();
-    return { success: true, data: buffer };
+    return embedXmpMetadata(imageFile, metadata, options);
   }
 
+  const written: EmbeddedSource[] = [];
   try {
     let resultBuffer: ArrayBuffer;
     const dataUrl = await fileToDataUrl(imageFile);
@@ -300,6 +348,7 @@ export async function embedMetadata(
       const exifBytes = piexif.dump(exifObj);
       const newDataUrl = piexif.insert(exifBytes, dataUrl);
       resultBuffer = dataUrlToArrayBuffer(newDataUrl);
+      written.push("exif");
     } else {
       resultBuffer = await imageFile.arrayBuffer();
     }
@@ -309,16 +358,28 @@ export async function embedMetadata(
       const iptcBlock = buildIptcBlock(metadata);
       if (iptcBlock.length > 0) {
         const app13Segment = buildApp13Segment(iptcBlock);
-        resultBuffer = insertApp13IntoJpeg(resultBuffer, app13Segment);
+        // The length field is 16-bit; an oversized block would corrupt the file
+        if (app13Segment.length - 2 > 0xffff) {
+          console.warn("[IPTC] Block exceeds one APP13 segment; skipping IPTC");
+        } else {
+          resultBuffer = insertApp13IntoJpeg(resultBuffer, app13Segment);
+          written.push("iptc");
+        }
       }
     }
 
-    return { success: true, data: resultBuffer };
+    // Step 3: Embed XMP packet (replaces any XMP carried over from the original)
+    if (options.burnXmp) {
+      resultBuffer = insertXmpIntoJpeg(resultBuffer, buildXmpPacket(metadata));
+      written.push("xmp");
+    }
+
+    return { success: true, data: resultBuffer, written };
   } catch (error) {
     const message = error instanceof Error ? error.message : "Failed to embed metadata";
     console.error("Metadata embedding error:", message);
     const buffer = await imageFile.arrayBuffer();
-    return { success: true, data: buffer };
+    return { success: false, data: buffer, error: message };
   }
 }
 
@@ -367,11 +428,40 @@ function dataUrlToArrayBuffer(dataUrl: string): ArrayBuffer {
 export function buildImageMetadata(
   title: string | undefined,
   tags: string[] | undefined,
-  description: string | undefined
+  description: string | undefined,
+  capturedAt?: string
 ): ImageMetadata {
   return {
     title: title || "",
     keywords: tags || [],
     description: description,
+    capturedAt,
+  };
+}
+
+/**
+ * Resolve the title and keywords exported for one image. User edits always win;
+ * after that, per-image groups use the image's own AI metadata and group-mode
+ * groups use the shared group values. Metadata embedded in the upload fills in
+ * whatever is still empty.
+ */
+export function resolveImageMetadata(
+  image: LocalImageItem,
+  group: LocalGroup
+): { title: string; tags: string[] } {
+  const embedded = image.embeddedMetadata;
+  const resolved =
+    group.taggingMode === "per-image"
+      ? {
+          title: image.userTitle || image.aiTitle || group.sharedTitle || "",
+          tags: image.userTags || image.aiTags || group.sharedTags || [],
+        }
+      : {
+          title: image.userTitle || group.sharedTitle || image.aiTitle || "",
+          tags: image.userTags || group.sharedTags || image.aiTags || [],
+        };
+  return {
+    title: resolved.title || embedded?.title || "",
+    tags: resolved.tags.length > 0 ? resolved.tags : (embedded?.keywords ?? []),
   };
 }
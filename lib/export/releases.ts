@@ -0,0 +1,62 @@
+import type { LocalGroup, LocalImageItem, ReleaseDocument } from "@/store/useBatchStore";
+import type { ReleaseType } from "@/types";
+import { isEditorialImage } from "./editorial";
+
+/**
+ * Model and property releases. Agencies only license recognisable people and private
+ * property commercially when a signed release is submitted with the file; editorial
+ * files are exempt. The CSV release columns reference releases by the name they were
+ * uploaded to the agency under.
+ */
+
+export const RELEASE_TYPE_LABELS: Record<ReleaseType, string> = {
+  model: "Model release",
+  property: "Property release",
+};
+
+/**
+ * Library releases covering an image, linked to it directly or through its group
+ */
+export function linkedReleases(
+  image: LocalImageItem,
+  group: LocalGroup,
+  library: ReleaseDocument[]
+): ReleaseDocument[] {
+  const ids = new Set([...(group.releaseIds ?? []), ...(image.releaseIds ?? [])]);
+  return library.filter((release) => ids.has(release.id));
+}
+
+/**
+ * The release an image still needs before it can ship commercially, or null when it
+ * needs none, is editorial, or already has a linked release of that type
+ */
+export function missingRelease(
+  image: LocalImageItem,
+  group: LocalGroup,
+  library: ReleaseDocument[]
+): ReleaseType | null {
+  const needed = image.releaseNeeded;
+  if (!needed || isEditorialImage(image, group)) return null;
+  const covered = linkedReleases(image, group, library).some((r) => r.type === needed);
+  return covered ? null : needed;
+}
+
+/**
+ * Groups with images that need a release but have none, as
+ * `"Group name" (2 images need a model release)` entries for error messages
+ */
+export function findMissingReleases(groups: LocalGroup[], library: ReleaseDocument[]): string[] {
+  const entries: string[] = [];
+  for (const group of groups) {
+    const missing = group.images
+      .map((image) => missingRelease(image, group, library))
+      .filter((type): type is ReleaseType => type !== null);
+    if (missing.length === 0) continue;
+
+    const types = Array.from(new Set(missing)).join(" or ");
+    const count = missing.length === 1 ? "1 image needs" : `${missing.length} images need`;
+    const name = group.sharedTitle || `Group ${group.groupNumber}`;
+    entries.push(`"${name}" (${count} a ${types} release)`);
+  }
+  return entries;
+}
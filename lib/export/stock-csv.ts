@@ -1,6 +1,12 @@
-import type { LocalGroup } from "@/store/useBatchStore";
+import type { LocalGroup, LocalImageItem, ReleaseDocument } from "@/store/useBatchStore";
 import type { CsvRow, MarketplaceType } from "./types";
 import { generateCsv } from "./csv-generator";
+import { resolveImageMetadata } from "./metadata-service";
+import { buildEditorialCaption, isEditorialImage, resolveEditorialDetails } from "./editorial";
+import { stripTrademarkKeywords } from "./trademarks";
+import { linkedReleases } from "./releases";
+import { buildEtsyListingRow } from "./etsy-listing";
+import { getMarketplaceProfile } from "@/lib/marketplaces";
 
 /**
  * Escape special regex characters in a string
@@ -16,8 +22,17 @@ function escapeRegExp(str: string): string {
 export function generateStockCSV(
   groups: LocalGroup[],
   marketplace: MarketplaceType = "ADOBE_STOCK",
-  prefix?: string
+  prefix?: string,
+  releases: ReleaseDocument[] = []
 ): string {
+  // Listing marketplaces (Etsy) get one row per group, naming its photos by original filename
+  if (getMarketplaceProfile(marketplace).csv.rowPer === "listing") {
+    const listings = groups
+      .filter((g) => g.id !== "unclustered" && g.images.length > 0)
+      .map((g) => buildEtsyListingRow(g, (image) => image.originalFilename || image.id));
+    return generateCsv(listings, marketplace);
+  }
+
   const rows: CsvRow[] = [];
 
   for (const group of groups) {
@@ -26,20 +41,33 @@ export function generateStockCSV(
       continue;
     }
 
-    // 1. CLEAN TITLE: Strip existing prefix and re-add cleanly to prevent doubling
-    let cleanTitle = group.sharedTitle || "Untitled";
-
-    if (prefix && prefix.trim()) {
-      // Strip any existing prefix (case-insensitive) before re-adding
-      const prefixPattern = new RegExp(`^${escapeRegExp(prefix)}[-_\\s]*`, "i");
-      cleanTitle = cleanTitle.replace(prefixPattern, "").trim();
-      // Re-add the prefix cleanly
-      cleanTitle = `${prefix} - ${cleanTitle}`;
-    } else {
-      // No prefix provided, just deduplicate any existing duplicates
-      cleanTitle = deduplicatePrefix(cleanTitle);
+    // Per-image groups: every row carries the image's own title and keywords
+    if (group.taggingMode === "per-image") {
+      for (const image of group.images) {
+        const { title, tags } = resolveImageMetadata(image, group);
+        const imageGroup: LocalGroup = { ...group, sharedTitle: title, sharedTags: tags };
+        const imageKeywords = buildKeywords(imageGroup);
+        rows.push(
+          applyUsageRules(
+            {
+              filename: image.originalFilename || image.id,
+              title: cleanTitle(title || "Untitled", prefix),
+              description: buildDescription(imageGroup, imageKeywords),
+              tags: imageKeywords,
+              categories: group.categories,
+            },
+            image,
+            group,
+            releases
+          )
+        );
+      }
+      continue;
     }
 
+    // 1. CLEAN TITLE: Strip existing prefix and re-add cleanly to prevent doubling
+    const title = cleanTitle(group.sharedTitle || "Untitled", prefix);
+
     // 2. BUILD TAGS with universal safety net
     const keywords = buildKeywords(group);
 
@@ -47,18 +75,67 @@ export function generateStockCSV(
     const description = buildDescription(group, keywords);
 
     for (const image of group.images) {
-      rows.push({
-        filename: image.originalFilename || image.id,
-        title: cleanTitle,
-        description,
-        tags: keywords,
-      });
+      rows.push(
+        applyUsageRules(
+          {
+            filename: image.originalFilename || image.id,
+            title,
+            description,
+            tags: keywords,
+            categories: group.categories,
+          },
+          image,
+          group,
+          releases
+        )
+      );
     }
   }
 
   return generateCsv(rows, marketplace);
 }
 
+/**
+ * Editorial rows get the agency caption as their description (when its location and
+ * date are filled in); commercial rows lose trademarked keywords. Both carry their
+ * linked releases.
+ */
+function applyUsageRules(
+  row: CsvRow,
+  image: LocalImageItem,
+  group: LocalGroup,
+  releases: ReleaseDocument[]
+): CsvRow {
+  const linked = linkedReleases(image, group, releases);
+  if (!isEditorialImage(image, group)) {
+    return { ...row, tags: stripTrademarkKeywords(row.tags).kept, releases: linked };
+  }
+  const caption = buildEditorialCaption(
+    resolveEditorialDetails(image, group),
+    group.sharedDescription || row.title
+  );
+  return {
+    ...row,
+    editorial: true,
+    description: caption ?? row.description,
+    releases: linked,
+  };
+}
+
+/**
+ * Apply the export prefix to a title without doubling it.
+ */
+function cleanTitle(title: string, prefix?: string): string {
+  if (prefix && prefix.trim()) {
+    // Strip any existing prefix (case-insensitive) before re-adding
+    const prefixPattern = new RegExp(`^${escapeRegExp(prefix)}[-_\\s]*`, "i");
+    // Re-add the prefix cleanly
+    return `${prefix} - ${title.replace(prefixPattern, "").trim()}`;
+  }
+  // No prefix provided, just deduplicate any existing duplicates
+  return deduplicatePrefix(title);
+}
+
 /**
  * Remove duplicate prefixes from title.
  * E.g., "TEST_ - TEST_ - River Scenes" -> "TEST_ - River Scenes"
@@ -91,7 +168,7 @@ function deduplicatePrefix(title: string): string {
  * Build description from group metadata.
  * Generates a fallback using the keywords if description is empty.
  */
-function buildDescription(group: LocalGroup, keywords: string): string {
+function buildDescription(group: LocalGroup, keywords: string[]): string {
   // Use explicit description if available
   if (group.sharedDescription && group.sharedDescription.trim()) {
     return group.sharedDescription;
@@ -99,7 +176,7 @@ function buildDescription(group: LocalGroup, keywords: string): string {
 
   // Generate fallback description from keywords
   const title = group.sharedTitle || "image";
-  const keywordArray = keywords.split(", ").filter((k) => k !== title);
+  const keywordArray = keywords.filter((k) => k !== title);
 
   if (keywordArray.length > 0) {
     const featuredTags = keywordArray.slice(0, 5).join(", ");
@@ -110,11 +187,11 @@ function buildDescription(group: LocalGroup, keywords: string): string {
 }
 
 /**
- * Build comma-separated keywords from group metadata.
+ * Build the keyword list from group metadata.
  * Combines: sharedTitle, semanticTags, sharedTags
  * Includes "Universal Tag Safety Net" - ensures NO group ever has sparse tags
  */
-function buildKeywords(group: LocalGroup, globalTags: string[] = []): string {
+function buildKeywords(group: LocalGroup, globalTags: string[] = []): string[] {
   const tags = new Set<string>();
   const title = group.sharedTitle || "stock image";
 
@@ -173,8 +250,7 @@ function buildKeywords(group: LocalGroup, globalTags: string[] = []): string {
   }
 
   // Convert to array, with title first
-  const result = [title, ...Array.from(tags).filter((t) => t !== title)];
-  return result.join(", ");
+  return [title, ...Array.from(tags).filter((t) => t !== title)];
 }
 
 /**
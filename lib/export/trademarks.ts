@@ -0,0 +1,122 @@
+/**
+ * Trademarked names agencies reject in commercial metadata. Commercial files may not
+ * reference brands, products or characters; editorial files may, so only commercial
+ * submissions are filtered. Common words that double as brands ("apple", "amazon",
+ * "shell", "zoom") are left out on purpose: stripping them would remove genuine subjects.
+ */
+
+export const TRADEMARK_TERMS: readonly string[] = [
+  // Technology
+  "iphone",
+  "ipad",
+  "imac",
+  "macbook",
+  "airpods",
+  "apple watch",
+  "samsung",
+  "google",
+  "microsoft",
+  "windows 11",
+  "xbox",
+  "playstation",
+  "nintendo",
+  "sony",
+  "gopro",
+  "tesla",
+  "intel",
+  // Social & internet
+  "facebook",
+  "instagram",
+  "whatsapp",
+  "tiktok",
+  "youtube",
+  "twitter",
+  "netflix",
+  "spotify",
+  "uber",
+  "airbnb",
+  // Food & drink
+  "coca-cola",
+  "coca cola",
+  "pepsi",
+  "starbucks",
+  "mcdonalds",
+  "mcdonald's",
+  "red bull",
+  "heineken",
+  "nutella",
+  "oreo",
+  // Fashion & retail
+  "nike",
+  "adidas",
+  "gucci",
+  "chanel",
+  "prada",
+  "louis vuitton",
+  "rolex",
+  "levi's",
+  "ikea",
+  "lego",
+  "barbie",
+  // Vehicles
+  "bmw",
+  "mercedes",
+  "audi",
+  "porsche",
+  "ferrari",
+  "lamborghini",
+  "toyota",
+  "volkswagen",
+  "harley-davidson",
+  "harley davidson",
+  "vespa",
+  // Entertainment
+  "disney",
+  "marvel",
+  "pixar",
+  "star wars",
+  "pokemon",
+  "hello kitty",
+  // Genericized trademarks agencies still flag
+  "jacuzzi",
+  "frisbee",
+  "kleenex",
+  "post-it",
+  "band-aid",
+  "velcro",
+  "jet ski",
+  "styrofoam",
+  "photoshop",
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Whole-word match so "sony" doesn't catch "sonya" and "audi" doesn't catch "audience"
+const TRADEMARK_PATTERN = new RegExp(
+  `(?:^|[^a-z0-9])(${TRADEMARK_TERMS.map(escapeRegExp).join("|")})(?=$|[^a-z0-9])`,
+  "i"
+);
+
+/**
+ * The trademark a text mentions, if any
+ */
+export function findTrademark(text: string): string | null {
+  return TRADEMARK_PATTERN.exec(text)?.[1]?.toLowerCase() ?? null;
+}
+
+/**
+ * Split keywords into the ones safe for commercial use and the trademarked ones
+ */
+export function stripTrademarkKeywords(keywords: string[]): {
+  kept: string[];
+  removed: string[];
+} {
+  const kept: string[] = [];
+  const removed: string[] = [];
+  for (const keyword of keywords) {
+    (findTrademark(keyword) ? removed : kept).push(keyword);
+  }
+  return { kept, removed };
+}
@@ -1,4 +1,5 @@
-import type { LocalGroup, MarketplaceType } from "@/store/useBatchStore";
+import type { LocalGroup, MarketplaceType, ReleaseDocument } from "@/store/useBatchStore";
+import type { EmbeddedSource } from "@/lib/image-processing/embedded-metadata";
 
 // ============================================
 // EXPORT NAMING TYPES
@@ -28,18 +29,46 @@ export interface MetadataOptions {
   enabled: boolean;
   burnExif: boolean;
   burnIptc: boolean;
+  /** Embed an XMP packet (dc:title/description/subject, Photoshop, IPTC Core); the only option PNG/WebP support */
+  burnXmp: boolean;
+  /** Also write `.xmp` sidecars next to PNG/WebP exports, for DAMs that ignore embedded XMP */
+  writeXmpSidecars: boolean;
 }
 
 export interface ImageMetadata {
   title: string;
   keywords: string[];
   description?: string;
+  /** Original capture time (ISO 8601), carried over from the upload's own metadata */
+  capturedAt?: string;
+  /** Editorial file: `description` holds the "City, Country - Date:" caption */
+  editorial?: boolean;
 }
 
 export interface MetadataWriteResult {
   success: boolean;
   data?: ArrayBuffer;
   error?: string;
+  /** Metadata blocks written into `data`, for round-trip verification */
+  written?: EmbeddedSource[];
+}
+
+export type VerificationStatus = "verified" | "mismatch" | "unreadable" | "not-embedded";
+
+export interface VerificationIssue {
+  block: EmbeddedSource;
+  field: "title" | "description" | "keywords" | "block";
+  message: string;
+}
+
+/** Outcome of re-reading one exported file and comparing it with the intended metadata */
+export interface FileVerification {
+  filename: string;
+  status: VerificationStatus;
+  blocks: EmbeddedSource[];
+  issues: VerificationIssue[];
+  /** Why nothing was embedded (status "not-embedded") */
+  reason?: string;
 }
 
 // ============================================
@@ -51,6 +80,11 @@ export interface ExportSettings {
   metadata: MetadataOptions;
   /** Global tags to append to every image during export */
   globalTags: string[];
+  /**
+   * Marketplaces to build submission packages for in one run, each in its own folder
+   * with metadata fitted to that marketplace. Empty exports the current marketplace only.
+   */
+  marketplaces: MarketplaceType[];
 }
 
 export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
@@ -63,8 +97,11 @@ export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
     enabled: true,
     burnExif: true,
     burnIptc: true,
+    burnXmp: true,
+    writeXmpSidecars: true,
   },
   globalTags: [],
+  marketplaces: [],
 };
 
 // ============================================
@@ -77,6 +114,10 @@ export interface ExportOptions {
   settings?: ExportSettings;
   selectedGroupIds?: Set<string>;
   folderName?: string; // Name of folder for ZIP filename
+  /** Release library: names for the CSV release columns, and the missing-release check */
+  releases?: ReleaseDocument[];
+  /** Export despite error-level compliance violations (the user has reviewed them) */
+  allowComplianceErrors?: boolean;
 }
 
 export interface ExportProgress {
@@ -88,6 +129,12 @@ export interface ExportProgress {
 
 export type ExportProgressCallback = (progress: ExportProgress) => void;
 
+/** An exported file whose title/keywords could not be written into the image itself */
+export interface UntaggedFile {
+  filename: string;
+  reason: string;
+}
+
 export interface ExportResult {
   success: boolean;
   blob?: Blob;
@@ -98,13 +145,38 @@ export interface ExportResult {
     totalImages: number;
     skippedImages: number;
   };
+  /** Files shipped without embedded metadata (only when embedding is enabled) */
+  untaggedFiles?: UntaggedFile[];
+  /** Per-file round-trip check of the embedded metadata (only when embedding is enabled) */
+  verification?: FileVerification[];
+  /** Trademarked keywords dropped from commercial files, deduplicated */
+  removedTrademarks?: string[];
+  /** Error-level compliance violations, one entry per group and marketplace (set when they blocked the export) */
+  complianceErrors?: string[];
+  /** Warning-level compliance violations shipped in the export */
+  complianceWarnings?: number;
 }
 
 export interface CsvRow {
   filename: string;
   title: string;
   description: string;
-  tags: string;
+  tags: string[];
+  /** Agency category codes, per marketplace (each agency has its own list) */
+  categories?: Partial<Record<MarketplaceType, string[]>>;
+  /** Editorial file; `description` is its caption */
+  editorial?: boolean;
+  mature?: boolean;
+  illustration?: boolean;
+  /** Model/property releases covering this file, by the name the agency knows them under */
+  releases?: Pick<ReleaseDocument, "name" | "type">[];
+  /** Listing rows (Etsy): the listing's photo filenames in order */
+  images?: string[];
+  materials?: string[];
+  occasion?: string;
+  styles?: string[];
+  price?: string;
+  quantity?: number;
 }
 
 export type { LocalGroup, MarketplaceType };
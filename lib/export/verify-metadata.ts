@@ -0,0 +1,147 @@
+import {
+  parseEmbeddedBlocks,
+  type EmbeddedBlockFields,
+  type EmbeddedSource,
+} from "@/lib/image-processing/embedded-metadata";
+import type { FileVerification, ImageMetadata, VerificationIssue } from "./types";
+
+/**
+ * Round-trip verification: re-read each exported file with the import-side parser
+ * and compare every block the export wrote against the metadata it meant to write.
+ * Catches truncated IPTC datasets, corrupt APP13/APP1 segments and keywords split
+ * apart by the XPKeywords separator before a file reaches an agency.
+ */
+
+const BLOCK_LABELS: Record<EmbeddedSource, string> = {
+  exif: "EXIF",
+  iptc: "IPTC",
+  xmp: "XMP",
+};
+
+// Keep report cells readable when a long caption mismatches
+const MAX_QUOTED_LENGTH = 60;
+
+/** Normalise the way the parser does: trimmed, empty means absent. */
+function normalise(value: string | undefined): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+function quote(value: string | undefined): string {
+  if (value === undefined) return "(missing)";
+  const shown =
+    value.length > MAX_QUOTED_LENGTH ? `${value.slice(0, MAX_QUOTED_LENGTH - 1)}…` : value;
+  return `"${shown}"`;
+}
+
+function compareText(
+  block: EmbeddedSource,
+  field: "title" | "description",
+  expected: string | undefined,
+  actual: string | undefined
+): VerificationIssue | null {
+  const want = normalise(expected);
+  const got = normalise(actual);
+  if (want === got) return null;
+
+  const truncated = want && got && want.startsWith(got) ? " (truncated)" : "";
+  return {
+    block,
+    field,
+    message: `${BLOCK_LABELS[block]} ${field}${truncated}: expected ${quote(want)}, found ${quote(got)}`,
+  };
+}
+
+function compareKeywords(
+  block: EmbeddedSource,
+  expected: string[],
+  actual: string[]
+): VerificationIssue | null {
+  const want = expected.map((k) => k.trim()).filter(Boolean);
+  const wanted = new Set(want);
+  const found = new Set(actual);
+  const missing = want.filter((k) => !found.has(k));
+  const unexpected = actual.filter((k) => !wanted.has(k));
+  if (missing.length === 0 && unexpected.length === 0) return null;
+
+  const parts = [
+    missing.length > 0 && `missing ${missing.map((k) => quote(k)).join(", ")}`,
+    unexpected.length > 0 && `unexpected ${unexpected.map((k) => quote(k)).join(", ")}`,
+  ].filter(Boolean);
+  return {
+    block,
+    field: "keywords",
+    message: `${BLOCK_LABELS[block]} keywords: ${parts.join(" / ")}`,
+  };
+}
+
+function compareBlock(
+  block: EmbeddedSource,
+  metadata: ImageMetadata,
+  decoded: EmbeddedBlockFields | undefined
+): VerificationIssue[] {
+  if (!decoded) {
+    return [
+      { block, field: "block", message: `${BLOCK_LABELS[block]} block missing or unreadable` },
+    ];
+  }
+  return [
+    compareText(block, "title", metadata.title, decoded.title),
+    compareText(block, "description", metadata.description, decoded.caption),
+    compareKeywords(block, metadata.keywords, decoded.keywords),
+  ].filter((issue): issue is VerificationIssue => issue !== null);
+}
+
+/**
+ * Re-read an exported file and check each written block round-trips the title,
+ * description and keywords exactly.
+ */
+export function verifyEmbeddedMetadata(
+  filename: string,
+  data: ArrayBuffer,
+  metadata: ImageMetadata,
+  blocks: EmbeddedSource[]
+): FileVerification {
+  let decoded: ReturnType<typeof parseEmbeddedBlocks>;
+  try {
+    decoded = parseEmbeddedBlocks(new Uint8Array(data));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "File could not be parsed";
+    return {
+      filename,
+      status: "unreadable",
+      blocks,
+      issues: blocks.map((block) => ({ block, field: "block", message })),
+    };
+  }
+
+  const issues = blocks.flatMap((block) => compareBlock(block, metadata, decoded[block]));
+  return { filename, status: issues.length > 0 ? "mismatch" : "verified", blocks, issues };
+}
+
+function escapeCsv(value: string): string {
+  if (value.includes(",") || value.includes('"') || value.includes("\n")) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Per-file verification report for the export ZIP, one row per exported image.
+ */
+export function generateVerificationReport(entries: FileVerification[]): string {
+  const lines = [["Filename", "Status", "Blocks", "Issues"].join(",")];
+  for (const entry of entries) {
+    const details = entry.reason ? [entry.reason] : entry.issues.map((issue) => issue.message);
+    lines.push(
+      [
+        escapeCsv(entry.filename),
+        entry.status,
+        entry.blocks.map((block) => BLOCK_LABELS[block]).join(" "),
+        escapeCsv(details.join("; ")),
+      ].join(",")
+    );
+  }
+  // Add BOM for Excel compatibility
+  return "\uFEFF" + lines.join("\n");
+}
@@ -0,0 +1,332 @@
+import type { ImageMetadata } from "./types";
+
+/**
+ * XMP packet writer. Lightroom and modern agency ingesters read XMP and ignore the
+ * Windows XP* EXIF tags, so exports carry the same title/keywords/caption here:
+ * Dublin Core (dc:title, dc:description, dc:subject), Photoshop (Headline, DateCreated)
+ * and IPTC Core (alt text). The packet can be embedded in JPEG (APP1), PNG (iTXt) and
+ * WebP ("XMP " chunk), or written as a sidecar.
+ */
+
+const XMP_APP1_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+
+// A JPEG segment length is 16-bit; larger packets would need Extended XMP
+const MAX_APP1_PAYLOAD = 65533;
+
+const CREATOR_TOOL = "VisionBatch";
+
+function ascii(data: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...data.subarray(start, start + length));
+}
+
+function concat(parts: Uint8Array[]): ArrayBuffer {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    result.set(part, position);
+    position += part.length;
+  }
+  return result.buffer;
+}
+
+function escapeXml(value: string): string {
+  return (
+    value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      // Strip control characters XML 1.0 cannot represent
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+  );
+}
+
+function langAlt(name: string, value: string): string {
+  return [
+    `   <${name}>`,
+    "    <rdf:Alt>",
+    `     <rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li>`,
+    "    </rdf:Alt>",
+    `   </${name}>`,
+  ].join("\n");
+}
+
+function bag(name: string, values: string[]): string {
+  return [
+    `   <${name}>`,
+    "    <rdf:Bag>",
+    ...values.map((v) => `     <rdf:li>${escapeXml(v)}</rdf:li>`),
+    "    </rdf:Bag>",
+    `   </${name}>`,
+  ].join("\n");
+}
+
+/** Serialise metadata as a complete XMP packet (with xpacket wrapper), UTF-8 text. */
+export function buildXmpPacket(metadata: ImageMetadata, now: Date = new Date()): string {
+  const attributes = [
+    `xmp:CreatorTool="${CREATOR_TOOL}"`,
+    `xmp:MetadataDate="${now.toISOString()}"`,
+    metadata.title && `photoshop:Headline="${escapeXml(metadata.title)}"`,
+    metadata.capturedAt && `photoshop:DateCreated="${escapeXml(metadata.capturedAt)}"`,
+  ].filter(Boolean);
+
+  const altText = metadata.description || metadata.title;
+  const properties = [
+    metadata.title && langAlt("dc:title", metadata.title),
+    metadata.description && langAlt("dc:description", metadata.description),
+    metadata.keywords.length > 0 && bag("dc:subject", metadata.keywords),
+    altText && langAlt("Iptc4xmpCore:AltTextAccessibility", altText),
+  ].filter(Boolean);
+
+  return [
+    `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>`,
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '  <rdf:Description rdf:about=""',
+    '    xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    '    xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+    '    xmlns:photoshop="http://ns.adobe.com/photoshop/1.0/"',
+    '    xmlns:Iptc4xmpCore="http://iptc.org/std/Iptc4xmpCore/1.0/xmlns/"',
+    ...attributes.map((a) => `    ${a}`),
+    "  >",
+    ...properties,
+    "  </rdf:Description>",
+    " </rdf:RDF>",
+    "</x:xmpmeta>",
+    '<?xpacket end="w"?>',
+  ].join("\n");
+}
+
+/** Wrap a packet in a JPEG APP1 segment; null when it is too large for one segment. */
+function buildXmpApp1Segment(packet: string): Uint8Array | null {
+  const payload = new TextEncoder().encode(XMP_APP1_HEADER + packet);
+  if (payload.length > MAX_APP1_PAYLOAD) return null;
+
+  const segment = new Uint8Array(4 + payload.length);
+  const length = payload.length + 2; // length field includes itself
+  segment[0] = 0xff;
+  segment[1] = 0xe1;
+  segment[2] = (length >> 8) & 0xff;
+  segment[3] = length & 0xff;
+  segment.set(payload, 4);
+  return segment;
+}
+
+function isXmpSegment(data: Uint8Array, offset: number, length: number): boolean {
+  if (data[offset + 1] !== 0xe1 || length < XMP_APP1_HEADER.length + 2) return false;
+  for (let i = 0; i < XMP_APP1_HEADER.length; i++) {
+    if (data[offset + 4 + i] !== XMP_APP1_HEADER.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+/**
+ * Embed an XMP packet in a JPEG, replacing any XMP already there (e.g. from Lightroom)
+ * so readers never see two conflicting packets. Inserted after APP0/EXIF APP1.
+ * Returns the input unchanged when it isn't a JPEG or the packet doesn't fit.
+ */
+export function insertXmpIntoJpeg(jpegData: ArrayBuffer, packet: string): ArrayBuffer {
+  const data = new Uint8Array(jpegData);
+  if (data[0] !== 0xff || data[1] !== 0xd8) return jpegData;
+
+  const segment = buildXmpApp1Segment(packet);
+  if (!segment) {
+    console.warn("[XMP] Packet exceeds one APP1 segment; skipping embedded XMP");
+    return jpegData;
+  }
+
+  const kept: Uint8Array[] = [data.subarray(0, 2)];
+  let insertAt = -1;
+  let offset = 2;
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1]!;
+    if (marker === 0xda) break; // start of scan: the rest is image data
+    const length = ((data[offset + 2] ?? 0) << 8) | (data[offset + 3] ?? 0);
+    const isLeading = marker === 0xe0 || (marker === 0xe1 && !isXmpSegment(data, offset, length));
+    if (insertAt < 0 && !isLeading) insertAt = kept.length;
+    if (!isXmpSegment(data, offset, length)) kept.push(data.subarray(offset, offset + 2 + length));
+    offset += 2 + length;
+  }
+  kept.splice(insertAt < 0 ? kept.length : insertAt, 0, segment);
+  kept.push(data.subarray(offset));
+
+  return concat(kept);
+}
+
+// PNG: iTXt keyword Adobe registered for XMP; WebP: RIFF chunk id (note trailing space)
+const PNG_XMP_KEYWORD = "XML:com.adobe.xmp";
+const WEBP_XMP_CHUNK = "XMP ";
+const WEBP_VP8X_XMP_FLAG = 0x04;
+const WEBP_VP8X_ALPHA_FLAG = 0x10;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+let crcTable: Uint32Array | null = null;
+
+/** CRC-32 as used by PNG chunks (ISO 3309 polynomial). */
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** iTXt chunk: keyword\0, compression flag/method, empty language and translated keyword. */
+function buildPngXmpChunk(packet: string): Uint8Array {
+  const encoder = new TextEncoder();
+  const text = encoder.encode(packet);
+  const keyword = encoder.encode(PNG_XMP_KEYWORD);
+  const length = keyword.length + 5 + text.length;
+
+  const chunk = new Uint8Array(12 + length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, length);
+  chunk.set(encoder.encode("iTXt"), 4);
+  chunk.set(keyword, 8);
+  // keyword terminator, uncompressed, method 0, "" language, "" translated keyword
+  chunk.set([0, 0, 0, 0, 0], 8 + keyword.length);
+  chunk.set(text, 13 + keyword.length);
+  view.setUint32(8 + length, crc32(chunk.subarray(4, 8 + length)));
+  return chunk;
+}
+
+function isPngXmpChunk(data: Uint8Array, offset: number, length: number): boolean {
+  return (
+    ascii(data, offset + 4, 4) === "iTXt" &&
+    length > PNG_XMP_KEYWORD.length &&
+    ascii(data, offset + 8, PNG_XMP_KEYWORD.length + 1) === `${PNG_XMP_KEYWORD}\0`
+  );
+}
+
+/**
+ * Embed an XMP packet in a PNG as an iTXt chunk right after IHDR, replacing any
+ * existing XMP chunk. Returns null when the data isn't a well-formed PNG.
+ */
+export function insertXmpIntoPng(pngData: ArrayBuffer, packet: string): ArrayBuffer | null {
+  const data = new Uint8Array(pngData);
+  if (PNG_SIGNATURE.some((byte, i) => data[i] !== byte)) return null;
+
+  const view = new DataView(pngData);
+  const parts: Uint8Array[] = [data.subarray(0, 8)];
+  let offset = 8;
+  let sawHeader = false;
+  while (offset + 12 <= data.length) {
+    const length = view.getUint32(offset);
+    const end = offset + 12 + length;
+    if (end > data.length) return null;
+
+    const type = ascii(data, offset + 4, 4);
+    if (!isPngXmpChunk(data, offset, length)) parts.push(data.subarray(offset, end));
+    if (type === "IHDR") {
+      parts.push(buildPngXmpChunk(packet));
+      sawHeader = true;
+    }
+    offset = end;
+    if (type === "IEND") break;
+  }
+  return sawHeader ? concat(parts) : null;
+}
+
+/** Canvas size and alpha of a simple-format WebP, needed to synthesise a VP8X header. */
+function readWebpCanvas(
+  data: Uint8Array,
+  type: string,
+  offset: number
+): { width: number; height: number; alpha: boolean } | null {
+  const body = offset + 8;
+  if (type === "VP8 ") {
+    // Frame tag (3 bytes), start code 9D 01 2A, then 14-bit width/height
+    if (data[body + 3] !== 0x9d || data[body + 4] !== 0x01 || data[body + 5] !== 0x2a) return null;
+    const view = new DataView(data.buffer, data.byteOffset);
+    return {
+      width: view.getUint16(body + 6, true) & 0x3fff,
+      height: view.getUint16(body + 8, true) & 0x3fff,
+      alpha: false,
+    };
+  }
+  if (type === "VP8L") {
+    if (data[body] !== 0x2f) return null;
+    const bits = new DataView(data.buffer, data.byteOffset).getUint32(body + 1, true);
+    return {
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >> 14) & 0x3fff) + 1,
+      alpha: ((bits >> 28) & 1) === 1,
+    };
+  }
+  return null;
+}
+
+function buildWebpChunk(type: string, payload: Uint8Array): Uint8Array {
+  const padded = payload.length + (payload.length % 2);
+  const chunk = new Uint8Array(8 + padded);
+  chunk.set(new TextEncoder().encode(type), 0);
+  new DataView(chunk.buffer).setUint32(4, payload.length, true);
+  chunk.set(payload, 8);
+  return chunk;
+}
+
+/**
+ * Embed an XMP packet in a WebP as an "XMP " chunk, replacing any existing one.
+ * Simple (VP8/VP8L) files are upgraded to the extended format, since only a VP8X
+ * header can flag metadata chunks. Returns null when the data isn't a usable WebP.
+ */
+export function insertXmpIntoWebp(webpData: ArrayBuffer, packet: string): ArrayBuffer | null {
+  const data = new Uint8Array(webpData);
+  if (data.length < 20 || ascii(data, 0, 4) !== "RIFF" || ascii(data, 8, 4) !== "WEBP") {
+    return null;
+  }
+
+  const view = new DataView(webpData);
+  const chunks: Uint8Array[] = [];
+  let vp8x: Uint8Array | null = null;
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const type = ascii(data, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+    if (offset + 8 + size > data.length) return null;
+
+    if (type === "VP8X") {
+      vp8x = data.slice(offset, offset + 8 + size);
+    } else if (type !== WEBP_XMP_CHUNK) {
+      if (!vp8x && chunks.length === 0) {
+        const canvas = readWebpCanvas(data, type, offset);
+        if (!canvas) return null;
+        vp8x = new Uint8Array(18);
+        vp8x.set(new TextEncoder().encode("VP8X"), 0);
+        const header = new DataView(vp8x.buffer);
+        header.setUint32(4, 10, true);
+        if (canvas.alpha) vp8x[8] = WEBP_VP8X_ALPHA_FLAG;
+        header.setUint16(12, (canvas.width - 1) & 0xffff, true);
+        vp8x[14] = ((canvas.width - 1) >> 16) & 0xff;
+        header.setUint16(15, (canvas.height - 1) & 0xffff, true);
+        vp8x[17] = ((canvas.height - 1) >> 16) & 0xff;
+      }
+      chunks.push(data.subarray(offset, Math.min(end, data.length)));
+    }
+    offset = end;
+  }
+  if (!vp8x) return null;
+
+  vp8x[8] = (vp8x[8] ?? 0) | WEBP_VP8X_XMP_FLAG;
+  // Metadata chunks come last, after the image data
+  const body = [vp8x, ...chunks, buildWebpChunk(WEBP_XMP_CHUNK, new TextEncoder().encode(packet))];
+  const riffSize = 4 + body.reduce((sum, part) => sum + part.length, 0);
+
+  const header = new Uint8Array(12);
+  header.set(data.subarray(0, 12));
+  new DataView(header.buffer).setUint32(4, riffSize, true);
+  return concat([header, ...body]);
+}
+
+/** Sidecar filename Lightroom and Bridge pick up: same basename, `.xmp` extension. */
+export function xmpSidecarName(filename: string): string {
+  return `${filename.replace(/\.[^.]+$/, "")}.xmp`;
+}
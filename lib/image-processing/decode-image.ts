@@ -0,0 +1,98 @@
+import { needsDecoding, sniffImageFormat, type ImageFormat } from "./formats";
+
+export interface DecodeOptions {
+  /** Longest edge of the output; omit to keep full resolution. */
+  maxDimension?: number;
+  type?: "image/webp" | "image/jpeg" | "image/png";
+  quality?: number;
+}
+
+export interface DecodeRequest extends Required<Omit<DecodeOptions, "maxDimension">> {
+  id: number;
+  buffer: ArrayBuffer;
+  format: ImageFormat;
+  maxDimension?: number;
+}
+
+export type DecodeWorkerMessage =
+  | { type: "result"; id: number; blob: Blob }
+  | { type: "error"; id: number; message: string };
+
+// JPEG quality for exports converted from formats agencies don't accept
+const EXPORT_JPEG_QUALITY = 0.92;
+
+// One long-lived worker: libheif's wasm takes a moment to compile, so it is reused
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, { resolve: (blob: Blob) => void; reject: (e: Error) => void }>();
+
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  worker = new Worker(new URL("./decode.worker.ts", import.meta.url));
+  worker.onmessage = (event: MessageEvent<DecodeWorkerMessage>) => {
+    const message = event.data;
+    const request = pending.get(message.id);
+    if (!request) return;
+    pending.delete(message.id);
+    if (message.type === "result") request.resolve(message.blob);
+    else request.reject(new Error(message.message));
+  };
+  worker.onerror = (event) => {
+    // A crashed worker fails everything in flight; the next call starts a fresh one
+    const error = new Error(event.message || "Decode worker crashed");
+    pending.forEach((request) => request.reject(error));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+}
+
+/**
+ * Decode a HEIC/HEIF, TIFF or AVIF file into a WebP, JPEG or PNG blob in a Web Worker.
+ * Rejects when workers are unavailable or the browser can't decode the format.
+ */
+export async function decodeImage(
+  file: Blob,
+  format: ImageFormat,
+  options: DecodeOptions = {}
+): Promise<Blob> {
+  if (typeof Worker === "undefined") {
+    throw new Error("Web Workers are not supported in this environment");
+  }
+
+  const buffer = await file.arrayBuffer();
+  const request: DecodeRequest = {
+    id: nextRequestId++,
+    buffer,
+    format,
+    maxDimension: options.maxDimension,
+    type: options.type ?? "image/webp",
+    quality: options.quality ?? 0.8,
+  };
+
+  return new Promise((resolve, reject) => {
+    pending.set(request.id, { resolve, reject });
+    getWorker().postMessage(request, [buffer]);
+  });
+}
+
+/**
+ * The file to put in an export: JPEG/PNG/WebP originals pass through untouched,
+ * anything that needs decoding is converted to a full-resolution JPEG.
+ */
+export async function toExportableFile(file: File): Promise<File> {
+  const format = await sniffImageFormat(file);
+  if (!format || !needsDecoding(format)) return file;
+
+  const blob = await decodeImage(file, format, {
+    type: "image/jpeg",
+    quality: EXPORT_JPEG_QUALITY,
+  });
+  const basename = file.name.replace(/\.[^.]+$/, "");
+  return new File([blob], `${basename}.jpg`, {
+    type: "image/jpeg",
+    lastModified: file.lastModified,
+  });
+}
@@ -0,0 +1,93 @@
+/**
+ * Web Worker: decode HEIC/HEIF, TIFF and AVIF into WebP/JPEG off the main thread.
+ * Spawned by decodeImage(); the browser's own decoder is tried first, then libheif
+ * (HEIC) or UTIF (TIFF). Both are loaded on first use to keep the worker small.
+ */
+import { FORMAT_MIME_TYPES } from "./formats";
+import type { DecodeRequest, DecodeWorkerMessage } from "./decode-image";
+
+type Source = ImageBitmap | ImageData;
+
+function post(message: DecodeWorkerMessage): void {
+  self.postMessage(message);
+}
+
+async function decodeHeic(buffer: ArrayBuffer): Promise<ImageData> {
+  const { default: libheif } = await import("libheif-js/wasm-bundle");
+  const images = new libheif.HeifDecoder().decode(new Uint8Array(buffer));
+  const primary = images[0];
+  if (!primary) throw new Error("No image found in HEIF container");
+
+  try {
+    const width = primary.get_width();
+    const height = primary.get_height();
+    const target = new ImageData(width, height);
+    await new Promise<void>((resolve, reject) => {
+      primary.display(target, (result) =>
+        result ? resolve() : reject(new Error("HEIF decoding failed"))
+      );
+    });
+    return target;
+  } finally {
+    images.forEach((image) => image.free());
+  }
+}
+
+async function decodeTiff(buffer: ArrayBuffer): Promise<ImageData> {
+  const UTIF = await import("utif");
+  const [page] = UTIF.decode(buffer);
+  if (!page) throw new Error("No image found in TIFF file");
+  UTIF.decodeImage(buffer, page);
+  const rgba = UTIF.toRGBA8(page);
+  return new ImageData(new Uint8ClampedArray(rgba), page.width, page.height);
+}
+
+async function decode(request: DecodeRequest): Promise<Source> {
+  // Native first: covers AVIF in every current browser and HEIC/TIFF in Safari
+  try {
+    return await createImageBitmap(
+      new Blob([request.buffer], { type: FORMAT_MIME_TYPES[request.format] })
+    );
+  } catch {
+    if (request.format === "heic") return decodeHeic(request.buffer);
+    if (request.format === "tiff") return decodeTiff(request.buffer);
+    throw new Error(`This browser cannot decode ${request.format.toUpperCase()} images`);
+  }
+}
+
+async function encode(source: Source, request: DecodeRequest): Promise<Blob> {
+  const scale = request.maxDimension
+    ? Math.min(1, request.maxDimension / Math.max(source.width, source.height))
+    : 1;
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("OffscreenCanvas 2D context unavailable");
+
+  if (source instanceof ImageData) {
+    // putImageData ignores scaling, so stage full-size pixels in a bitmap first
+    const bitmap = await createImageBitmap(source);
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+  } else {
+    ctx.drawImage(source, 0, 0, width, height);
+    source.close();
+  }
+  return canvas.convertToBlob({ type: request.type, quality: request.quality });
+}
+
+self.addEventListener("message", async (event: MessageEvent<DecodeRequest>) => {
+  const request = event.data;
+  try {
+    const blob = await encode(await decode(request), request);
+    post({ type: "result", id: request.id, blob });
+  } catch (error) {
+    post({
+      type: "error",
+      id: request.id,
+      message: error instanceof Error ? error.message : "Image decoding failed",
+    });
+  }
+});
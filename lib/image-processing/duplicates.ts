@@ -0,0 +1,173 @@
+/**
+ * Duplicate and burst detection at upload time.
+ * Exact duplicates match on a SHA-256 of the file bytes; near duplicates and burst
+ * frames match on a 64-bit difference hash of the thumbnail.
+ */
+import { computeDifferenceHash, hammingDistance } from "@/lib/vision/fingerprint";
+
+/** Max differing dHash bits (of 64) for two images to count as near duplicates. */
+export const NEAR_DUPLICATE_DISTANCE = 6;
+
+/** Max differing dHash bits between consecutive frames of a burst. */
+export const BURST_HASH_DISTANCE = 14;
+
+/** Max gap between consecutive frames of a burst. */
+export const BURST_WINDOW_MS = 2_000;
+
+// dHash grid is 9×8; a slightly larger canvas lets the browser do the averaging
+const HASH_CANVAS_WIDTH = 36;
+const HASH_CANVAS_HEIGHT = 32;
+
+export interface DuplicateMatch {
+  /** "exact"/"near" match another image in the batch; "exported" matches export history. */
+  kind: "exact" | "near" | "exported";
+  /** Batch image it matches (absent for export-history matches). */
+  matchId?: string;
+  matchFilename: string;
+  /** dHash bit distance (0 for exact matches). */
+  distance: number;
+}
+
+export interface HashedImage {
+  id: string;
+  originalFilename: string;
+  contentHash?: string;
+  perceptualHash?: string;
+  /** Capture time in ms (EXIF when available, file lastModified otherwise). */
+  capturedAt?: number;
+  stackId?: string;
+}
+
+export interface ExportedImageRecord {
+  contentHash: string;
+  perceptualHash?: string;
+  filename: string;
+  exportedAt: number;
+}
+
+// ─── Hashing (browser) ───────────────────────────────────────────────────────
+
+/** SHA-256 of the file bytes as hex. */
+export async function computeContentHash(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/** Difference hash of a thumbnail data URL, drawn onto a small canvas. */
+export async function computePerceptualHash(dataUrl: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = HASH_CANVAS_WIDTH;
+      canvas.height = HASH_CANVAS_HEIGHT;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        reject(new Error("Could not get canvas context"));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, HASH_CANVAS_WIDTH, HASH_CANVAS_HEIGHT);
+      resolve(computeDifferenceHash(ctx.getImageData(0, 0, HASH_CANVAS_WIDTH, HASH_CANVAS_HEIGHT)));
+    };
+    img.onerror = () => reject(new Error("Failed to load thumbnail"));
+    img.src = dataUrl;
+  });
+}
+
+// ─── Detection (pure) ────────────────────────────────────────────────────────
+
+/**
+ * Burst runs: frames sorted by capture time where each frame is within BURST_WINDOW_MS
+ * and BURST_HASH_DISTANCE of the previous one. Returns runs of 2+ image ids, in order.
+ */
+export function findBurstStacks(images: HashedImage[]): string[][] {
+  const timed = images
+    .filter((img) => img.capturedAt !== undefined && img.perceptualHash)
+    .sort((a, b) => a.capturedAt! - b.capturedAt!);
+
+  const stacks: string[][] = [];
+  let run: HashedImage[] = [];
+  for (const image of timed) {
+    const previous = run[run.length - 1];
+    const continues =
+      previous !== undefined &&
+      image.capturedAt! - previous.capturedAt! <= BURST_WINDOW_MS &&
+      hammingDistance(image.perceptualHash!, previous.perceptualHash!) <= BURST_HASH_DISTANCE;
+    if (continues) {
+      run.push(image);
+    } else {
+      if (run.length > 1) stacks.push(run.map((img) => img.id));
+      run = [image];
+    }
+  }
+  if (run.length > 1) stacks.push(run.map((img) => img.id));
+  return stacks;
+}
+
+/** Stable id for a burst stack, derived from its first frame. */
+export function burstStackId(frameIds: string[]): string {
+  return `stack-${frameIds[0]}`;
+}
+
+/**
+ * Flag each incoming image that duplicates an earlier image in the batch (existing
+ * images first, then earlier incoming ones) or something already exported.
+ * Frames of the same burst stack are not flagged against each other — the stack handles them.
+ */
+export function findDuplicates(
+  incoming: HashedImage[],
+  existing: HashedImage[],
+  exported: ExportedImageRecord[]
+): Map<string, DuplicateMatch> {
+  const flags = new Map<string, DuplicateMatch>();
+  const seen = [...existing];
+
+  for (const image of incoming) {
+    const match = matchInBatch(image, seen) ?? matchInHistory(image, exported);
+    if (match) flags.set(image.id, match);
+    seen.push(image);
+  }
+  return flags;
+}
+
+function matchInBatch(image: HashedImage, candidates: HashedImage[]): DuplicateMatch | null {
+  let best: DuplicateMatch | null = null;
+  for (const other of candidates) {
+    if (image.stackId && image.stackId === other.stackId) continue;
+
+    if (image.contentHash && image.contentHash === other.contentHash) {
+      return {
+        kind: "exact",
+        matchId: other.id,
+        matchFilename: other.originalFilename,
+        distance: 0,
+      };
+    }
+    if (!image.perceptualHash || !other.perceptualHash) continue;
+    const distance = hammingDistance(image.perceptualHash, other.perceptualHash);
+    if (distance <= NEAR_DUPLICATE_DISTANCE && (!best || distance < best.distance)) {
+      best = { kind: "near", matchId: other.id, matchFilename: other.originalFilename, distance };
+    }
+  }
+  return best;
+}
+
+function matchInHistory(
+  image: HashedImage,
+  exported: ExportedImageRecord[]
+): DuplicateMatch | null {
+  let best: DuplicateMatch | null = null;
+  for (const record of exported) {
+    if (image.contentHash && image.contentHash === record.contentHash) {
+      return { kind: "exported", matchFilename: record.filename, distance: 0 };
+    }
+    if (!image.perceptualHash || !record.perceptualHash) continue;
+    const distance = hammingDistance(image.perceptualHash, record.perceptualHash);
+    if (distance <= NEAR_DUPLICATE_DISTANCE && (!best || distance < best.distance)) {
+      best = { kind: "exported", matchFilename: record.filename, distance };
+    }
+  }
+  return best;
+}
@@ -0,0 +1,483 @@
+/**
+ * Read the EXIF, IPTC and XMP metadata already embedded in an uploaded file.
+ * Lightroom and most DAMs write title/keywords/caption to all three blocks; XMP wins
+ * on conflicts (it is the only one that is reliably Unicode), then IPTC, then EXIF.
+ * Pure byte parsing — no DOM — so it runs in tests and workers alike.
+ */
+
+export interface EmbeddedMetadata {
+  title?: string;
+  caption?: string;
+  /** Keywords from every block, deduplicated case-insensitively, XMP order first. */
+  keywords: string[];
+  /** Capture time as recorded by the camera (ISO 8601, no time zone). */
+  capturedAt?: string;
+  gps?: { latitude: number; longitude: number; altitude?: number };
+  camera?: { make?: string; model?: string; lens?: string };
+  /** Blocks that contributed at least one value. */
+  sources: EmbeddedSource[];
+}
+
+export type EmbeddedSource = "exif" | "iptc" | "xmp";
+
+/** Descriptive fields of a single block, as read back by export verification. */
+export interface EmbeddedBlockFields {
+  title?: string;
+  caption?: string;
+  keywords: string[];
+}
+
+/** Existing keywords at which an image counts as already keyworded (and can skip tagging). */
+export const MIN_EMBEDDED_KEYWORDS = 5;
+
+// Camera firmware fills ImageDescription with these; they are not captions
+const PLACEHOLDER_DESCRIPTIONS = /^(olympus digital camera|sony dsc|dcim|default|image|untitled)$/i;
+
+interface RawBlocks {
+  exif?: Uint8Array;
+  iptc?: Uint8Array;
+  xmp?: string;
+}
+
+interface ParsedFields {
+  title?: string;
+  caption?: string;
+  keywords: string[];
+  capturedAt?: string;
+  gps?: EmbeddedMetadata["gps"];
+  make?: string;
+  model?: string;
+  lens?: string;
+  /** EXIF XPSubject; kept apart because ImageDescription wins as the caption */
+  subject?: string;
+}
+
+const utf8 = new TextDecoder("utf-8");
+
+/** True when the image carries enough keywords to be exported without paid tagging. */
+export function hasUsableKeywords(metadata: EmbeddedMetadata | undefined): boolean {
+  return (metadata?.keywords.length ?? 0) >= MIN_EMBEDDED_KEYWORDS;
+}
+
+/** Read and parse a file's embedded metadata; null when it has none worth keeping. */
+export async function readEmbeddedMetadata(file: Blob): Promise<EmbeddedMetadata | null> {
+  return parseEmbeddedMetadata(new Uint8Array(await file.arrayBuffer()));
+}
+
+/** Parse embedded metadata from raw file bytes (JPEG, PNG, WebP, TIFF, HEIC/AVIF). */
+export function parseEmbeddedMetadata(bytes: Uint8Array): EmbeddedMetadata | null {
+  const blocks = extractBlocks(bytes);
+  const sources: EmbeddedMetadata["sources"] = [];
+
+  const exif = blocks.exif ? parseExif(blocks.exif, blocks) : null;
+  const iptc = blocks.iptc ? parseIptc(blocks.iptc) : null;
+  const xmp = blocks.xmp ? parseXmp(blocks.xmp) : null;
+  if (exif && hasValues(exif)) sources.push("exif");
+  if (iptc && hasValues(iptc)) sources.push("iptc");
+  if (xmp && hasValues(xmp)) sources.push("xmp");
+  if (sources.length === 0) return null;
+
+  const ordered = [xmp, iptc, exif].filter((f): f is ParsedFields => f !== null);
+  const first = <K extends keyof ParsedFields>(key: K) =>
+    ordered.map((f) => f[key]).find((v) => v !== undefined) as ParsedFields[K] | undefined;
+
+  const make = first("make");
+  const model = first("model");
+  const lens = first("lens");
+  return {
+    title: first("title"),
+    caption: first("caption"),
+    keywords: dedupe(ordered.flatMap((f) => f.keywords)),
+    capturedAt: first("capturedAt"),
+    gps: first("gps"),
+    camera: make || model || lens ? { make, model, lens } : undefined,
+    sources,
+  };
+}
+
+/**
+ * Title, caption and keywords of each block present, without merging. Lets the
+ * export engine check every block it wrote rather than whichever one wins.
+ */
+export function parseEmbeddedBlocks(
+  bytes: Uint8Array
+): Partial<Record<EmbeddedSource, EmbeddedBlockFields>> {
+  const blocks = extractBlocks(bytes);
+  const exif = blocks.exif ? parseExif(blocks.exif, blocks) : null;
+  const result: Partial<Record<EmbeddedSource, EmbeddedBlockFields>> = {};
+  if (exif) {
+    result.exif = { title: exif.title, caption: exif.subject, keywords: exif.keywords };
+  }
+  if (blocks.iptc) {
+    const { title, caption, keywords } = parseIptc(blocks.iptc);
+    result.iptc = { title, caption, keywords };
+  }
+  if (blocks.xmp) {
+    const { title, caption, keywords } = parseXmp(blocks.xmp);
+    result.xmp = { title, caption, keywords };
+  }
+  return result;
+}
+
+function hasValues(fields: ParsedFields): boolean {
+  return Object.entries(fields).some(([key, value]) =>
+    key === "keywords" ? (value as string[]).length > 0 : value !== undefined
+  );
+}
+
+function dedupe(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter((value) => {
+    const key = value.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function clean(value: string | undefined): string | undefined {
+  const trimmed = value?.replace(/\0+$/, "").trim();
+  return trimmed ? trimmed : undefined;
+}
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+function indexOf(bytes: Uint8Array, needle: string, from = 0): number {
+  const first = needle.charCodeAt(0);
+  outer: for (let i = bytes.indexOf(first, from); i >= 0; i = bytes.indexOf(first, i + 1)) {
+    for (let j = 1; j < needle.length; j++) {
+      if (bytes[i + j] !== needle.charCodeAt(j)) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+// ─── Containers ──────────────────────────────────────────────────────────────
+
+const XMP_JPEG_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+
+function extractBlocks(bytes: Uint8Array): RawBlocks {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // JPEG: walk APPn segments up to start-of-scan
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    const blocks: RawBlocks = {};
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1]!;
+      if (marker === 0xda || marker === 0xd9) break;
+      const length = view.getUint16(offset + 2);
+      const start = offset + 4;
+      const segment = bytes.subarray(start, offset + 2 + length);
+      if (marker === 0xe1 && ascii(segment, 0, 6) === "Exif\0\0") {
+        blocks.exif ??= segment.subarray(6);
+      } else if (marker === 0xe1 && ascii(segment, 0, XMP_JPEG_HEADER.length) === XMP_JPEG_HEADER) {
+        blocks.xmp ??= utf8.decode(segment.subarray(XMP_JPEG_HEADER.length));
+      } else if (marker === 0xed && ascii(segment, 0, 14) === "Photoshop 3.0\0") {
+        blocks.iptc ??= findPhotoshopIptc(segment.subarray(14));
+      }
+      offset += 2 + length;
+    }
+    return blocks;
+  }
+
+  // PNG: eXIf chunk and uncompressed iTXt "XML:com.adobe.xmp"
+  if (ascii(bytes, 1, 3) === "PNG") {
+    const blocks: RawBlocks = {};
+    let offset = 8;
+    while (offset + 8 <= bytes.length) {
+      const length = view.getUint32(offset);
+      const type = ascii(bytes, offset + 4, 4);
+      const data = bytes.subarray(offset + 8, offset + 8 + length);
+      if (type === "eXIf") blocks.exif ??= data;
+      if (type === "iTXt" && ascii(data, 0, 18) === "XML:com.adobe.xmp\0" && data[18] === 0) {
+        // keyword\0, compression flag, method, language\0, translated keyword\0, text
+        let textStart = 20;
+        for (let nulls = 0; nulls < 2 && textStart < data.length; textStart++) {
+          if (data[textStart] === 0) nulls++;
+        }
+        blocks.xmp ??= utf8.decode(data.subarray(textStart));
+      }
+      if (type === "IEND") break;
+      offset += 12 + length;
+    }
+    return blocks;
+  }
+
+  // WebP: RIFF chunks "EXIF" and "XMP "
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP") {
+    const blocks: RawBlocks = {};
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+      const type = ascii(bytes, offset, 4);
+      const length = view.getUint32(offset + 4, true);
+      const data = bytes.subarray(offset + 8, offset + 8 + length);
+      if (type === "EXIF") {
+        blocks.exif ??= ascii(data, 0, 6) === "Exif\0\0" ? data.subarray(6) : data;
+      }
+      if (type === "XMP ") blocks.xmp ??= utf8.decode(data);
+      offset += 8 + length + (length % 2);
+    }
+    return blocks;
+  }
+
+  // TIFF: the file itself is an EXIF structure (XMP/IPTC live in IFD0 tags)
+  if (ascii(bytes, 0, 4) === "II*\0" || ascii(bytes, 0, 4) === "MM\0*") {
+    return { exif: bytes };
+  }
+
+  // HEIC/AVIF and anything else: scan for the raw blocks
+  const blocks: RawBlocks = {};
+  const exifAt = indexOf(bytes, "Exif\0\0");
+  if (exifAt >= 0) blocks.exif = bytes.subarray(exifAt + 6);
+  const xmpAt = indexOf(bytes, "<x:xmpmeta");
+  if (xmpAt >= 0) {
+    const end = indexOf(bytes, "</x:xmpmeta>", xmpAt);
+    if (end > 0) blocks.xmp = utf8.decode(bytes.subarray(xmpAt, end + 12));
+  }
+  return blocks;
+}
+
+/** Photoshop image resources: "8BIM", id, padded Pascal name, size, padded data. */
+function findPhotoshopIptc(resources: Uint8Array): Uint8Array | undefined {
+  const view = new DataView(resources.buffer, resources.byteOffset, resources.byteLength);
+  let offset = 0;
+  while (offset + 12 <= resources.length && ascii(resources, offset, 4) === "8BIM") {
+    const id = view.getUint16(offset + 4);
+    const nameLength = resources[offset + 6]!;
+    const sizeAt = offset + 6 + nameLength + 1 + ((nameLength + 1) % 2);
+    if (sizeAt + 4 > resources.length) return undefined;
+    const size = view.getUint32(sizeAt);
+    if (id === 0x0404) return resources.subarray(sizeAt + 4, sizeAt + 4 + size);
+    offset = sizeAt + 4 + size + (size % 2);
+  }
+  return undefined;
+}
+
+// ─── EXIF ────────────────────────────────────────────────────────────────────
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  /** Offset of the value bytes within the TIFF block. */
+  valueOffset: number;
+}
+
+function parseExif(tiff: Uint8Array, blocks: RawBlocks): ParsedFields {
+  const fields: ParsedFields = { keywords: [] };
+  if (tiff.length < 8) return fields;
+  const little = ascii(tiff, 0, 2) === "II";
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+
+  const readIfd = (offset: number): Map<number, IfdEntry> => {
+    const entries = new Map<number, IfdEntry>();
+    if (offset <= 0 || offset + 2 > tiff.length) return entries;
+    const count = view.getUint16(offset, little);
+    for (let i = 0; i < count; i++) {
+      const at = offset + 2 + i * 12;
+      if (at + 12 > tiff.length) break;
+      const type = view.getUint16(at + 2, little);
+      const valueCount = view.getUint32(at + 4, little);
+      const size = (TYPE_SIZES[type] ?? 1) * valueCount;
+      entries.set(view.getUint16(at, little), {
+        type,
+        count: valueCount,
+        valueOffset: size <= 4 ? at + 8 : view.getUint32(at + 8, little),
+      });
+    }
+    return entries;
+  };
+
+  const bytesOf = (entry: IfdEntry | undefined) =>
+    entry
+      ? tiff.subarray(
+          entry.valueOffset,
+          entry.valueOffset + (TYPE_SIZES[entry.type] ?? 1) * entry.count
+        )
+      : undefined;
+  const text = (entry: IfdEntry | undefined) => {
+    const raw = bytesOf(entry);
+    return raw ? clean(utf8.decode(raw)) : undefined;
+  };
+  // Windows XP* tags: UCS-2 little-endian, NUL terminated
+  const ucs2 = (entry: IfdEntry | undefined) => {
+    const raw = bytesOf(entry);
+    return raw ? clean(new TextDecoder("utf-16le").decode(raw)) : undefined;
+  };
+  const integer = (entry: IfdEntry | undefined) => {
+    if (!entry) return undefined;
+    if (entry.type === 3) return view.getUint16(entry.valueOffset, little);
+    if (entry.type === 4) return view.getUint32(entry.valueOffset, little);
+    return tiff[entry.valueOffset];
+  };
+  const rationals = (entry: IfdEntry | undefined) => {
+    if (!entry || entry.type !== 5) return [];
+    return Array.from({ length: entry.count }, (_, i) => {
+      const at = entry.valueOffset + i * 8;
+      const denominator = view.getUint32(at + 4, little);
+      return denominator ? view.getUint32(at, little) / denominator : 0;
+    });
+  };
+
+  const ifd0 = readIfd(view.getUint32(4, little));
+  const exifIfd = readIfd(integer(ifd0.get(0x8769)) ?? 0);
+  const gpsIfd = readIfd(integer(ifd0.get(0x8825)) ?? 0);
+
+  const description = text(ifd0.get(0x010e));
+  fields.subject = ucs2(ifd0.get(0x9c9f)); // XPSubject
+  fields.caption =
+    description && !PLACEHOLDER_DESCRIPTIONS.test(description) ? description : fields.subject;
+  fields.title = ucs2(ifd0.get(0x9c9b)); // XPTitle
+  fields.keywords = (ucs2(ifd0.get(0x9c9e)) ?? "") // XPKeywords
+    .split(";")
+    .map((k) => k.trim())
+    .filter(Boolean);
+  fields.make = text(ifd0.get(0x010f));
+  fields.model = text(ifd0.get(0x0110));
+  fields.lens = text(exifIfd.get(0xa434));
+
+  const taken = text(exifIfd.get(0x9003)) ?? text(exifIfd.get(0x9004)) ?? text(ifd0.get(0x0132));
+  const match = taken?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (match) {
+    const subSec = text(exifIfd.get(0x9291))?.replace(/\D/g, "");
+    fields.capturedAt =
+      `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}` +
+      (subSec ? `.${subSec.padEnd(3, "0").slice(0, 3)}` : "");
+  }
+
+  const lat = rationals(gpsIfd.get(0x0002));
+  const lon = rationals(gpsIfd.get(0x0004));
+  if (lat.length === 3 && lon.length === 3) {
+    const toDecimal = ([d, m, s]: number[]) => d! + m! / 60 + s! / 3600;
+    const latRef = text(gpsIfd.get(0x0001));
+    const lonRef = text(gpsIfd.get(0x0003));
+    const altitude = rationals(gpsIfd.get(0x0006))[0];
+    fields.gps = {
+      latitude: round6(toDecimal(lat) * (latRef === "S" ? -1 : 1)),
+      longitude: round6(toDecimal(lon) * (lonRef === "W" ? -1 : 1)),
+      ...(altitude !== undefined && {
+        altitude: integer(gpsIfd.get(0x0005)) === 1 ? -altitude : altitude,
+      }),
+    };
+  }
+
+  // TIFF files keep XMP (tag 700) and IPTC (tag 33723) in IFD0
+  const xmpBytes = bytesOf(ifd0.get(0x02bc));
+  if (xmpBytes && !blocks.xmp) blocks.xmp = utf8.decode(xmpBytes);
+  const iptcBytes = bytesOf(ifd0.get(0x83bb));
+  if (iptcBytes && !blocks.iptc) blocks.iptc = iptcBytes;
+
+  return fields;
+}
+
+function round6(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+// ─── IPTC-IIM ────────────────────────────────────────────────────────────────
+
+function parseIptc(iim: Uint8Array): ParsedFields {
+  const fields: ParsedFields = { keywords: [] };
+  let date: string | undefined;
+  let time: string | undefined;
+  let headline: string | undefined;
+
+  // Tag marker 0x1C, record, dataset, 2-byte length (extended lengths are skipped)
+  let offset = 0;
+  while (offset + 5 <= iim.length && iim[offset] === 0x1c) {
+    const record = iim[offset + 1];
+    const dataset = iim[offset + 2];
+    const length = (iim[offset + 3]! << 8) | iim[offset + 4]!;
+    if (length & 0x8000) break;
+    const value = clean(utf8.decode(iim.subarray(offset + 5, offset + 5 + length)));
+    offset += 5 + length;
+    if (record !== 2 || !value) continue;
+
+    if (dataset === 5) fields.title ??= value;
+    else if (dataset === 25) fields.keywords.push(value);
+    else if (dataset === 120) fields.caption ??= value;
+    else if (dataset === 105) headline ??= value;
+    else if (dataset === 55) date ??= value;
+    else if (dataset === 60) time ??= value;
+  }
+
+  fields.title ??= headline;
+  const d = date?.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (d) {
+    const t = time?.match(/^(\d{2})(\d{2})(\d{2})/);
+    fields.capturedAt = `${d[1]}-${d[2]}-${d[3]}T${t ? `${t[1]}:${t[2]}:${t[3]}` : "00:00:00"}`;
+  }
+  return fields;
+}
+
+// ─── XMP ─────────────────────────────────────────────────────────────────────
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/** Simple property: written as an attribute or as a leaf element. */
+function xmpValue(xml: string, name: string): string | undefined {
+  const attribute = xml.match(new RegExp(`\\s${name}="([^"]*)"`));
+  if (attribute) return clean(decodeXml(attribute[1]!));
+  const element = xml.match(new RegExp(`<${name}>([^<]*)</${name}>`));
+  return element ? clean(decodeXml(element[1]!)) : undefined;
+}
+
+/** rdf:Bag / rdf:Seq / rdf:Alt items of a property, in document order. */
+function xmpItems(xml: string, name: string): string[] {
+  const block = xml.match(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`));
+  if (!block) return [];
+  return Array.from(block[1]!.matchAll(/<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/g))
+    .map((m) => clean(decodeXml(m[1]!)))
+    .filter((v): v is string => v !== undefined);
+}
+
+/** Language alternative: x-default first, otherwise the first entry. */
+function xmpLangAlt(xml: string, name: string): string | undefined {
+  const block = xml.match(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`));
+  if (!block) return xmpValue(xml, name);
+  const preferred = block[1]!.match(/<rdf:li[^>]*xml:lang="x-default"[^>]*>([\s\S]*?)<\/rdf:li>/);
+  return preferred ? clean(decodeXml(preferred[1]!)) : xmpItems(xml, name)[0];
+}
+
+/** XMP GPS coordinates: "DDD,MM.mmmmR" or "DDD,MM,SSR". */
+function xmpCoordinate(value: string | undefined): number | undefined {
+  const match = value?.match(/^(\d+),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/i);
+  if (!match) return undefined;
+  const decimal = Number(match[1]) + Number(match[2]) / 60 + Number(match[3] ?? 0) / 3600;
+  return round6(/[SW]/i.test(match[4]!) ? -decimal : decimal);
+}
+
+function parseXmp(xml: string): ParsedFields {
+  const latitude = xmpCoordinate(xmpValue(xml, "exif:GPSLatitude"));
+  const longitude = xmpCoordinate(xmpValue(xml, "exif:GPSLongitude"));
+  const created =
+    xmpValue(xml, "exif:DateTimeOriginal") ??
+    xmpValue(xml, "photoshop:DateCreated") ??
+    xmpValue(xml, "xmp:CreateDate");
+
+  return {
+    title: xmpLangAlt(xml, "dc:title") ?? xmpValue(xml, "photoshop:Headline"),
+    caption: xmpLangAlt(xml, "dc:description"),
+    keywords: xmpItems(xml, "dc:subject"),
+    // Drop the zone designator so every source yields the same camera-local form
+    capturedAt: created?.replace(/(Z|[+-]\d{2}:\d{2})$/, ""),
+    gps: latitude !== undefined && longitude !== undefined ? { latitude, longitude } : undefined,
+    make: xmpValue(xml, "tiff:Make"),
+    model: xmpValue(xml, "tiff:Model"),
+    lens: xmpValue(xml, "exifEX:LensModel") ?? xmpValue(xml, "aux:Lens"),
+  };
+}
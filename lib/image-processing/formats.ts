@@ -0,0 +1,112 @@
+/**
+ * Image format detection by magic bytes.
+ * Browsers only render JPEG/PNG/WebP reliably; HEIC/HEIF, TIFF and AVIF are decoded
+ * in the decode worker (see ./decode-image.ts) and exported as JPEG.
+ */
+
+export type ImageFormat = "jpeg" | "png" | "webp" | "heic" | "tiff" | "avif";
+
+/** Formats an <img> element can load everywhere. */
+const NATIVE_FORMATS: readonly ImageFormat[] = ["jpeg", "png", "webp"];
+
+export const FORMAT_MIME_TYPES: Record<ImageFormat, string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  heic: "image/heic",
+  tiff: "image/tiff",
+  avif: "image/avif",
+};
+
+/** MIME types accepted at upload, including the aliases browsers report. */
+export const ACCEPTED_MIME_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/heic",
+  "image/heif",
+  "image/heic-sequence",
+  "image/heif-sequence",
+  "image/tiff",
+  "image/avif",
+];
+
+/** Extensions accepted at upload — some browsers report HEIC and TIFF with an empty MIME type. */
+export const ACCEPTED_EXTENSIONS = [
+  ".jpg",
+  ".jpeg",
+  ".png",
+  ".webp",
+  ".heic",
+  ".heif",
+  ".tif",
+  ".tiff",
+  ".avif",
+];
+
+const HEIC_BRANDS = ["heic", "heix", "heim", "heis", "hevc", "hevx", "mif1", "msf1"];
+const AVIF_BRANDS = ["avif", "avis"];
+
+/** Read the first N bytes of a File without loading it fully into memory. */
+async function readHeader(file: Blob, byteCount: number): Promise<Uint8Array> {
+  const buffer = await file.slice(0, byteCount).arrayBuffer();
+  return new Uint8Array(buffer);
+}
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+/**
+ * Identify an image format from its first bytes. Returns null for anything else.
+ * ISO-BMFF files (HEIC/AVIF) are told apart by their ftyp major and compatible brands.
+ */
+export function detectImageFormat(h: Uint8Array): ImageFormat | null {
+  // JPEG: FF D8 FF
+  if (h[0] === 0xff && h[1] === 0xd8 && h[2] === 0xff) return "jpeg";
+  // PNG: 89 50 4E 47
+  if (h[0] === 0x89 && h[1] === 0x50 && h[2] === 0x4e && h[3] === 0x47) return "png";
+  // WebP: "RIFF" xx xx xx xx "WEBP"
+  if (h.length >= 12 && ascii(h, 0, 4) === "RIFF" && ascii(h, 8, 4) === "WEBP") return "webp";
+  // TIFF: "II*\0" (little-endian) or "MM\0*" (big-endian)
+  if (
+    (h[0] === 0x49 && h[1] === 0x49 && h[2] === 0x2a && h[3] === 0x00) ||
+    (h[0] === 0x4d && h[1] === 0x4d && h[2] === 0x00 && h[3] === 0x2a)
+  ) {
+    return "tiff";
+  }
+  // ISO-BMFF: box size, "ftyp", major brand, minor version, compatible brands…
+  if (h.length >= 12 && ascii(h, 4, 4) === "ftyp") {
+    const major = ascii(h, 8, 4).toLowerCase();
+    const boxSize = Math.min(
+      ((h[0]! << 24) | (h[1]! << 16) | (h[2]! << 8) | h[3]!) >>> 0,
+      h.length
+    );
+    const compatible: string[] = [];
+    for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+      compatible.push(ascii(h, offset, 4).toLowerCase());
+    }
+    // "mif1" is the generic HEIF brand shared by both; AVIF lists "avif" as compatible
+    if (AVIF_BRANDS.includes(major) || compatible.some((b) => AVIF_BRANDS.includes(b))) {
+      return "avif";
+    }
+    if (HEIC_BRANDS.includes(major) || compatible.some((b) => HEIC_BRANDS.includes(b))) {
+      return "heic";
+    }
+  }
+  return null;
+}
+
+/** Sniff a file's real format from its header, ignoring its name and reported MIME type. */
+export async function sniffImageFormat(file: Blob): Promise<ImageFormat | null> {
+  try {
+    return detectImageFormat(await readHeader(file, 64));
+  } catch {
+    return null;
+  }
+}
+
+/** True when the format must go through the decode worker before canvas/export use. */
+export function needsDecoding(format: ImageFormat): boolean {
+  return !NATIVE_FORMATS.includes(format);
+}
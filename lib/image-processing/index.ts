@@ -1 +1,7 @@
 export * from "./resize";
+export * from "./precluster";
+export * from "./run-precluster";
+export * from "./duplicates";
+export * from "./formats";
+export * from "./decode-image";
+export * from "./embedded-metadata";
@@ -0,0 +1,165 @@
+/**
+ * Local pre-clustering: group visually similar thumbnails by fingerprint and pick a
+ * few representatives per group, so only those are sent to /api/vision/cluster.
+ * Pure — runs inside the pre-cluster Web Worker and is safe to call anywhere.
+ */
+import { visualDistance, type ImageFingerprint } from "@/lib/vision/fingerprint";
+import type { ImageClusterGroup } from "@/types";
+
+export interface PreClusterInput {
+  id: string;
+  fingerprint: ImageFingerprint;
+}
+
+export interface PreCluster {
+  /** Images sent to the vision API for this cluster; the first is the medoid. */
+  representativeIds: string[];
+  /** Every member (representatives included), keyed by its nearest representative. */
+  members: Record<string, string[]>;
+}
+
+export interface PreClusterOptions {
+  /** Max visualDistance (0–1) from a cluster's seed for an image to join it. */
+  threshold?: number;
+  /** One extra representative per this many members, so diverse clusters get a second look. */
+  imagesPerRepresentative?: number;
+  /** Representative cap per cluster. */
+  maxRepresentatives?: number;
+}
+
+// Conservative: a wrong merge here can't be split by the AI, a missed one costs one more image
+const DEFAULT_THRESHOLD = 0.2;
+const DEFAULT_IMAGES_PER_REPRESENTATIVE = 8;
+const DEFAULT_MAX_REPRESENTATIVES = 3;
+// The cluster route rejects requests with fewer than 2 images
+const MIN_TOTAL_REPRESENTATIVES = 2;
+
+/**
+ * Greedy single pass in input order: each image joins the cluster whose seed is
+ * nearest under the threshold. Representatives are the medoid plus farthest-point picks.
+ */
+export function preCluster(
+  inputs: PreClusterInput[],
+  options: PreClusterOptions = {}
+): PreCluster[] {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const perRepresentative = options.imagesPerRepresentative ?? DEFAULT_IMAGES_PER_REPRESENTATIVE;
+  const maxRepresentatives = options.maxRepresentatives ?? DEFAULT_MAX_REPRESENTATIVES;
+  const distance = (a: number, b: number) =>
+    visualDistance(inputs[a]!.fingerprint, inputs[b]!.fingerprint);
+
+  const clusters: number[][] = [];
+  for (let i = 0; i < inputs.length; i++) {
+    let best = -1;
+    let bestDistance = Infinity;
+    clusters.forEach((members, c) => {
+      const d = distance(i, members[0]!);
+      if (d < bestDistance) {
+        bestDistance = d;
+        best = c;
+      }
+    });
+    if (best >= 0 && bestDistance <= threshold) {
+      clusters[best]!.push(i);
+    } else {
+      clusters.push([i]);
+    }
+  }
+
+  const representatives = clusters.map((members) =>
+    pickRepresentatives(
+      members,
+      Math.min(maxRepresentatives, Math.ceil(members.length / perRepresentative)),
+      distance
+    )
+  );
+
+  // One big cluster would leave a single representative — add its farthest member
+  const total = representatives.reduce((sum, reps) => sum + reps.length, 0);
+  if (total < MIN_TOTAL_REPRESENTATIVES) {
+    const largest = clusters.findIndex((members) => members.length >= 2);
+    if (largest >= 0) {
+      representatives[largest] = pickRepresentatives(
+        clusters[largest]!,
+        MIN_TOTAL_REPRESENTATIVES,
+        distance
+      );
+    }
+  }
+
+  return clusters.map((members, c) => {
+    const reps = representatives[c]!;
+    const assigned: Record<string, string[]> = {};
+    for (const rep of reps) assigned[inputs[rep]!.id] = [];
+    for (const member of members) {
+      let nearest = reps[0]!;
+      for (const rep of reps) {
+        if (distance(member, rep) < distance(member, nearest)) nearest = rep;
+      }
+      assigned[inputs[nearest]!.id]!.push(inputs[member]!.id);
+    }
+    return { representativeIds: reps.map((r) => inputs[r]!.id), members: assigned };
+  });
+}
+
+/** Medoid first, then repeatedly the member farthest from every representative so far. */
+function pickRepresentatives(
+  members: number[],
+  count: number,
+  distance: (a: number, b: number) => number
+): number[] {
+  if (members.length <= 1) return [...members];
+
+  let medoid = members[0]!;
+  let medoidCost = Infinity;
+  for (const candidate of members) {
+    const cost = members.reduce((sum, other) => sum + distance(candidate, other), 0);
+    if (cost < medoidCost) {
+      medoidCost = cost;
+      medoid = candidate;
+    }
+  }
+
+  const picked = [medoid];
+  while (picked.length < Math.min(count, members.length)) {
+    let farthest = -1;
+    let farthestDistance = -1;
+    for (const candidate of members) {
+      if (picked.includes(candidate)) continue;
+      const nearest = Math.min(...picked.map((p) => distance(candidate, p)));
+      if (nearest > farthestDistance) {
+        farthestDistance = nearest;
+        farthest = candidate;
+      }
+    }
+    if (farthest < 0) break;
+    picked.push(farthest);
+  }
+  return picked;
+}
+
+/** Ids of every representative across all pre-clusters. */
+export function getRepresentativeIds(clusters: PreCluster[]): Set<string> {
+  return new Set(clusters.flatMap((c) => c.representativeIds));
+}
+
+/**
+ * Expand AI groups built from representatives back to every image: each representative
+ * brings along the members assigned to it.
+ */
+export function expandRepresentativeGroups<T extends ImageClusterGroup>(
+  groups: T[],
+  clusters: PreCluster[]
+): T[] {
+  const membersByRepresentative = new Map<string, string[]>();
+  for (const cluster of clusters) {
+    for (const [rep, members] of Object.entries(cluster.members)) {
+      membersByRepresentative.set(rep, members);
+    }
+  }
+
+  return groups.map((group) => ({
+    ...group,
+    imageIds: group.imageIds.flatMap((id) => membersByRepresentative.get(id) ?? [id]),
+  }));
+}
@@ -0,0 +1,43 @@
+/**
+ * Web Worker: decode thumbnails, fingerprint them and pre-cluster off the main thread.
+ * Spawned by runPreClustering(); see ./precluster.ts for the algorithm.
+ */
+import { computeFingerprint } from "@/lib/vision/fingerprint";
+import { preCluster, type PreClusterInput } from "./precluster";
+import type { PreClusterRequest, PreClusterWorkerMessage } from "./run-precluster";
+
+// Thumbnails are downscaled to this square before fingerprinting — plenty for an 8×8 hash
+const FINGERPRINT_SIZE = 64;
+
+function post(message: PreClusterWorkerMessage): void {
+  self.postMessage(message);
+}
+
+async function fingerprintDataUrl(dataUrl: string) {
+  const blob = await (await fetch(dataUrl)).blob();
+  const bitmap = await createImageBitmap(blob);
+  const canvas = new OffscreenCanvas(FINGERPRINT_SIZE, FINGERPRINT_SIZE);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("OffscreenCanvas 2D context unavailable");
+  ctx.drawImage(bitmap, 0, 0, FINGERPRINT_SIZE, FINGERPRINT_SIZE);
+  bitmap.close();
+  return computeFingerprint(ctx.getImageData(0, 0, FINGERPRINT_SIZE, FINGERPRINT_SIZE));
+}
+
+self.addEventListener("message", async (event: MessageEvent<PreClusterRequest>) => {
+  const { images, options } = event.data;
+  try {
+    const inputs: PreClusterInput[] = [];
+    for (let i = 0; i < images.length; i++) {
+      const image = images[i]!;
+      inputs.push({ id: image.id, fingerprint: await fingerprintDataUrl(image.dataUrl) });
+      post({ type: "progress", done: i + 1, total: images.length });
+    }
+    post({ type: "result", clusters: preCluster(inputs, options) });
+  } catch (error) {
+    post({
+      type: "error",
+      message: error instanceof Error ? error.message : "Pre-clustering failed",
+    });
+  }
+});
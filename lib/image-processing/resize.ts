@@ -1,8 +1,43 @@
+import { decodeImage } from "./decode-image";
+import {
+  ACCEPTED_EXTENSIONS,
+  ACCEPTED_MIME_TYPES,
+  needsDecoding,
+  sniffImageFormat,
+} from "./formats";
+
+// WebP keeps API payloads small; PNG when AI_PROVIDER=local, which analyses real pixels
+const API_IMAGE_TYPE =
+  process.env.NEXT_PUBLIC_API_IMAGE_TYPE === "image/png" ? "image/png" : "image/webp";
+
 /**
  * Resize image to max dimension before API calls
  * Per CLAUDE.md: All image processing must happen locally (resize < 512px) before API calls
+ * HEIC/HEIF, TIFF and AVIF are decoded in a worker first; the original File is untouched.
  */
 export async function resizeImageForApi(file: File, maxDimension: number = 512): Promise<string> {
+  const format = await sniffImageFormat(file);
+  if (format && needsDecoding(format)) {
+    const blob = await decodeImage(file, format, {
+      maxDimension,
+      type: API_IMAGE_TYPE,
+      quality: 0.8,
+    });
+    return blobToDataUrl(blob);
+  }
+  return resizeWithCanvas(file, maxDimension);
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("Failed to read decoded image"));
+    reader.readAsDataURL(blob);
+  });
+}
+
+function resizeWithCanvas(file: File, maxDimension: number): Promise<string> {
   return new Promise((resolve, reject) => {
     const img = new Image();
     const canvas = document.createElement("canvas");
@@ -29,8 +64,8 @@ export async function resizeImageForApi(file: File, maxDimension: number = 512):
       canvas.height = height;
       ctx.drawImage(img, 0, 0, width, height);
 
-      // Convert to WebP with 0.8 quality for optimal size
-      resolve(canvas.toDataURL("image/webp", 0.8));
+      // Convert to WebP with 0.8 quality for optimal size (quality is ignored for PNG)
+      resolve(canvas.toDataURL(API_IMAGE_TYPE, 0.8));
 
       // Cleanup
       URL.revokeObjectURL(img.src);
@@ -53,11 +88,13 @@ export async function createThumbnail(file: File, maxDimension: number = 256): P
 }
 
 /**
- * Validate that a file is an acceptable image type
+ * Validate that a file is an acceptable image type.
+ * Falls back to the extension because browsers often report HEIC and TIFF with no MIME type.
  */
 export function isValidImageType(file: File): boolean {
-  const validTypes = ["image/jpeg", "image/png", "image/webp"];
-  return validTypes.includes(file.type);
+  if (ACCEPTED_MIME_TYPES.includes(file.type)) return true;
+  const name = file.name.toLowerCase();
+  return !file.type && ACCEPTED_EXTENSIONS.some((ext) => name.endsWith(ext));
 }
 
 /**
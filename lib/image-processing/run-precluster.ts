@@ -0,0 +1,46 @@
+import type { PreCluster, PreClusterOptions } from "./precluster";
+
+export interface PreClusterRequest {
+  images: Array<{ id: string; dataUrl: string }>;
+  options?: PreClusterOptions;
+}
+
+export type PreClusterWorkerMessage =
+  | { type: "progress"; done: number; total: number }
+  | { type: "result"; clusters: PreCluster[] }
+  | { type: "error"; message: string };
+
+/**
+ * Run pre-clustering in a dedicated Web Worker so fingerprinting hundreds of
+ * thumbnails never blocks the UI. Rejects when workers are unavailable or the
+ * worker fails; callers fall back to sending every image.
+ */
+export function runPreClustering(
+  request: PreClusterRequest,
+  onProgress?: (done: number, total: number) => void
+): Promise<PreCluster[]> {
+  if (typeof Worker === "undefined") {
+    return Promise.reject(new Error("Web Workers are not supported in this environment"));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./precluster.worker.ts", import.meta.url));
+
+    worker.onmessage = (event: MessageEvent<PreClusterWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.(message.done, message.total);
+        return;
+      }
+      worker.terminate();
+      if (message.type === "result") resolve(message.clusters);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || "Pre-cluster worker crashed"));
+    };
+
+    worker.postMessage(request);
+  });
+}
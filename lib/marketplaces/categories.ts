@@ -0,0 +1,59 @@
+import type { MarketplaceCategory } from "./types";
+
+/**
+ * Official agency category lists. Codes are what the upload CSV expects:
+ * Adobe Stock takes the number, Shutterstock the category name itself.
+ */
+
+export const ADOBE_STOCK_CATEGORIES: MarketplaceCategory[] = [
+  { code: "1", label: "Animals" },
+  { code: "2", label: "Buildings and Architecture" },
+  { code: "3", label: "Business" },
+  { code: "4", label: "Drinks" },
+  { code: "5", label: "The Environment" },
+  { code: "6", label: "States of Mind" },
+  { code: "7", label: "Food" },
+  { code: "8", label: "Graphic Resources" },
+  { code: "9", label: "Hobbies and Leisure" },
+  { code: "10", label: "Industry" },
+  { code: "11", label: "Landscapes" },
+  { code: "12", label: "Lifestyle" },
+  { code: "13", label: "People" },
+  { code: "14", label: "Plants and Flowers" },
+  { code: "15", label: "Culture and Religion" },
+  { code: "16", label: "Science" },
+  { code: "17", label: "Social Issues" },
+  { code: "18", label: "Sports" },
+  { code: "19", label: "Technology" },
+  { code: "20", label: "Transport" },
+  { code: "21", label: "Travel" },
+];
+
+export const SHUTTERSTOCK_CATEGORIES: MarketplaceCategory[] = [
+  "Abstract",
+  "Animals/Wildlife",
+  "Arts",
+  "Backgrounds/Textures",
+  "Beauty/Fashion",
+  "Buildings/Landmarks",
+  "Business/Finance",
+  "Celebrities",
+  "Education",
+  "Food and drink",
+  "Healthcare/Medical",
+  "Holidays",
+  "Industrial",
+  "Interiors",
+  "Miscellaneous",
+  "Nature",
+  "Objects",
+  "Parks/Outdoor",
+  "People",
+  "Religion",
+  "Science",
+  "Signs/Symbols",
+  "Sports/Recreation",
+  "Technology",
+  "Transportation",
+  "Vintage",
+].map((name) => ({ code: name, label: name }));
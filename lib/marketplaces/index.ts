@@ -0,0 +1,133 @@
+import { MARKETPLACE_PROFILES } from "./profiles";
+import type { MarketplaceField, MarketplaceId, MarketplaceProfile } from "./types";
+
+export type * from "./types";
+
+/**
+ * Marketplace registry. Routes, prompts and exporters look marketplaces up here
+ * instead of branching on ids, so a new profile is picked up everywhere.
+ */
+
+export const MARKETPLACE_IDS = Object.keys(MARKETPLACE_PROFILES) as MarketplaceId[];
+
+export function isMarketplaceId(value: unknown): value is MarketplaceId {
+  return typeof value === "string" && Object.hasOwn(MARKETPLACE_PROFILES, value);
+}
+
+/**
+ * Get a marketplace profile by id
+ */
+export function getMarketplaceProfile(marketplace: string): MarketplaceProfile {
+  if (!isMarketplaceId(marketplace)) {
+    throw new Error(`Unknown marketplace: ${marketplace}`);
+  }
+  return MARKETPLACE_PROFILES[marketplace];
+}
+
+/** Every registered profile, in registry order (for pickers and validation messages). */
+export function listMarketplaceProfiles(): MarketplaceProfile[] {
+  return MARKETPLACE_IDS.map((id) => MARKETPLACE_PROFILES[id]);
+}
+
+/**
+ * Human-readable requirements for the tooltip: numeric limits plus house rules
+ */
+export function describeMarketplaceRequirements(profile: MarketplaceProfile): string[] {
+  const { limits } = profile;
+  const tagRange =
+    limits.minTags === limits.maxTags
+      ? `Keywords: Exactly ${limits.maxTags} required`
+      : `Keywords: ${limits.minTags}-${limits.maxTags} required`;
+  const fieldLabel = (field: MarketplaceField) => field[0]!.toUpperCase() + field.slice(1);
+
+  return [
+    ...(profile.forbiddenFields.includes("title")
+      ? []
+      : [`Title: Max ${limits.maxTitleLength} characters`]),
+    tagRange,
+    `Each keyword: Max ${limits.maxTagLength} characters`,
+    `Required: ${profile.requiredFields.map(fieldLabel).join(", ")}`,
+    ...(profile.forbiddenFields.length > 0
+      ? [`Not accepted: ${profile.forbiddenFields.map(fieldLabel).join(", ")}`]
+      : []),
+    ...profile.notes,
+  ];
+}
+
+/**
+ * Map model or user input (codes or category names) onto the marketplace's official
+ * category codes. Unknown values are dropped; the result respects maxCategories.
+ */
+export function resolveCategoryCodes(
+  values: readonly (string | number)[],
+  marketplace: string
+): string[] {
+  const { categories, limits } = getMarketplaceProfile(marketplace);
+  const codes: string[] = [];
+  for (const value of values) {
+    const key = String(value).trim().toLowerCase();
+    const match = categories.find(
+      (c) => c.code.toLowerCase() === key || c.label.toLowerCase() === key
+    );
+    if (match && !codes.includes(match.code)) codes.push(match.code);
+  }
+  return codes.slice(0, limits.maxCategories);
+}
+
+/**
+ * Display label for a category code ("11" → "Landscapes"); unknown codes are shown as-is
+ */
+export function getCategoryLabel(code: string, marketplace: string): string {
+  return getMarketplaceProfile(marketplace).categories.find((c) => c.code === code)?.label ?? code;
+}
+
+/** Title, description and keywords of one listing, before or after fitting. */
+export interface ListingText {
+  title: string;
+  description: string;
+  keywords: string[];
+}
+
+/**
+ * Truncate text to a marketplace limit, marking the cut with an ellipsis
+ */
+function truncateText(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  return text.slice(0, maxLength - 3) + "...";
+}
+
+/**
+ * Fit listing text to a marketplace: length and keyword limits applied,
+ * fields the marketplace does not accept emptied
+ */
+export function fitToMarketplace(text: ListingText, marketplace: string): ListingText {
+  const { limits, forbiddenFields } = getMarketplaceProfile(marketplace);
+  return {
+    title: forbiddenFields.includes("title") ? "" : truncateText(text.title, limits.maxTitleLength),
+    description: forbiddenFields.includes("description")
+      ? ""
+      : truncateText(text.description, limits.maxDescriptionLength),
+    keywords: forbiddenFields.includes("keywords") ? [] : validateTags(text.keywords, marketplace),
+  };
+}
+
+/**
+ * Validate tags against marketplace constraints
+ */
+export function validateTags(tags: string[], marketplace: string): string[] {
+  const { limits } = getMarketplaceProfile(marketplace);
+  return tags
+    .slice(0, limits.maxTags)
+    .map((tag) => tag.slice(0, limits.maxTagLength).trim())
+    .filter((tag) => tag.length > 0);
+}
+
+/**
+ * Validate title against marketplace constraints
+ */
+export function validateTitle(title: string, marketplace: string): string {
+  const { limits } = getMarketplaceProfile(marketplace);
+  return title.slice(0, limits.maxTitleLength).trim();
+}
+
+export { MARKETPLACE_PROFILES };
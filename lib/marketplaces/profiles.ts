@@ -0,0 +1,374 @@
+import { ADOBE_STOCK_CATEGORIES, SHUTTERSTOCK_CATEGORIES } from "./categories";
+import type { ComplianceRuleId, MarketplaceId, MarketplaceProfile } from "./types";
+
+/**
+ * Built-in marketplace profiles. Adding a marketplace means adding its id to the
+ * Prisma `Marketplace` enum and a profile here; `satisfies` fails the type-check
+ * until both agree.
+ */
+
+function stockClusterBrief(agency: string): string {
+  return `You are an automated Metadata Engine for ${agency}.
+Your job is to group images into submission batches and generate commercial metadata.
+Buyers search by literal subject, so groups must be visually and semantically coherent.`;
+}
+
+const FILENAME = { header: "Filename", field: "filename" } as const;
+const YES_NO = ["yes", "no"] as const;
+
+// Agencies also reject keywords about the file itself; shops sell products, not files
+const STOCK_COMPLIANCE: ComplianceRuleId[] = [
+  "trademarks",
+  "celebrities",
+  "meta-keywords",
+  "spam",
+  "keyword-stuffing",
+];
+const SHOP_COMPLIANCE: ComplianceRuleId[] = [
+  "trademarks",
+  "celebrities",
+  "spam",
+  "keyword-stuffing",
+];
+
+export const MARKETPLACE_PROFILES = {
+  ETSY: {
+    id: "ETSY",
+    name: "Etsy",
+    limits: {
+      maxTitleLength: 140,
+      maxDescriptionLength: 5000,
+      minTags: 13,
+      maxTags: 13,
+      maxTagLength: 20,
+      maxCategories: 0,
+    },
+    // Bulk-listing layout (Etsy's own listing export, plus attributes) read by listing tools
+    csv: {
+      columns: [
+        { header: "TITLE", field: "title" },
+        { header: "DESCRIPTION", field: "description" },
+        { header: "PRICE", field: "price" },
+        { header: "QUANTITY", field: "quantity" },
+        { header: "TAGS", field: "keywords" },
+        { header: "MATERIALS", field: "materials" },
+        { header: "OCCASION", field: "occasion" },
+        { header: "STYLE", field: "style" },
+        ...Array.from({ length: 10 }, (_, index) => ({
+          header: `IMAGE${index + 1}`,
+          field: "image" as const,
+          index,
+        })),
+      ],
+      rowPer: "listing",
+      maxImages: 10,
+      separator: ",",
+      keywordSeparator: ",",
+      booleanValues: YES_NO,
+    },
+    categories: [],
+    requiredFields: ["title", "keywords"],
+    forbiddenFields: [],
+    complianceRules: [...SHOP_COMPLIANCE, "prohibited-terms"],
+    promptStrategy: "etsy",
+    clusterBrief: `You are an automated catalog assistant for an Etsy shop.
+Your job is to group product photos into shop sections and generate listing metadata.
+Group by product type first, then by style or collection.`,
+    notes: [
+      "No special characters in tags",
+      "Each group exports as one listing of up to 10 photos",
+      "Materials: up to 13, 45 characters each",
+    ],
+  },
+  ADOBE_STOCK: {
+    id: "ADOBE_STOCK",
+    name: "Adobe Stock",
+    limits: {
+      maxTitleLength: 200,
+      maxDescriptionLength: 200,
+      minTags: 5,
+      maxTags: 49,
+      maxTagLength: 50,
+      maxCategories: 1,
+    },
+    csv: {
+      columns: [
+        FILENAME,
+        { header: "Title", field: "title" },
+        { header: "Keywords", field: "keywords" },
+        { header: "Category", field: "category" },
+        { header: "Releases", field: "releases" },
+      ],
+      separator: ",",
+      keywordSeparator: ", ",
+      booleanValues: YES_NO,
+    },
+    categories: ADOBE_STOCK_CATEGORIES,
+    requiredFields: ["title", "keywords"],
+    forbiddenFields: [],
+    complianceRules: STOCK_COMPLIANCE,
+    // No description column: Adobe wants the editorial caption as the title
+    editorialCaptionField: "title",
+    promptStrategy: "stock",
+    clusterBrief: stockClusterBrief("Adobe Stock"),
+    notes: ["Keywords ordered by relevance; the first 10 weigh most"],
+  },
+  SHUTTERSTOCK: {
+    id: "SHUTTERSTOCK",
+    name: "Shutterstock",
+    limits: {
+      maxTitleLength: 200,
+      maxDescriptionLength: 200,
+      minTags: 7,
+      maxTags: 50,
+      maxTagLength: 50,
+      maxCategories: 2,
+    },
+    csv: {
+      columns: [
+        FILENAME,
+        { header: "Description", field: "description" },
+        { header: "Keywords", field: "keywords" },
+        { header: "Categories", field: "category" },
+        { header: "Editorial", field: "editorial" },
+        { header: "Mature content", field: "mature" },
+        { header: "Illustration", field: "illustration" },
+      ],
+      separator: ",",
+      keywordSeparator: ",",
+      booleanValues: YES_NO,
+    },
+    categories: SHUTTERSTOCK_CATEGORIES,
+    requiredFields: ["description", "keywords"],
+    forbiddenFields: ["title"],
+    complianceRules: STOCK_COMPLIANCE,
+    promptStrategy: "stock",
+    clusterBrief: stockClusterBrief("Shutterstock"),
+    notes: ["The description doubles as the title; write it as a sentence"],
+  },
+  GETTY_ISTOCK: {
+    id: "GETTY_ISTOCK",
+    name: "Getty Images / iStock",
+    limits: {
+      maxTitleLength: 100,
+      maxDescriptionLength: 250,
+      minTags: 5,
+      maxTags: 50,
+      maxTagLength: 50,
+      maxCategories: 0,
+    },
+    csv: {
+      columns: [
+        FILENAME,
+        { header: "Title", field: "title" },
+        { header: "Description", field: "description" },
+        { header: "Keywords", field: "keywords" },
+      ],
+      separator: ",",
+      keywordSeparator: ",",
+      booleanValues: YES_NO,
+    },
+    categories: [],
+    requiredFields: ["title", "description", "keywords"],
+    forbiddenFields: [],
+    complianceRules: STOCK_COMPLIANCE,
+    promptStrategy: "stock",
+    clusterBrief: stockClusterBrief("Getty Images and iStock"),
+    notes: ["Keywords are mapped to Getty's controlled vocabulary on upload"],
+  },
+  POND5: {
+    id: "POND5",
+    name: "Pond5",
+    limits: {
+      maxTitleLength: 100,
+      maxDescriptionLength: 200,
+      minTags: 5,
+      maxTags: 50,
+      maxTagLength: 50,
+      maxCategories: 0,
+    },
+    csv: {
+      columns: [
+        FILENAME,
+        { header: "Title", field: "title" },
+        { header: "Description", field: "description" },
+        { header: "Keywords", field: "keywords" },
+      ],
+      separator: ",",
+      keywordSeparator: " ",
+      booleanValues: YES_NO,
+    },
+    categories: [],
+    requiredFields: ["title", "keywords"],
+    forbiddenFields: [],
+    complianceRules: STOCK_COMPLIANCE,
+    promptStrategy: "stock",
+    clusterBrief: stockClusterBrief("Pond5"),
+    notes: ["Keywords are space-separated; multi-word keywords are split"],
+  },
+  ALAMY: {
+    id: "ALAMY",
+    name: "Alamy",
+    limits: {
+      maxTitleLength: 200,
+      maxDescriptionLength: 2000,
+      minTags: 5,
+      maxTags: 50,
+      maxTagLength: 50,
+      maxCategories: 0,
+    },
+    csv: {
+      columns: [
+        FILENAME,
+        { header: "Caption", field: "description" },
+        { header: "Tags", field: "keywords" },
+      ],
+      separator: ",",
+      keywordSeparator: ", ",
+      booleanValues: YES_NO,
+    },
+    categories: [],
+    requiredFields: ["description", "keywords"],
+    forbiddenFields: [],
+    complianceRules: STOCK_COMPLIANCE,
+    promptStrategy: "stock",
+    clusterBrief: stockClusterBrief("Alamy"),
+    notes: ["Caption is the searchable description; put the main subject first"],
+  },
+  DREAMSTIME: {
+    id: "DREAMSTIME",
+    name: "Dreamstime",
+    limits: {
+      maxTitleLength: 115,
+      maxDescriptionLength: 1000,
+      minTags: 5,
+      maxTags: 80,
+      maxTagLength: 50,
+      maxCategories: 3,
+    },
+    csv: {
+      columns: [
+        FILENAME,
+        { header: "Image Name", field: "title" },
+        { header: "Description", field: "description" },
+        { header: "Category 1", field: "category", index: 0 },
+        { header: "Category 2", field: "category", index: 1 },
+        { header: "Category 3", field: "category", index: 2 },
+        { header: "keywords", field: "keywords" },
+        // Licensing: royalty-free only, extended licenses on, no sale-of-rights
+        { header: "Free", field: "constant", value: "0" },
+        { header: "W-EL", field: "constant", value: "1" },
+        { header: "P-EL", field: "constant", value: "1" },
+        { header: "SR-EL", field: "constant", value: "0" },
+        { header: "SR-Price", field: "constant", value: "0" },
+        { header: "Editorial", field: "editorial" },
+        { header: "MR doc Ids", field: "releases", releaseType: "model" },
+        { header: "Pr Docs", field: "releases", releaseType: "property" },
+      ],
+      separator: ",",
+      keywordSeparator: ",",
+      booleanValues: ["1", "0"],
+    },
+    // Dreamstime's category tree has hundreds of numeric ids; pick them on upload
+    categories: [],
+    requiredFields: ["title", "description", "keywords"],
+    forbiddenFields: [],
+    complianceRules: STOCK_COMPLIANCE,
+    promptStrategy: "stock",
+    clusterBrief: stockClusterBrief("Dreamstime"),
+    notes: ["Description must differ from the title"],
+  },
+  RF123: {
+    id: "RF123",
+    name: "123RF",
+    limits: {
+      maxTitleLength: 200,
+      maxDescriptionLength: 200,
+      minTags: 5,
+      maxTags: 50,
+      maxTagLength: 50,
+      maxCategories: 0,
+    },
+    csv: {
+      columns: [
+        FILENAME,
+        { header: "Description", field: "description" },
+        { header: "Keywords", field: "keywords" },
+      ],
+      separator: ",",
+      keywordSeparator: ",",
+      booleanValues: YES_NO,
+    },
+    categories: [],
+    requiredFields: ["description", "keywords"],
+    forbiddenFields: ["title"],
+    complianceRules: STOCK_COMPLIANCE,
+    promptStrategy: "stock",
+    clusterBrief: stockClusterBrief("123RF"),
+    notes: [],
+  },
+  FREEPIK: {
+    id: "FREEPIK",
+    name: "Freepik",
+    limits: {
+      maxTitleLength: 100,
+      maxDescriptionLength: 200,
+      minTags: 5,
+      maxTags: 50,
+      maxTagLength: 50,
+      maxCategories: 0,
+    },
+    csv: {
+      columns: [
+        { header: "File name", field: "filename" },
+        { header: "Title", field: "title" },
+        { header: "Keywords", field: "keywords" },
+        // AI-generation disclosure; blank for photographs
+        { header: "Prompt", field: "constant", value: "" },
+        { header: "Model", field: "constant", value: "" },
+      ],
+      separator: ";",
+      keywordSeparator: ", ",
+      booleanValues: YES_NO,
+    },
+    categories: [],
+    requiredFields: ["title", "keywords"],
+    forbiddenFields: ["description"],
+    complianceRules: STOCK_COMPLIANCE,
+    promptStrategy: "stock",
+    clusterBrief: stockClusterBrief("Freepik"),
+    notes: ["Semicolon-separated CSV"],
+  },
+  REDBUBBLE: {
+    id: "REDBUBBLE",
+    name: "Redbubble",
+    limits: {
+      maxTitleLength: 50,
+      maxDescriptionLength: 500,
+      minTags: 1,
+      maxTags: 15,
+      maxTagLength: 30,
+      maxCategories: 0,
+    },
+    csv: {
+      columns: [
+        FILENAME,
+        { header: "Title", field: "title" },
+        { header: "Tags", field: "keywords" },
+        { header: "Description", field: "description" },
+      ],
+      separator: ",",
+      keywordSeparator: ", ",
+      booleanValues: YES_NO,
+    },
+    categories: [],
+    requiredFields: ["title", "keywords"],
+    forbiddenFields: [],
+    complianceRules: SHOP_COMPLIANCE,
+    promptStrategy: "etsy",
+    clusterBrief: `You are an automated catalog assistant for a Redbubble artist shop.
+Your job is to group designs into collections and generate listing metadata.
+Group by design theme first, then by style.`,
+    notes: ["Tags are buyer search phrases, like Etsy"],
+  },
+} satisfies Record<MarketplaceId, MarketplaceProfile>;
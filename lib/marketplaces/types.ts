@@ -0,0 +1,103 @@
+import type { Marketplace } from "@prisma/client";
+import type { StrategyType } from "@/lib/vision/types";
+import type { ReleaseType } from "@/types";
+
+/** Marketplace identifier; the Prisma `Marketplace` enum is the source of the id list. */
+export type MarketplaceId = Marketplace;
+
+/** Listing fields a marketplace can require or reject. */
+export type MarketplaceField = "title" | "description" | "keywords";
+
+/**
+ * Compliance checks a marketplace enforces (see lib/compliance):
+ * - trademarks: brand and trademarked product names
+ * - celebrities: names of famous people (publicity rights)
+ * - prohibited-terms: Etsy's banned replica and medical-claim wording
+ * - meta-keywords: words describing the file rather than the subject ("stock photo", "4k")
+ * - spam: promotional phrases, shouting, links and contact details
+ * - keyword-stuffing: one word repeated across the title, description or tags
+ */
+export type ComplianceRuleId =
+  | "trademarks"
+  | "celebrities"
+  | "prohibited-terms"
+  | "meta-keywords"
+  | "spam"
+  | "keyword-stuffing";
+
+/** Per-file values an agency CSV column can be filled from. */
+export type MarketplaceCsvField =
+  | "filename"
+  | MarketplaceField
+  | "editorial"
+  | "mature"
+  | "illustration";
+
+/** Per-listing values, for marketplaces whose CSV has one row per listing. */
+export type MarketplaceListingField = "materials" | "occasion" | "style" | "price" | "quantity";
+
+export type MarketplaceCsvColumn =
+  | { header: string; field: MarketplaceCsvField }
+  | { header: string; field: MarketplaceListingField }
+  /** One listing photo by position (0 = the thumbnail), as its filename */
+  | { header: string; field: "image"; index: number }
+  /** Category codes; `index` picks one for agencies with a column per category */
+  | { header: string; field: "category"; index?: number }
+  /** Release names; `releaseType` keeps one kind for agencies with a column per kind */
+  | { header: string; field: "releases"; releaseType?: ReleaseType }
+  /** Fixed value the uploader expects (pricing flags, unused columns) */
+  | { header: string; field: "constant"; value: string };
+
+export interface MarketplaceCsvSchema {
+  columns: MarketplaceCsvColumn[];
+  /** "listing": one row per group with its photos in image columns; defaults to one per file */
+  rowPer?: "file" | "listing";
+  /** Photos a listing row can reference (listing CSVs only) */
+  maxImages?: number;
+  /** Column delimiter of the upload CSV */
+  separator: "," | ";";
+  /** How keywords are joined inside the keywords cell */
+  keywordSeparator: string;
+  /** How yes/no flags (editorial, mature, illustration) are spelled */
+  booleanValues: readonly [yes: string, no: string];
+}
+
+/** One entry of an agency's official category list. */
+export interface MarketplaceCategory {
+  /** Value written to the upload CSV */
+  code: string;
+  label: string;
+}
+
+export interface MarketplaceLimits {
+  maxTitleLength: number;
+  maxDescriptionLength: number;
+  minTags: number;
+  maxTags: number;
+  maxTagLength: number;
+  /** Categories a file can be filed under (0 when the marketplace has none) */
+  maxCategories: number;
+}
+
+export interface MarketplaceProfile {
+  id: MarketplaceId;
+  name: string;
+  limits: MarketplaceLimits;
+  csv: MarketplaceCsvSchema;
+  /** Official category list; empty when the marketplace has none or uses its own picker */
+  categories: MarketplaceCategory[];
+  /** Fields a submission is rejected without */
+  requiredFields: MarketplaceField[];
+  /** Fields the marketplace does not accept; exporters leave them out */
+  forbiddenFields: MarketplaceField[];
+  /** Compliance rule set run over titles, descriptions and tags before export */
+  complianceRules: ComplianceRuleId[];
+  /** Field the agency reads editorial captions from; defaults to the description */
+  editorialCaptionField?: "title" | "description";
+  /** Tag prompt family: long-tail buyer phrases, single-word stock keywords or general SEO */
+  promptStrategy: StrategyType;
+  /** Persona and grouping goal for the clustering prompt */
+  clusterBrief: string;
+  /** House rules shown in the requirements tooltip, beyond the numeric limits */
+  notes: string[];
+}
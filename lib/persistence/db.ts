@@ -1,8 +1,8 @@
 import { openDB, type IDBPDatabase } from "idb";
-import type { VisionBatchDB } from "./schema";
+import type { VisionBatchDB, ExportedImageRecord } from "./schema";
 
 const DB_NAME = "visionbatch-db";
-const DB_VERSION = 2; // v2: adds originalFiles store
+const DB_VERSION = 4; // v2: adds originalFiles store, v3: adds exportHistory store, v4: adds releaseFiles store
 
 // One-time migration: delete the legacy "tagarchitect-db" so returning users
 // don't accumulate a stale unused database in their browser.
@@ -66,6 +66,18 @@ export async function getDB(): Promise<IDBPDatabase<VisionBatchDB>> {
       if (!db.objectStoreNames.contains("originalFiles")) {
         db.createObjectStore("originalFiles", { keyPath: "imageId" });
       }
+
+      // v3: Hashes of every exported image, kept across sessions so re-uploads of
+      // already-submitted frames can be flagged. Keyed by SHA-256 of the file bytes.
+      if (!db.objectStoreNames.contains("exportHistory")) {
+        db.createObjectStore("exportHistory", { keyPath: "contentHash" });
+      }
+
+      // v4: Signed release PDFs, kept across sessions like the release library itself.
+      // Keyed by releaseId.
+      if (!db.objectStoreNames.contains("releaseFiles")) {
+        db.createObjectStore("releaseFiles", { keyPath: "releaseId" });
+      }
     },
   });
 
@@ -110,6 +122,44 @@ export async function deleteOriginalFile(imageId: string): Promise<void> {
   await db.delete("originalFiles", imageId);
 }
 
+// ── exportHistory ───────────────────────────────────────────────────────────
+
+/** Remember exported images so later uploads of the same frames can be flagged. */
+export async function recordExportedImages(records: ExportedImageRecord[]): Promise<void> {
+  if (records.length === 0) return;
+  const db = await getDB();
+  const tx = db.transaction("exportHistory", "readwrite");
+  await Promise.all(records.map((record) => tx.store.put(record)));
+  await tx.done;
+}
+
+/** Every image exported from this browser. */
+export async function getExportHistory(): Promise<ExportedImageRecord[]> {
+  const db = await getDB();
+  return db.getAll("exportHistory");
+}
+
+// ── releaseFiles ────────────────────────────────────────────────────────────
+
+/** Persist the PDF for a release added to the release library. */
+export async function saveReleaseFile(releaseId: string, file: File): Promise<void> {
+  const db = await getDB();
+  await db.put("releaseFiles", { releaseId, file, storedAt: Date.now() });
+}
+
+/** The PDF for a release, or undefined if it was never stored. */
+export async function getReleaseFile(releaseId: string): Promise<File | undefined> {
+  const db = await getDB();
+  const record = await db.get("releaseFiles", releaseId);
+  return record?.file;
+}
+
+/** Delete a release's PDF when the release is removed from the library. */
+export async function deleteReleaseFile(releaseId: string): Promise<void> {
+  const db = await getDB();
+  await db.delete("releaseFiles", releaseId);
+}
+
 // ── Session / batch cleanup ──────────────────────────────────────────────────
 
 export async function clearSessionData(sessionId: string): Promise<void> {
@@ -149,13 +199,18 @@ export async function clearSessionData(sessionId: string): Promise<void> {
  */
 export async function nukeAllData(): Promise<void> {
   const db = await getDB();
-  const tx = db.transaction(["batches", "groups", "images", "blobs", "originalFiles"], "readwrite");
+  const tx = db.transaction(
+    ["batches", "groups", "images", "blobs", "originalFiles", "exportHistory", "releaseFiles"],
+    "readwrite"
+  );
 
   await tx.objectStore("batches").clear();
   await tx.objectStore("groups").clear();
   await tx.objectStore("images").clear();
   await tx.objectStore("blobs").clear();
   await tx.objectStore("originalFiles").clear();
+  await tx.objectStore("exportHistory").clear();
+  await tx.objectStore("releaseFiles").clear();
 
   await tx.done;
 }
@@ -206,6 +261,8 @@ export async function getDBStats(): Promise<{
   images: number;
   blobs: number;
   originalFiles: number;
+  exportHistory: number;
+  releaseFiles: number;
 }> {
   const db = await getDB();
   const batches = await db.count("batches");
@@ -213,6 +270,8 @@ export async function getDBStats(): Promise<{
   const images = await db.count("images");
   const blobs = await db.count("blobs");
   const originalFiles = await db.count("originalFiles");
+  const exportHistory = await db.count("exportHistory");
+  const releaseFiles = await db.count("releaseFiles");
 
-  return { batches, groups, images, blobs, originalFiles };
+  return { batches, groups, images, blobs, originalFiles, exportHistory, releaseFiles };
 }
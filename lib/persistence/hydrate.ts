@@ -73,6 +73,16 @@ export async function hydrateSession(sessionId: string): Promise<HydratedSession
             userTags: imgRecord.userTags,
             status: imgRecord.status,
             errorMessage: imgRecord.errorMessage,
+            contentHash: imgRecord.contentHash,
+            perceptualHash: imgRecord.perceptualHash,
+            capturedAt: imgRecord.capturedAt,
+            duplicate: imgRecord.duplicate,
+            stackId: imgRecord.stackId,
+            isStackKeeper: imgRecord.isStackKeeper,
+            embeddedMetadata: imgRecord.embeddedMetadata,
+            editorial: imgRecord.editorial,
+            releaseNeeded: imgRecord.releaseNeeded,
+            releaseIds: imgRecord.releaseIds,
           };
         })
       );
@@ -89,6 +99,14 @@ export async function hydrateSession(sessionId: string): Promise<HydratedSession
         isCollapsed: groupRecord.isCollapsed,
         createdAt: groupRecord.createdAt,
         semanticTags: groupRecord.semanticTags,
+        taggingMode: groupRecord.taggingMode,
+        tagRelevance: groupRecord.tagRelevance,
+        categories: groupRecord.categories,
+        editorial: groupRecord.editorial,
+        editorialDetails: groupRecord.editorialDetails,
+        releaseIds: groupRecord.releaseIds,
+        etsyListing: groupRecord.etsyListing,
+        tagRemovals: groupRecord.tagRemovals,
       };
     })
   );
@@ -6,6 +6,11 @@ export {
   getDBStats,
   deleteImageData,
   deleteGroupData,
+  recordExportedImages,
+  getExportHistory,
+  saveReleaseFile,
+  getReleaseFile,
+  deleteReleaseFile,
 } from "./db";
 export { saveBatch, saveGroups, saveSessionAtomic, debounce } from "./sync";
 export { hydrateSession, sessionExists, type HydratedSession } from "./hydrate";
@@ -1,5 +1,11 @@
 import type { DBSchema } from "idb";
-import type { MarketplaceType } from "@/store/useBatchStore";
+import type { EditorialDetails, EtsyListingDetails, MarketplaceType } from "@/store/useBatchStore";
+import type { ReleaseType, TaggingMode } from "@/types";
+import type { DuplicateMatch, ExportedImageRecord } from "@/lib/image-processing/duplicates";
+import type { EmbeddedMetadata } from "@/lib/image-processing/embedded-metadata";
+import type { TagRemoval } from "@/lib/utils/tag-normalization";
+
+export type { ExportedImageRecord };
 
 export interface BatchRecord {
   sessionId: string;
@@ -20,6 +26,14 @@ export interface GroupRecord {
   isCollapsed?: boolean;
   createdAt?: number;
   semanticTags?: string[];
+  taggingMode?: TaggingMode;
+  tagRelevance?: Record<string, number>;
+  categories?: Partial<Record<MarketplaceType, string[]>>;
+  editorial?: boolean;
+  editorialDetails?: EditorialDetails;
+  releaseIds?: string[];
+  etsyListing?: EtsyListingDetails;
+  tagRemovals?: TagRemoval[];
 }
 
 export interface ImageRecord {
@@ -36,6 +50,16 @@ export interface ImageRecord {
   userTags?: string[];
   status: "pending" | "processing" | "analyzed" | "verified" | "error";
   errorMessage?: string;
+  contentHash?: string;
+  perceptualHash?: string;
+  capturedAt?: number;
+  duplicate?: DuplicateMatch;
+  stackId?: string;
+  isStackKeeper?: boolean;
+  embeddedMetadata?: EmbeddedMetadata;
+  editorial?: boolean;
+  releaseNeeded?: ReleaseType;
+  releaseIds?: string[];
 }
 
 export interface BlobRecord {
@@ -56,6 +80,16 @@ export interface OriginalFileRecord {
   storedAt: number;
 }
 
+/**
+ * A signed model or property release PDF. The release's details live in the batch
+ * store's release library; only the file is kept here, keyed by release id.
+ */
+export interface ReleaseFileRecord {
+  releaseId: string;
+  file: File;
+  storedAt: number;
+}
+
 export interface VisionBatchDB extends DBSchema {
   batches: {
     key: string;
@@ -84,4 +118,12 @@ export interface VisionBatchDB extends DBSchema {
     key: string;
     value: OriginalFileRecord;
   };
+  exportHistory: {
+    key: string;
+    value: ExportedImageRecord;
+  };
+  releaseFiles: {
+    key: string;
+    value: ReleaseFileRecord;
+  };
 }
@@ -61,6 +61,14 @@ export async function saveSessionAtomic(
       isCollapsed: group.isCollapsed,
       createdAt: group.createdAt,
       semanticTags: group.semanticTags,
+      taggingMode: group.taggingMode,
+      tagRelevance: group.tagRelevance,
+      categories: group.categories,
+      editorial: group.editorial,
+      editorialDetails: group.editorialDetails,
+      releaseIds: group.releaseIds,
+      etsyListing: group.etsyListing,
+      tagRemovals: group.tagRemovals,
     });
 
     for (const image of group.images) {
@@ -83,6 +91,16 @@ export async function saveSessionAtomic(
         userTags: image.userTags,
         status: image.status,
         errorMessage: image.errorMessage,
+        contentHash: image.contentHash,
+        perceptualHash: image.perceptualHash,
+        capturedAt: image.capturedAt,
+        duplicate: image.duplicate,
+        stackId: image.stackId,
+        isStackKeeper: image.isStackKeeper,
+        embeddedMetadata: image.embeddedMetadata,
+        editorial: image.editorial,
+        releaseNeeded: image.releaseNeeded,
+        releaseIds: image.releaseIds,
       });
 
       // Convert File to ArrayBuffer NOW, before transaction
@@ -235,6 +253,14 @@ export async function saveGroups(sessionId: string, groups: LocalGroup[]): Promi
       isCollapsed: group.isCollapsed,
       createdAt: group.createdAt,
       semanticTags: group.semanticTags,
+      taggingMode: group.taggingMode,
+      tagRelevance: group.tagRelevance,
+      categories: group.categories,
+      editorial: group.editorial,
+      editorialDetails: group.editorialDetails,
+      releaseIds: group.releaseIds,
+      etsyListing: group.etsyListing,
+      tagRemovals: group.tagRemovals,
     };
 
     try {
@@ -274,6 +300,16 @@ export async function saveGroups(sessionId: string, groups: LocalGroup[]): Promi
         userTags: image.userTags,
         status: image.status,
         errorMessage: image.errorMessage,
+        contentHash: image.contentHash,
+        perceptualHash: image.perceptualHash,
+        capturedAt: image.capturedAt,
+        duplicate: image.duplicate,
+        stackId: image.stackId,
+        isStackKeeper: image.isStackKeeper,
+        embeddedMetadata: image.embeddedMetadata,
+        editorial: image.editorial,
+        releaseNeeded: image.releaseNeeded,
+        releaseIds: image.releaseIds,
       };
 
       try {
@@ -0,0 +1,159 @@
+import type { ImageClusterGroup } from "@/types";
+
+/**
+ * Jaccard similarity of two groups' semanticTags at which a merge is proposed.
+ * Chunks see different images of the same subject, so tag lists overlap only partly.
+ */
+export const TAG_SIMILARITY_THRESHOLD = 0.4;
+
+/** A cluster group tagged with the client chunk that produced it. */
+export interface ChunkedClusterGroup extends ImageClusterGroup {
+  chunkIndex: number;
+}
+
+export interface MergeProposal {
+  id: string;
+  /** Indices into the cluster list; the first one is kept and receives the others' images. */
+  groupIndices: number[];
+  title: string;
+  imageCount: number;
+  /** "same-title" when every group shares a title, otherwise matched on semanticTags. */
+  reason: "same-title" | "similar-tags";
+  /** Weakest link between merged groups, 0–1 (same title counts as 1). */
+  similarity: number;
+}
+
+/**
+ * Title comparison key: case-, plural- and "&"-insensitive.
+ * Returns null for placeholder titles ("Group 3") that must never drive a merge.
+ */
+function titleKey(title: string | undefined): string | null {
+  if (!title) return null;
+  let key = title
+    .toLowerCase()
+    .trim()
+    .replace(/\s*&\s*/g, " and ")
+    .replace(/\s+/g, " ");
+  if (/^(group|batch|set|untitled|unnamed)\s*\d*$/.test(key) || key.length < 2) return null;
+  if (key.endsWith("s") && key.length > 3) key = key.slice(0, -1);
+  return key;
+}
+
+function tagSimilarity(a: string[] | undefined, b: string[] | undefined): number {
+  const setA = new Set((a ?? []).map((t) => t.toLowerCase().trim()).filter(Boolean));
+  const setB = new Set((b ?? []).map((t) => t.toLowerCase().trim()).filter(Boolean));
+  if (setA.size === 0 || setB.size === 0) return 0;
+  let shared = 0;
+  setA.forEach((tag) => {
+    if (setB.has(tag)) shared++;
+  });
+  return shared / (setA.size + setB.size - shared);
+}
+
+/**
+ * Find groups from different chunks that describe the same subject.
+ * Groups within one chunk were already reconciled by the cluster route, so only
+ * cross-chunk pairs are compared. Linked pairs are joined transitively, strongest
+ * first, but never into a proposal holding two groups of the same chunk.
+ */
+export function proposeClusterMerges(groups: ChunkedClusterGroup[]): MergeProposal[] {
+  const parent = groups.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) i = parent[i] = parent[parent[i]!]!;
+    return i;
+  };
+  const weakest = new Map<number, number>();
+  const titleOnly = new Map<number, boolean>();
+  const chunksOf = new Map(groups.map((g, i) => [i, new Set([g.chunkIndex])]));
+
+  const links: { i: number; j: number; similarity: number; sameTitle: boolean }[] = [];
+  for (let i = 0; i < groups.length; i++) {
+    for (let j = i + 1; j < groups.length; j++) {
+      const a = groups[i]!;
+      const b = groups[j]!;
+      if (a.chunkIndex === b.chunkIndex) continue;
+
+      const keyA = titleKey(a.title);
+      const sameTitle = keyA !== null && keyA === titleKey(b.title);
+      const similarity = sameTitle ? 1 : tagSimilarity(a.semanticTags, b.semanticTags);
+      if (sameTitle || similarity >= TAG_SIMILARITY_THRESHOLD) {
+        links.push({ i, j, similarity, sameTitle });
+      }
+    }
+  }
+  links.sort((a, b) => b.similarity - a.similarity);
+
+  for (const { i, j, similarity, sameTitle } of links) {
+    const rootA = find(i);
+    const rootB = find(j);
+    if (rootA === rootB) continue;
+    const chunksA = chunksOf.get(rootA)!;
+    const chunksB = chunksOf.get(rootB)!;
+    if (Array.from(chunksA).some((chunk) => chunksB.has(chunk))) continue;
+
+    const root = Math.min(rootA, rootB);
+    const other = Math.max(rootA, rootB);
+    parent[other] = root;
+    chunksOf.set(root, new Set([...chunksA, ...chunksB]));
+    weakest.set(root, Math.min(similarity, weakest.get(rootA) ?? 1, weakest.get(rootB) ?? 1));
+    titleOnly.set(
+      root,
+      sameTitle && (titleOnly.get(rootA) ?? true) && (titleOnly.get(rootB) ?? true)
+    );
+  }
+
+  const members = new Map<number, number[]>();
+  groups.forEach((_, i) => {
+    const root = find(i);
+    members.set(root, [...(members.get(root) ?? []), i]);
+  });
+
+  return Array.from(members.entries())
+    .filter(([, indices]) => indices.length > 1)
+    .map(([root, indices]) => {
+      const target = groups[indices[0]!]!;
+      return {
+        id: `merge-${root}`,
+        groupIndices: indices,
+        title: target.title || target.suggestedLabel || "Untitled",
+        imageCount: indices.reduce((sum, i) => sum + groups[i]!.imageIds.length, 0),
+        reason: titleOnly.get(root) ? "same-title" : "similar-tags",
+        similarity: Number((weakest.get(root) ?? 1).toFixed(2)),
+      };
+    });
+}
+
+/**
+ * Apply accepted proposals: each proposal's groups collapse into its first group
+ * (images concatenated, semanticTags unioned, highest confidence kept).
+ * Groups not covered by an accepted proposal pass through unchanged, in order.
+ */
+export function applyClusterMerges<T extends ImageClusterGroup>(
+  groups: T[],
+  accepted: MergeProposal[]
+): T[] {
+  const absorbed = new Set<number>();
+  const merged = new Map<number, T>();
+
+  for (const proposal of accepted) {
+    const [targetIndex, ...sourceIndices] = proposal.groupIndices;
+    const target = groups[targetIndex!];
+    if (!target) continue;
+
+    const sources = sourceIndices.map((i) => groups[i]).filter((g): g is T => g !== undefined);
+    merged.set(targetIndex!, {
+      ...target,
+      imageIds: [...target.imageIds, ...sources.flatMap((g) => g.imageIds)],
+      semanticTags: Array.from(
+        new Set([...(target.semanticTags ?? []), ...sources.flatMap((g) => g.semanticTags ?? [])])
+      ),
+      confidence: Math.max(target.confidence, ...sources.map((g) => g.confidence)),
+      usageType: [target, ...sources].some((g) => g.usageType === "editorial")
+        ? "editorial"
+        : target.usageType,
+    });
+    sourceIndices.forEach((i) => absorbed.add(i));
+  }
+
+  return groups.flatMap((group, i) => (absorbed.has(i) ? [] : [merged.get(i) ?? group]));
+}
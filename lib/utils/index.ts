@@ -2,3 +2,5 @@ export * from "./cn";
 export * from "./slugify";
 export * from "./export";
 export * from "./tag-processing";
+export * from "./tag-normalization";
+export * from "./cluster-merge";
@@ -0,0 +1,275 @@
+/**
+ * Near-duplicate folding for keyword lists. Tags are compared by a key built from
+ * lightly stemmed words ("dogs" and "dog" share one; "running" joins "run" only when
+ * both are in the list), and by the user's synonym map. The first tag of each key is
+ * kept; later ones are reported as removals so the UI can say why they went.
+ */
+
+/**
+ * "merge": keep whichever member comes first, drop the others.
+ * "prefer-canonical": the first member becomes the canonical term, the others are dropped.
+ * "keep-both": the members are distinct keywords; never fold them, not even by stem.
+ */
+export type TagSynonymMode = "merge" | "prefer-canonical" | "keep-both";
+
+export interface TagSynonymRule {
+  canonical: string;
+  synonyms: string[];
+  mode: TagSynonymMode;
+}
+
+export type TagRemovalReason =
+  | "blacklist"
+  | "duplicate"
+  | "plural"
+  | "stem"
+  | "synonym"
+  | "preferred";
+
+/** A keyword taken out of a list, and the one kept in its place (or the blacklist entry) */
+export interface TagRemoval {
+  tag: string;
+  reason: TagRemovalReason;
+  keptAs: string;
+}
+
+/** Starter synonym map; users edit their own copy */
+export const DEFAULT_TAG_SYNONYMS: TagSynonymRule[] = [
+  { canonical: "dog", synonyms: ["puppy", "doggy", "canine", "pooch"], mode: "merge" },
+  { canonical: "cat", synonyms: ["kitten", "kitty", "feline"], mode: "merge" },
+  { canonical: "child", synonyms: ["kid"], mode: "merge" },
+  { canonical: "car", synonyms: ["automobile"], mode: "merge" },
+  { canonical: "mother", synonyms: ["mom", "mum"], mode: "merge" },
+  { canonical: "father", synonyms: ["dad"], mode: "merge" },
+];
+
+const IRREGULAR_PLURALS: Record<string, string> = {
+  children: "child",
+  people: "person",
+  men: "man",
+  women: "woman",
+  mice: "mouse",
+  geese: "goose",
+  teeth: "tooth",
+  feet: "foot",
+  oxen: "ox",
+  cacti: "cactus",
+  fungi: "fungus",
+  leaves: "leaf",
+  knives: "knife",
+  wives: "wife",
+  lives: "life",
+  wolves: "wolf",
+  shelves: "shelf",
+  loaves: "loaf",
+  halves: "half",
+  calves: "calf",
+  thieves: "thief",
+};
+
+// Words that end like a plural or inflection but are keywords in their own right
+const INVARIANT_WORDS = new Set([
+  "news",
+  "series",
+  "species",
+  "glasses",
+  "sunglasses",
+  "jeans",
+  "pants",
+  "shorts",
+  "scissors",
+  "clothes",
+  "lens",
+  "canvas",
+  "christmas",
+  "physics",
+  "politics",
+  "always",
+]);
+
+// -ing/-ed words that are keywords of their own, not forms of their stem (listed
+// after plural folding, so "earrings" is "earring")
+const INFLECTED_NOUNS = new Set([
+  "bedding",
+  "building",
+  "ceiling",
+  "clothing",
+  "drawing",
+  "dressing",
+  "earring",
+  "evening",
+  "filling",
+  "fishing",
+  "frosting",
+  "housing",
+  "landing",
+  "lighting",
+  "meeting",
+  "morning",
+  "painting",
+  "pudding",
+  "railing",
+  "setting",
+  "skiing",
+  "stuffing",
+  "topping",
+  "wedding",
+  "beloved",
+  "hundred",
+  "naked",
+  "rugged",
+  "sacred",
+  "tired",
+  "wicked",
+]);
+
+const VOWEL = /[aeiouy]/;
+
+/** "running" → "run", "hopped" → "hop"; leaves "ll", "ss" and "zz" endings alone */
+function undouble(word: string): string {
+  return /([^aeioulsz])\1$/.test(word) ? word.slice(0, -1) : word;
+}
+
+/**
+ * Singular of a plural word ("horses" → "horse", "berries" → "berry", "boxes" → "box").
+ * Words without a plural ending come back unchanged, so "plane" and "plan" stay apart.
+ */
+function foldPlural(word: string): string {
+  if (word.length <= 3 || INVARIANT_WORDS.has(word)) return word;
+  const irregular = IRREGULAR_PLURALS[word];
+  if (irregular) return irregular;
+
+  if (word.endsWith("ies") && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (/(ss|sh|ch|x|zz)es$/.test(word)) return word.slice(0, -2);
+  if (/[^sui]s$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Possible bases of an -ing or -ed word, most likely first: "running" → run,
+ * "hoped" → hope or hop, "carried" → carry. Empty when it has none.
+ */
+function inflectionStems(word: string): string[] {
+  const plural = foldPlural(word);
+  if (INVARIANT_WORDS.has(word) || INFLECTED_NOUNS.has(plural)) return [];
+  for (const suffix of ["ing", "ed"]) {
+    if (!plural.endsWith(suffix) || plural.endsWith("eed")) continue;
+    const stem = plural.slice(0, -suffix.length);
+    if (stem.length < 3 || !VOWEL.test(stem)) return [];
+    if (suffix === "ed" && stem.endsWith("i")) return [`${stem.slice(0, -1)}y`];
+    const undoubled = undouble(stem);
+    if (undoubled !== stem) return [undoubled];
+    // A short consonant-vowel-consonant stem usually lost a silent e ("hoped", "riding")
+    return /[^aeiou][aeiou][^aeiouwxy]$/.test(stem) ? [`${stem}e`, stem] : [stem, `${stem}e`];
+  }
+  return [];
+}
+
+/** foldPlural, plus -ing and -ed endings when the base is one of `stems` */
+function stemWord(word: string, stems: ReadonlySet<string>): string {
+  return inflectionStems(word).find((stem) => stems.has(stem)) ?? foldPlural(word);
+}
+
+function words(tag: string): string[] {
+  return tag
+    .toLowerCase()
+    .split(/[\s-]+/)
+    .filter(Boolean);
+}
+
+function pluralKey(tag: string): string {
+  return words(tag).map(foldPlural).join(" ");
+}
+
+/**
+ * Tags with the same stem key are near-duplicates ("Dogs" and "dog", "ice-cream" and
+ * "ice cream"). -ing/-ed words fold only onto stems in `stems`, the folded words of
+ * the list being processed, so "running" joins "run" but "fishing" alone stays.
+ */
+export function tagStemKey(tag: string, stems: ReadonlySet<string> = new Set()): string {
+  return words(tag)
+    .map((word) => stemWord(word, stems))
+    .join(" ");
+}
+
+/** Why `tag` went when `kept` stayed, for folds by stem rather than synonyms */
+function stemReason(tag: string, kept: string): TagRemovalReason {
+  if (words(tag).join(" ") === words(kept).join(" ")) return "duplicate";
+  return pluralKey(tag) === pluralKey(kept) ? "plural" : "stem";
+}
+
+/**
+ * Fold near-duplicates and synonyms, keeping list order. Removals are reported with
+ * the tag kept in their place.
+ */
+export function normalizeTagList(
+  tags: string[],
+  synonyms: TagSynonymRule[] = []
+): { tags: string[]; removed: TagRemoval[] } {
+  const stems = new Set(tags.flatMap((tag) => words(tag).map(foldPlural)));
+  const keyOf = (tag: string) => tagStemKey(tag, stems);
+
+  const ruleByKey = new Map<string, TagSynonymRule>();
+  for (const rule of synonyms) {
+    for (const member of [rule.canonical, ...rule.synonyms]) {
+      const key = keyOf(member);
+      if (key && !ruleByKey.has(key)) ruleByKey.set(key, rule);
+    }
+  }
+
+  const keptByKey = new Map<string, string>();
+  const result: string[] = [];
+  const removed: TagRemoval[] = [];
+
+  for (const raw of tags) {
+    const tag = raw.trim();
+    if (!tag) continue;
+    const stemKey = keyOf(tag);
+    const rule = ruleByKey.get(stemKey);
+
+    // keep-both members only collapse with exact repeats of themselves
+    const key = !rule
+      ? stemKey
+      : rule.mode === "keep-both"
+        ? `=${tag.toLowerCase()}`
+        : `synonym:${keyOf(rule.canonical)}`;
+
+    const kept = keptByKey.get(key);
+    if (kept !== undefined) {
+      const sameStem = keyOf(kept) === stemKey;
+      removed.push({
+        tag,
+        reason: rule && !sameStem ? "synonym" : stemReason(tag, kept),
+        keptAs: kept,
+      });
+      continue;
+    }
+
+    const replacement =
+      rule?.mode === "prefer-canonical" && keyOf(rule.canonical) !== stemKey ? rule.canonical : tag;
+    if (replacement !== tag) removed.push({ tag, reason: "preferred", keptAs: replacement });
+    keptByKey.set(key, replacement);
+    result.push(replacement);
+  }
+
+  return { tags: result, removed };
+}
+
+/** One-line explanation of a removal, for the tag editor */
+export function describeTagRemoval(removal: TagRemoval): string {
+  const kept = `"${removal.keptAs}"`;
+  switch (removal.reason) {
+    case "blacklist":
+      return `Matches the blacklisted ${kept}`;
+    case "duplicate":
+      return `Repeats ${kept}`;
+    case "plural":
+      return `Singular/plural of ${kept}`;
+    case "stem":
+      return `Same root word as ${kept}`;
+    case "synonym":
+      return `Synonym of ${kept} in your synonym map`;
+    case "preferred":
+      return `Replaced by ${kept}, the preferred term in your synonym map`;
+  }
+}
@@ -1,3 +1,5 @@
+import { normalizeTagList, type TagRemoval, type TagSynonymRule } from "./tag-normalization";
+
 /**
  * Default blacklist — common stock agency rejection words.
  */
@@ -75,11 +77,120 @@ export function deduplicateTags(tags: string[]): string[] {
   return result;
 }
 
+/** Adobe Stock (and most agencies) weigh the first 10 keywords most heavily. */
+export const TOP_KEYWORD_COUNT = 10;
+
+/**
+ * Sort tags by descending model relevance (keys are lowercase tags).
+ * Stable: ties and unscored tags keep their original order, unscored tags go last.
+ */
+export function sortTagsByRelevance(
+  tags: string[],
+  relevance: Record<string, number> | undefined
+): string[] {
+  if (!relevance) return tags;
+  const score = (tag: string) => relevance[tag.trim().toLowerCase()] ?? -1;
+  return tags
+    .map((tag, index) => ({ tag, index, score: score(tag) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((entry) => entry.tag);
+}
+
+/**
+ * Mean relevance per tag across several scored results (tags a result did not
+ * score are ignored). Returns undefined when nothing was scored.
+ */
+export function averageTagRelevance(
+  results: { tagRelevance?: Record<string, number> }[]
+): Record<string, number> | undefined {
+  const totals = new Map<string, { sum: number; count: number }>();
+  for (const { tagRelevance } of results) {
+    for (const [tag, score] of Object.entries(tagRelevance ?? {})) {
+      const entry = totals.get(tag) ?? { sum: 0, count: 0 };
+      entry.sum += score;
+      entry.count++;
+      totals.set(tag, entry);
+    }
+  }
+  if (totals.size === 0) return undefined;
+  return Object.fromEntries(
+    Array.from(totals, ([tag, { sum, count }]) => [tag, Number((sum / count).toFixed(2))])
+  );
+}
+
 /**
- * Full tag processing pipeline: normalize → blacklist → deduplicate.
+ * Full tag processing pipeline: normalize → blacklist → fold near-duplicates and
+ * synonyms, reporting every tag taken out and why.
  */
-export function processTags(tags: string[], blacklist: string[]): string[] {
-  const normalized = tags.map(normalizeTag);
+export function processTagsWithReport(
+  tags: string[],
+  blacklist: string[],
+  synonyms: TagSynonymRule[] = []
+): { tags: string[]; removed: TagRemoval[] } {
+  const normalized = tags.map(normalizeTag).filter(Boolean);
   const filtered = applyBlacklist(normalized, blacklist);
-  return deduplicateTags(filtered);
+  const lowerBlacklist = blacklist.map((b) => b.toLowerCase().trim()).filter(Boolean);
+  const blacklisted: TagRemoval[] = normalized
+    .filter((tag) => !filtered.includes(tag))
+    .map((tag) => ({
+      tag,
+      reason: "blacklist",
+      keptAs: lowerBlacklist.find((banned) => tag.toLowerCase().includes(banned)) ?? "",
+    }));
+  const folded = normalizeTagList(filtered, synonyms);
+  return { tags: folded.tags, removed: [...blacklisted, ...folded.removed] };
+}
+
+/**
+ * Full tag processing pipeline: normalize → blacklist → fold near-duplicates and synonyms.
+ */
+export function processTags(
+  tags: string[],
+  blacklist: string[],
+  synonyms: TagSynonymRule[] = []
+): string[] {
+  return processTagsWithReport(tags, blacklist, synonyms).tags;
+}
+
+/**
+ * Keywords that appear in at least `minShare` of the given per-image tag lists
+ * (case-insensitive), in first-seen order. These become the group's shared keywords
+ * in per-image tagging mode.
+ */
+export function findSharedTags(tagLists: string[][], minShare: number = 0.5): string[] {
+  if (tagLists.length === 0) return [];
+  const counts = new Map<string, { tag: string; count: number }>();
+  for (const tags of tagLists) {
+    for (const tag of deduplicateTags(tags)) {
+      const key = tag.toLowerCase();
+      const entry = counts.get(key);
+      if (entry) entry.count++;
+      else counts.set(key, { tag, count: 1 });
+    }
+  }
+  const required = Math.max(1, Math.ceil(tagLists.length * minShare));
+  return Array.from(counts.values())
+    .filter((entry) => entry.count >= required)
+    .map((entry) => entry.tag);
+}
+
+/**
+ * Combine shared group keywords with one image's own keywords: shared first,
+ * then image-specific ones, deduplicated and capped at `maxTags`.
+ */
+export function mergeSharedTags(
+  sharedTags: string[],
+  imageTags: string[],
+  maxTags: number
+): string[] {
+  return deduplicateTags([...sharedTags, ...imageTags]).slice(0, maxTags);
+}
+
+/**
+ * The part of an image's keyword list that is not in the shared set.
+ * Used to re-merge when the user edits a per-image group's shared keywords.
+ */
+export function getImageSpecificTags(imageTags: string[], sharedTags: string[]): string[] {
+  const shared = new Set(sharedTags.map((t) => t.toLowerCase().trim()));
+  return imageTags.filter((tag) => !shared.has(tag.toLowerCase().trim()));
 }
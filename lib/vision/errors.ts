@@ -0,0 +1,117 @@
+import { APIConnectionError as AnthropicConnectionError } from "@anthropic-ai/sdk";
+import { APIConnectionError as OpenAIConnectionError } from "openai";
+
+/**
+ * Typed failures raised by vision providers.
+ * `kind` drives failover: everything except "client" and "internal" is worth trying on
+ * the next provider. "internal" is our own bug or an aborted request, not the vendor's.
+ */
+export type VisionErrorKind =
+  | "timeout"
+  | "server"
+  | "parse"
+  | "unavailable"
+  | "client"
+  | "internal";
+
+export class VisionProviderError extends Error {
+  readonly kind: VisionErrorKind;
+  readonly provider: string;
+  readonly status?: number;
+
+  constructor(
+    message: string,
+    options: { kind: VisionErrorKind; provider: string; status?: number; cause?: unknown }
+  ) {
+    super(message, { cause: options.cause });
+    this.name = "VisionProviderError";
+    this.kind = options.kind;
+    this.provider = options.provider;
+    this.status = options.status;
+  }
+
+  /** Whether another provider (or a later retry) could plausibly succeed. */
+  get retryable(): boolean {
+    return this.kind !== "client" && this.kind !== "internal";
+  }
+}
+
+/**
+ * Model output that still failed schema validation after the repair attempt.
+ * Carries the issues and a truncated copy of the raw text for logging.
+ */
+export class VisionResponseValidationError extends VisionProviderError {
+  readonly issues: string[];
+  readonly rawResponse: string;
+
+  constructor(provider: string, issues: string[], rawResponse: string) {
+    super(`[${provider}] Invalid model response: ${issues.slice(0, 3).join("; ")}`, {
+      kind: "parse",
+      provider,
+    });
+    this.name = "VisionResponseValidationError";
+    this.issues = issues;
+    this.rawResponse = rawResponse.slice(0, 2000);
+  }
+}
+
+// Socket-level failures from Node and undici
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ETIMEDOUT",
+  "EPIPE",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+/** The request never got an HTTP response: DNS, refused or reset connection, "fetch failed" */
+function isNetworkError(error: unknown): boolean {
+  if (error instanceof AnthropicConnectionError || error instanceof OpenAIConnectionError) {
+    return true;
+  }
+  for (let e: unknown = error, depth = 0; e instanceof Error && depth < 3; depth++) {
+    const code = (e as { code?: unknown }).code;
+    if (typeof code === "string" && NETWORK_ERROR_CODES.has(code)) return true;
+    if (e instanceof TypeError && e.message === "fetch failed") return true;
+    e = e.cause;
+  }
+  return false;
+}
+
+/**
+ * Normalise an SDK / network / parse error into a VisionProviderError.
+ * Both the Anthropic and OpenAI SDKs expose the HTTP status as `error.status`.
+ */
+export function toVisionProviderError(error: unknown, provider: string): VisionProviderError {
+  if (error instanceof VisionProviderError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status =
+    typeof error === "object" && error !== null && "status" in error
+      ? Number((error as { status: unknown }).status) || undefined
+      : undefined;
+
+  let kind: VisionErrorKind;
+  if (/timed? ?out|timeout/i.test(message) || status === 408) {
+    kind = "timeout";
+  } else if (status !== undefined && (status >= 500 || status === 429)) {
+    kind = "server";
+  } else if (error instanceof SyntaxError) {
+    kind = "parse";
+  } else if (status === undefined) {
+    // No HTTP response: a network failure, or a bug or abort on our side
+    kind = isNetworkError(error) ? "unavailable" : "internal";
+  } else {
+    kind = "client";
+  }
+
+  return new VisionProviderError(`[${provider}] ${message}`, {
+    kind,
+    provider,
+    status,
+    cause: error,
+  });
+}
@@ -0,0 +1,271 @@
+/**
+ * Pure image fingerprinting helpers (perceptual hash, colour histogram, edge orientation).
+ * Works on raw RGBA pixel buffers so it can run on the server (decoded PNG)
+ * or in the browser (canvas ImageData) without any platform APIs.
+ */
+
+/** Number of bins per RGB channel in the colour histogram (4 → 64 bins total). */
+const HISTOGRAM_BINS_PER_CHANNEL = 4;
+
+/** Side length of the grayscale grid used for the average hash (8 → 64-bit hash). */
+const HASH_GRID_SIZE = 8;
+
+/** Number of gradient orientation bins over [0°, 180°) in the edge histogram. */
+const EDGE_ORIENTATION_BINS = 8;
+
+/** Gradient magnitude (luma units, 0–1) above which a pixel counts as an edge. */
+const EDGE_MAGNITUDE_THRESHOLD = 0.1;
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  /** Row-major RGBA bytes, length = width * height * 4. */
+  data: Uint8Array | Uint8ClampedArray;
+}
+
+export interface ImageFingerprint {
+  /** 64-bit average hash as a 16-char hex string. */
+  aHash: string;
+  /** Normalised RGB histogram (sums to 1). */
+  histogram: number[];
+  /** Mean hue in degrees [0, 360) weighted by saturation, or -1 for greyscale images. */
+  dominantHue: number;
+  /** Mean luminance in [0, 1]. */
+  brightness: number;
+  /** Mean saturation in [0, 1]. */
+  saturation: number;
+  /** Magnitude-weighted gradient orientation histogram (sums to 1, or all zeros when flat). */
+  edgeHistogram: number[];
+  /** Share of pixels on an edge, in [0, 1]. */
+  edgeDensity: number;
+}
+
+/**
+ * Compute the average-hash, colour and edge features for an RGBA image.
+ */
+export function computeFingerprint(image: RgbaImage): ImageFingerprint {
+  const { width, height, data } = image;
+  const binCount = HISTOGRAM_BINS_PER_CHANNEL ** 3;
+  const histogram = new Array<number>(binCount).fill(0);
+  const grid = new Array<number>(HASH_GRID_SIZE * HASH_GRID_SIZE).fill(0);
+  const gridCounts = new Array<number>(HASH_GRID_SIZE * HASH_GRID_SIZE).fill(0);
+  const lumaPlane = new Float32Array(width * height);
+
+  let lumaSum = 0;
+  let satSum = 0;
+  let hueX = 0;
+  let hueY = 0;
+  let pixelCount = 0;
+
+  for (let y = 0; y < height; y++) {
+    const gy = Math.min(HASH_GRID_SIZE - 1, Math.floor((y * HASH_GRID_SIZE) / height));
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const r = data[i] ?? 0;
+      const g = data[i + 1] ?? 0;
+      const b = data[i + 2] ?? 0;
+
+      const shift = 256 / HISTOGRAM_BINS_PER_CHANNEL;
+      const bin =
+        Math.floor(r / shift) * HISTOGRAM_BINS_PER_CHANNEL ** 2 +
+        Math.floor(g / shift) * HISTOGRAM_BINS_PER_CHANNEL +
+        Math.floor(b / shift);
+      histogram[bin]! += 1;
+
+      const luma = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+      lumaPlane[y * width + x] = luma;
+      const gx = Math.min(HASH_GRID_SIZE - 1, Math.floor((x * HASH_GRID_SIZE) / width));
+      grid[gy * HASH_GRID_SIZE + gx]! += luma;
+      gridCounts[gy * HASH_GRID_SIZE + gx]! += 1;
+
+      const { hue, saturation } = rgbToHueSaturation(r, g, b);
+      satSum += saturation;
+      if (saturation > 0) {
+        const rad = (hue * Math.PI) / 180;
+        hueX += Math.cos(rad) * saturation;
+        hueY += Math.sin(rad) * saturation;
+      }
+      lumaSum += luma;
+      pixelCount++;
+    }
+  }
+
+  const total = Math.max(1, pixelCount);
+  const cells = grid.map((sum, i) => sum / Math.max(1, gridCounts[i] ?? 0));
+  const mean = cells.reduce((s, v) => s + v, 0) / cells.length;
+  const bits = cells.map((v) => (v > mean ? 1 : 0));
+
+  const saturation = satSum / total;
+  const dominantHue =
+    saturation < 0.08 ? -1 : ((Math.atan2(hueY, hueX) * 180) / Math.PI + 360) % 360;
+
+  const { edgeHistogram, edgeDensity } = computeEdgeFeatures(lumaPlane, width, height);
+
+  return {
+    aHash: bitsToHex(bits),
+    histogram: histogram.map((count) => count / total),
+    dominantHue,
+    brightness: lumaSum / total,
+    saturation,
+    edgeHistogram,
+    edgeDensity,
+  };
+}
+
+/**
+ * 64-bit difference hash (dHash) as a 16-char hex string: each bit says whether a cell of a
+ * 9×8 luma grid is brighter than its right neighbour. Robust to re-encoding and resizing,
+ * which makes it the hash for duplicate and burst detection.
+ */
+export function computeDifferenceHash(image: RgbaImage): string {
+  const { width, height, data } = image;
+  const cols = HASH_GRID_SIZE + 1;
+  const sums = new Array<number>(cols * HASH_GRID_SIZE).fill(0);
+  const counts = new Array<number>(cols * HASH_GRID_SIZE).fill(0);
+
+  for (let y = 0; y < height; y++) {
+    const gy = Math.min(HASH_GRID_SIZE - 1, Math.floor((y * HASH_GRID_SIZE) / height));
+    for (let x = 0; x < width; x++) {
+      const gx = Math.min(cols - 1, Math.floor((x * cols) / width));
+      const i = (y * width + x) * 4;
+      sums[gy * cols + gx]! +=
+        0.299 * (data[i] ?? 0) + 0.587 * (data[i + 1] ?? 0) + 0.114 * (data[i + 2] ?? 0);
+      counts[gy * cols + gx]! += 1;
+    }
+  }
+
+  const cell = (row: number, col: number) =>
+    (sums[row * cols + col] ?? 0) / Math.max(1, counts[row * cols + col] ?? 0);
+  const bits: number[] = [];
+  for (let row = 0; row < HASH_GRID_SIZE; row++) {
+    for (let col = 0; col < HASH_GRID_SIZE; col++) {
+      bits.push(cell(row, col) > cell(row, col + 1) ? 1 : 0);
+    }
+  }
+  return bitsToHex(bits);
+}
+
+/**
+ * Number of differing bits between two hex-encoded hashes of equal length.
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  const length = Math.max(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    let xor = parseInt(a[i] ?? "0", 16) ^ parseInt(b[i] ?? "0", 16);
+    while (xor) {
+      distance += xor & 1;
+      xor >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Combined distance in [0, 1]: half perceptual-hash distance, half histogram L1 distance.
+ */
+export function fingerprintDistance(a: ImageFingerprint, b: ImageFingerprint): number {
+  const hashBits = a.aHash.length * 4;
+  const hashDistance = hashBits > 0 ? hammingDistance(a.aHash, b.aHash) / hashBits : 0;
+
+  let l1 = 0;
+  const bins = Math.max(a.histogram.length, b.histogram.length);
+  for (let i = 0; i < bins; i++) {
+    l1 += Math.abs((a.histogram[i] ?? 0) - (b.histogram[i] ?? 0));
+  }
+
+  return 0.5 * hashDistance + 0.5 * (l1 / 2);
+}
+
+/**
+ * Distance in [0, 1] over edge structure: half orientation-histogram L1, half density gap.
+ * Separates e.g. architecture (strong straight edges) from skies and bokeh with similar colours.
+ */
+export function edgeDistance(a: ImageFingerprint, b: ImageFingerprint): number {
+  let l1 = 0;
+  const bins = Math.max(a.edgeHistogram.length, b.edgeHistogram.length);
+  for (let i = 0; i < bins; i++) {
+    l1 += Math.abs((a.edgeHistogram[i] ?? 0) - (b.edgeHistogram[i] ?? 0));
+  }
+  return 0.5 * (l1 / 2) + 0.5 * Math.abs(a.edgeDensity - b.edgeDensity);
+}
+
+/**
+ * Weighted distance in [0, 1] over hash, colour and edges. Used for client-side
+ * pre-clustering, where edges help keep same-palette but different-subject shots apart.
+ */
+export function visualDistance(a: ImageFingerprint, b: ImageFingerprint): number {
+  const hashBits = a.aHash.length * 4;
+  const hashDistance = hashBits > 0 ? hammingDistance(a.aHash, b.aHash) / hashBits : 0;
+
+  let l1 = 0;
+  const bins = Math.max(a.histogram.length, b.histogram.length);
+  for (let i = 0; i < bins; i++) {
+    l1 += Math.abs((a.histogram[i] ?? 0) - (b.histogram[i] ?? 0));
+  }
+
+  return 0.4 * hashDistance + 0.35 * (l1 / 2) + 0.25 * edgeDistance(a, b);
+}
+
+function computeEdgeFeatures(
+  luma: Float32Array,
+  width: number,
+  height: number
+): { edgeHistogram: number[]; edgeDensity: number } {
+  const edgeHistogram = new Array<number>(EDGE_ORIENTATION_BINS).fill(0);
+  let edgePixels = 0;
+  let magnitudeSum = 0;
+  const inner = Math.max(0, width - 2) * Math.max(0, height - 2);
+
+  // Central differences on interior pixels
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx = (luma[i + 1] ?? 0) - (luma[i - 1] ?? 0);
+      const gy = (luma[i + width] ?? 0) - (luma[i - width] ?? 0);
+      const magnitude = Math.hypot(gx, gy);
+      if (magnitude < EDGE_MAGNITUDE_THRESHOLD) continue;
+
+      const angle = ((Math.atan2(gy, gx) * 180) / Math.PI + 180) % 180;
+      const bin = Math.min(
+        EDGE_ORIENTATION_BINS - 1,
+        Math.floor((angle * EDGE_ORIENTATION_BINS) / 180)
+      );
+      edgeHistogram[bin]! += magnitude;
+      magnitudeSum += magnitude;
+      edgePixels++;
+    }
+  }
+
+  return {
+    edgeHistogram: edgeHistogram.map((v) => (magnitudeSum > 0 ? v / magnitudeSum : 0)),
+    edgeDensity: inner > 0 ? edgePixels / inner : 0,
+  };
+}
+
+function rgbToHueSaturation(r: number, g: number, b: number): { hue: number; saturation: number } {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+  if (max === 0 || delta === 0) return { hue: 0, saturation: 0 };
+
+  let hue: number;
+  if (max === r) hue = ((g - b) / delta) % 6;
+  else if (max === g) hue = (b - r) / delta + 2;
+  else hue = (r - g) / delta + 4;
+
+  return { hue: (hue * 60 + 360) % 360, saturation: delta / max };
+}
+
+function bitsToHex(bits: number[]): string {
+  let hex = "";
+  for (let i = 0; i < bits.length; i += 4) {
+    const nibble =
+      ((bits[i] ?? 0) << 3) |
+      ((bits[i + 1] ?? 0) << 2) |
+      ((bits[i + 2] ?? 0) << 1) |
+      (bits[i + 3] ?? 0);
+    hex += nibble.toString(16);
+  }
+  return hex;
+}
@@ -8,10 +8,14 @@ import type {
   ImageClusterGroup,
   MarketplaceType,
   StrategyType,
+  TaggingMode,
+  TaxonomyCategory,
 } from "./types";
 import type { PlatformType } from "@/types";
 import { AnthropicVisionProvider, type AnthropicProviderConfig } from "./providers/anthropic";
 import { OpenAIVisionProvider, type OpenAIProviderConfig } from "./providers/openai";
+import { LocalVisionProvider, type LocalProviderConfig } from "./providers/local";
+import { FallbackVisionProvider, getProviderHealth } from "./providers/fallback";
 
 // Re-export types for convenience
 export type {
@@ -24,21 +28,59 @@ export type {
   ImageClusterGroup,
   MarketplaceType,
   StrategyType,
+  TaggingMode,
+  TaxonomyCategory,
 };
+export { VisionProviderError } from "./errors";
+export type { VisionErrorKind } from "./errors";
+export { getProviderHealth };
+export { DEFAULT_TAXONOMY, isSpecificContext } from "./prompts/index";
+export {
+  validateTaxonomyCategories,
+  normalizeTaxonomyCategories,
+  findTaxonomyCategory,
+  closestTaxonomyCategory,
+} from "./taxonomy";
 
-export type VisionProviderConfig = AnthropicProviderConfig | OpenAIProviderConfig;
+export type VisionProviderConfig =
+  | AnthropicProviderConfig
+  | OpenAIProviderConfig
+  | LocalProviderConfig;
 
 let cachedProvider: IVisionProvider | null = null;
 
 export class VisionFactory {
   static getProviderType(): VisionProviderType {
-    const provider = process.env.AI_PROVIDER?.toLowerCase();
-    return provider === "openai" ? "openai" : "anthropic";
+    return VisionFactory.getProviderChain()[0] ?? "anthropic";
+  }
+
+  /**
+   * Ordered provider list from AI_PROVIDER, e.g. "anthropic,openai,local".
+   * Unknown names are ignored; an empty list falls back to anthropic.
+   */
+  static getProviderChain(): VisionProviderType[] {
+    const known: VisionProviderType[] = ["anthropic", "openai", "local"];
+    const chain = (process.env.AI_PROVIDER ?? "")
+      .split(",")
+      .map((name) => name.trim().toLowerCase())
+      .filter((name): name is VisionProviderType => known.includes(name as VisionProviderType));
+    const unique = Array.from(new Set(chain));
+    return unique.length > 0 ? unique : ["anthropic"];
   }
 
   static getProvider(): IVisionProvider {
     if (!cachedProvider) {
-      cachedProvider = VisionFactory.createProvider();
+      const chain = VisionFactory.getProviderChain();
+      cachedProvider =
+        chain.length > 1
+          ? new FallbackVisionProvider(
+              chain.map((type) => VisionFactory.createProvider(type)),
+              {
+                timeoutMs: Number(process.env.AI_PROVIDER_TIMEOUT_MS) || undefined,
+                budgetMs: Number(process.env.AI_PROVIDER_BUDGET_MS) || undefined,
+              }
+            )
+          : VisionFactory.createProvider(chain[0]);
     }
     return cachedProvider;
   }
@@ -49,6 +91,8 @@ export class VisionFactory {
     switch (providerType) {
       case "openai":
         return new OpenAIVisionProvider(config as OpenAIProviderConfig);
+      case "local":
+        return new LocalVisionProvider(config as LocalProviderConfig);
       case "anthropic":
       default:
         return new AnthropicVisionProvider(config as AnthropicProviderConfig);
@@ -65,13 +109,15 @@ export async function clusterImagesWithVision(
   images: ClusterImageInput[],
   marketplace: string,
   maxGroups: number,
-  context?: string
+  context?: string,
+  taxonomy?: readonly TaxonomyCategory[]
 ): Promise<ClusterResult> {
   return VisionFactory.getProvider().clusterImages(
     images,
     marketplace as MarketplaceType,
     maxGroups,
-    context
+    context,
+    taxonomy
   );
 }
 
@@ -80,13 +126,17 @@ export async function generateTagsForImages(
   marketplace: string,
   strategy: string = "standard",
   maxTags: number = 25,
-  platform?: PlatformType
+  platform?: PlatformType,
+  mode: TaggingMode = "group",
+  editorial: boolean = false
 ): Promise<ImageTagResult[]> {
   return VisionFactory.getProvider().generateTags(
     images,
     marketplace as MarketplaceType,
     strategy as StrategyType,
     maxTags,
-    platform
+    platform,
+    mode,
+    editorial
   );
 }
@@ -1,5 +1,5 @@
 import type { StrategyType } from "../types";
-import { getStrategyPersona } from "./shared";
+import { getStrategyPersona, TAG_RELEVANCE_RULE } from "./shared";
 
 export const ADOBE_DEFAULTS = {
   maxTags: 49,
@@ -40,11 +40,13 @@ TAG PRIORITY:
 TITLE: 200 chars max. Factual description. No marketing fluff.
 DESCRIPTION: 1–2 objective sentences describing what is depicted.
 
+${TAG_RELEVANCE_RULE}
+
 RESPOND ONLY with valid JSON:
 {
   "title": "Woman typing on laptop at wooden desk in sunlit office",
   "description": "A professional woman works on a silver laptop at a wooden desk near a window with natural light.",
-  "tags": ["woman", "laptop", "desk", "office", "typing", "professional", "computer", "work", "wooden", "window", "sunlight", "indoor", "technology", "business", "career", "modern", "adult", "sitting", "workspace", "bright", "productivity", "corporate", "lifestyle", "focused", "caucasian"],
+  "tags": [{"tag": "woman", "relevance": 0.98}, {"tag": "laptop", "relevance": 0.95}, {"tag": "desk", "relevance": 0.93}, {"tag": "office", "relevance": 0.91}, {"tag": "typing", "relevance": 0.88}, {"tag": "professional", "relevance": 0.85}, {"tag": "computer", "relevance": 0.83}, {"tag": "work", "relevance": 0.80}, {"tag": "wooden", "relevance": 0.78}, {"tag": "window", "relevance": 0.76}, {"tag": "sunlight", "relevance": 0.73}, {"tag": "indoor", "relevance": 0.71}, {"tag": "technology", "relevance": 0.68}, {"tag": "business", "relevance": 0.66}, {"tag": "career", "relevance": 0.63}, {"tag": "modern", "relevance": 0.60}, {"tag": "adult", "relevance": 0.58}, {"tag": "sitting", "relevance": 0.55}, {"tag": "workspace", "relevance": 0.53}, {"tag": "bright", "relevance": 0.50}, {"tag": "productivity", "relevance": 0.48}, {"tag": "corporate", "relevance": 0.45}, {"tag": "lifestyle", "relevance": 0.43}, {"tag": "focused", "relevance": 0.41}, {"tag": "caucasian", "relevance": 0.38}],
   "confidence": 0.95
 }`;
 }
@@ -1,5 +1,5 @@
 import type { StrategyType } from "../types";
-import { getStrategyPersona } from "./shared";
+import { getStrategyPersona, TAG_RELEVANCE_RULE } from "./shared";
 
 export const ETSY_DEFAULTS = {
   maxTags: 13,
@@ -34,11 +34,13 @@ TITLE: 140 chars max. Front-load the strongest search keywords. Write it as if i
 
 DESCRIPTION: Write a warm, inviting 2–3 sentence sales pitch. Mention materials, dimensions, care instructions, and who it's perfect for. Use sensory language (feel, warmth, texture).
 
+${TAG_RELEVANCE_RULE}
+
 RESPOND ONLY with valid JSON:
 {
   "title": "Handmade Ceramic Coffee Mug Minimalist Pottery Gift for Coffee Lovers",
   "description": "Start your morning right with this handcrafted stoneware mug. Each piece is wheel-thrown and glazed by hand, making every mug uniquely yours. Perfect as a thoughtful gift for the coffee or tea lover in your life.",
-  "tags": ["handmade ceramic mug", "pottery coffee cup", "minimalist kitchen", "gift for her", "stoneware drinkware", "artisan mug", "cozy morning ritual", "unique coffee gift", "rustic home decor", "wheel thrown pottery", "tea lover gift", "housewarming present", "office desk mug"],
+  "tags": [{"tag": "handmade ceramic mug", "relevance": 0.98}, {"tag": "pottery coffee cup", "relevance": 0.93}, {"tag": "minimalist kitchen", "relevance": 0.88}, {"tag": "gift for her", "relevance": 0.83}, {"tag": "stoneware drinkware", "relevance": 0.78}, {"tag": "artisan mug", "relevance": 0.73}, {"tag": "cozy morning ritual", "relevance": 0.68}, {"tag": "unique coffee gift", "relevance": 0.63}, {"tag": "rustic home decor", "relevance": 0.58}, {"tag": "wheel thrown pottery", "relevance": 0.53}, {"tag": "tea lover gift", "relevance": 0.48}, {"tag": "housewarming present", "relevance": 0.43}, {"tag": "office desk mug", "relevance": 0.38}],
   "confidence": 0.95
 }`;
 }
@@ -1,5 +1,5 @@
 import type { StrategyType } from "../types";
-import { getStrategyPersona } from "./shared";
+import { getStrategyPersona, TAG_RELEVANCE_RULE } from "./shared";
 
 export const GENERIC_DEFAULTS = {
   maxTags: 30,
@@ -36,11 +36,13 @@ TITLE: 60–70 characters. Google-friendly, descriptive. Write it like an image
 
 DESCRIPTION: 1–2 sentences. Describe the image for someone who cannot see it (accessibility-grade alt-text). Include colors, composition, and emotional tone.
 
+${TAG_RELEVANCE_RULE}
+
 RESPOND ONLY with valid JSON:
 {
   "title": "Golden retriever running on sandy beach at sunset",
   "description": "A happy golden retriever sprints along a sandy shoreline as warm golden light from the setting sun reflects off the ocean waves behind it.",
-  "tags": ["golden retriever", "dog", "beach", "sunset", "running", "ocean", "sand", "pet", "animal", "golden hour", "waves", "shore", "happy", "playful", "summer", "outdoors", "nature", "warm light", "water", "coastal", "companion", "freedom", "joy", "tropical", "vacation", "lifestyle", "active", "beautiful", "scenic", "horizon"],
+  "tags": [{"tag": "golden retriever", "relevance": 0.98}, {"tag": "dog", "relevance": 0.96}, {"tag": "beach", "relevance": 0.94}, {"tag": "sunset", "relevance": 0.92}, {"tag": "running", "relevance": 0.90}, {"tag": "ocean", "relevance": 0.88}, {"tag": "sand", "relevance": 0.86}, {"tag": "pet", "relevance": 0.84}, {"tag": "animal", "relevance": 0.81}, {"tag": "golden hour", "relevance": 0.79}, {"tag": "waves", "relevance": 0.77}, {"tag": "shore", "relevance": 0.75}, {"tag": "happy", "relevance": 0.73}, {"tag": "playful", "relevance": 0.71}, {"tag": "summer", "relevance": 0.69}, {"tag": "outdoors", "relevance": 0.67}, {"tag": "nature", "relevance": 0.65}, {"tag": "warm light", "relevance": 0.63}, {"tag": "water", "relevance": 0.61}, {"tag": "coastal", "relevance": 0.59}, {"tag": "companion", "relevance": 0.57}, {"tag": "freedom", "relevance": 0.55}, {"tag": "joy", "relevance": 0.52}, {"tag": "tropical", "relevance": 0.50}, {"tag": "vacation", "relevance": 0.48}, {"tag": "lifestyle", "relevance": 0.46}, {"tag": "active", "relevance": 0.44}, {"tag": "beautiful", "relevance": 0.42}, {"tag": "scenic", "relevance": 0.40}, {"tag": "horizon", "relevance": 0.38}],
   "confidence": 0.90
 }`;
 }
@@ -1,5 +1,6 @@
 import type { PlatformType } from "@/types";
-import type { MarketplaceType, StrategyType } from "../types";
+import { getMarketplaceProfile } from "@/lib/marketplaces";
+import type { MarketplaceType, StrategyType, TaggingMode } from "../types";
 import { buildAdobeTagPrompt, ADOBE_DEFAULTS, getAdobeDescription } from "./adobe";
 import { buildEtsyTagPrompt, ETSY_DEFAULTS, getEtsyDescription } from "./etsy";
 import {
@@ -8,9 +9,21 @@ import {
   SHUTTERSTOCK_DEFAULTS,
   getGenericDescription,
 } from "./generic";
+import { buildCategoryRule, buildUsageRule } from "./shared";
 
 // Re-export shared utilities
-export { getStrategyPersona, buildClusteringPrompt, APPROVED_CATEGORIES } from "./shared";
+export {
+  getStrategyPersona,
+  buildCategoryRule,
+  buildUsageRule,
+  buildClusteringPrompt,
+  buildRepairPrompt,
+  isSpecificContext,
+  formatTaxonomyCategory,
+  APPROVED_CATEGORIES,
+  DEFAULT_TAXONOMY,
+  TAG_RELEVANCE_RULE,
+} from "./shared";
 export type { ApprovedCategory } from "./shared";
 
 // Re-export description helpers
@@ -68,6 +81,8 @@ export interface TagPromptOptions {
   strategy?: StrategyType;
   maxTags?: number;
   imageCount?: number;
+  mode?: TaggingMode;
+  editorial?: boolean;
 }
 
 export function buildTagPrompt(options: TagPromptOptions): string;
@@ -84,24 +99,40 @@ export function buildTagPrompt(
   let marketplace: MarketplaceType;
   let strategy: StrategyType;
   let maxTags: number;
+  let editorial = false;
 
   if (typeof marketplaceOrOptions === "object") {
     marketplace = marketplaceOrOptions.marketplace;
     strategy = marketplaceOrOptions.strategy || "standard";
     maxTags = marketplaceOrOptions.maxTags || 25;
+    editorial = marketplaceOrOptions.editorial ?? false;
   } else {
     marketplace = marketplaceOrOptions;
     strategy = strategyArg || "standard";
     maxTags = maxTagsArg || 25;
   }
 
-  if (marketplace === "ETSY") {
-    return buildEtsyTagPrompt(strategy, maxTags);
-  }
-  if (marketplace === "ADOBE_STOCK") {
-    return buildAdobeTagPrompt(strategy, maxTags);
+  return (
+    buildStrategyTagPrompt(marketplace, strategy, maxTags) +
+    buildCategoryRule(marketplace) +
+    buildUsageRule(editorial)
+  );
+}
+
+function buildStrategyTagPrompt(
+  marketplace: MarketplaceType,
+  strategy: StrategyType,
+  maxTags: number
+): string {
+  switch (getMarketplaceProfile(marketplace).promptStrategy) {
+    case "etsy":
+      return buildEtsyTagPrompt(strategy, maxTags);
+    case "stock":
+      return buildAdobeTagPrompt(strategy, maxTags);
+    case "standard":
+    default:
+      return buildGenericTagPrompt(strategy, maxTags);
   }
-  return buildGenericTagPrompt(strategy, maxTags);
 }
 
 /**
@@ -121,11 +152,25 @@ function buildBatchGuard(imageCount: number): string {
 `;
 }
 
+/**
+ * Guard for per-image tagging. Images in a cluster look alike, and agencies reject
+ * near-identical metadata, so each title and keyword set must be specific to its image.
+ */
+export function buildPerImageGuard(): string {
+  return `PER-IMAGE ANALYSIS — This image is one of several similar photos from the same shoot.
+1. The title must describe THIS image specifically (subject, action, angle, framing).
+2. Include keywords for details that distinguish this image from similar shots.
+3. Still cover the general subject, but never reuse a generic title like "Food photo".
+
+`;
+}
+
 export function buildPlatformTagPrompt(
   options: TagPromptOptions & { platform?: PlatformType }
 ): string {
   const basePrompt = buildTagPrompt(options);
-  const batchGuard = buildBatchGuard(options.imageCount || 1);
+  const batchGuard =
+    options.mode === "per-image" ? buildPerImageGuard() : buildBatchGuard(options.imageCount || 1);
 
   if (!options.platform || options.platform === "GENERIC") {
     return batchGuard + basePrompt;
@@ -1,4 +1,5 @@
-import type { StrategyType, MarketplaceType } from "../types";
+import type { StrategyType, MarketplaceType, TaxonomyCategory } from "../types";
+import { getMarketplaceProfile, isMarketplaceId } from "@/lib/marketplaces";
 
 const STRATEGY_PERSONAS: Record<StrategyType, string> = {
   standard: "",
@@ -14,6 +15,61 @@ export function getStrategyPersona(strategy: StrategyType): string {
   return STRATEGY_PERSONAS[strategy] || "";
 }
 
+/**
+ * Relevance scoring rule appended to every tag prompt. Agencies weigh the first
+ * keywords most heavily (Adobe Stock: the first 10), so ordering comes from the model's scores.
+ */
+export const TAG_RELEVANCE_RULE = `RELEVANCE SCORING:
+- Return every tag as an object: {"tag": "...", "relevance": 0.0–1.0}. 1.0 = the main subject.
+- List tags in DESCENDING relevance. The first 10 tags carry the most search weight.
+- Be honest: generic or conceptual tags score lower than what is clearly visible.`;
+
+/**
+ * Category rule appended to tag prompts for agencies with an official category list
+ * (Adobe Stock 1–21, Shutterstock's fixed names). Empty for everyone else.
+ */
+export function buildCategoryRule(marketplace: MarketplaceType): string {
+  const { name, categories, limits } = getMarketplaceProfile(marketplace);
+  if (categories.length === 0 || limits.maxCategories === 0) return "";
+
+  const list = categories
+    .map((c) => (c.code === c.label ? `- ${c.code}` : `- ${c.code}: ${c.label}`))
+    .join("\n");
+  const count = limits.maxCategories === 1 ? "exactly 1" : `1 to ${limits.maxCategories}`;
+  return `
+
+${name.toUpperCase()} CATEGORY:
+Also classify the image into ${count} of ${name}'s official categories, most fitting first.
+Add a "categories" array to the JSON with the category CODES exactly as listed:
+${list}`;
+}
+
+/**
+ * Usage rule appended to every tag prompt. Commercial licences exclude brands and
+ * characters, so their names must stay out of the metadata, and need releases for
+ * the people and property shown; editorial files are captioned factually, may name
+ * what is visible and need no releases.
+ */
+export function buildUsageRule(editorial: boolean): string {
+  return editorial
+    ? `
+
+EDITORIAL USE:
+These images are licensed for editorial use only. Describe them factually: who, what and where.
+Visible brands, landmarks and events may be named. No opinions or marketing language.`
+    : `
+
+COMMERCIAL USE:
+Never name brands, trademarks, logos, product models or copyrighted characters in the title,
+description or tags. Use generic terms instead ("smartphone", not "iPhone").
+
+RELEASES:
+Add a "release" field to the JSON saying which signed release commercial use needs:
+- "model" if any person is recognisable (face, distinctive tattoo, silhouette of a known person)
+- "property" if private property is the subject (home interiors, artwork, recognisable pets)
+- "none" otherwise (crowds of unrecognisable people, public landscapes, generic objects)`;
+}
+
 export const APPROVED_CATEGORIES = [
   "Gastronomy",
   "Architecture",
@@ -29,39 +85,102 @@ export const APPROVED_CATEGORIES = [
 
 export type ApprovedCategory = (typeof APPROVED_CATEGORIES)[number];
 
+/** Taxonomy used when a batch has no saved taxonomy selected. */
+export const DEFAULT_TAXONOMY: readonly TaxonomyCategory[] = APPROVED_CATEGORIES.map((name) => ({
+  name,
+}));
+
+/** One prompt line per category: "Dessert — sweet courses (e.g. cake, tart)". */
+export function formatTaxonomyCategory(category: TaxonomyCategory): string {
+  const description = category.description ? ` — ${category.description}` : "";
+  const keywords = category.keywords?.length
+    ? ` (e.g. ${category.keywords.slice(0, 8).join(", ")})`
+    : "";
+  return `${category.name}${description}${keywords}`;
+}
+
+// Context strings that say nothing about the shoot ("My Photos") are treated as empty
+const VAGUE_CONTEXT_PATTERN =
+  /^(my |the |some |random |new )?(photos?|pictures?|pics|images?|shots?|stuff|misc|uploads?|batch|test)$/i;
+
+/** True when the context names a specific shoot or theme worth grouping around. */
+export function isSpecificContext(context?: string): context is string {
+  const trimmed = context?.trim() ?? "";
+  return trimmed.length >= 3 && !VAGUE_CONTEXT_PATTERN.test(trimmed);
+}
+
+/**
+ * Clustering prompt built from the marketplace, the user's free-text context and the
+ * category taxonomy. Without a specific context the model files images strictly into
+ * taxonomy categories (Librarian); with one it groups around the shoot's story
+ * (Storyteller), mirroring the OpenAI Archivist modes.
+ */
 export function buildClusteringPrompt(
   imageIndex: string,
-  _marketplace: MarketplaceType,
+  marketplace: MarketplaceType,
   maxGroups: number,
-  _context?: string
+  context?: string,
+  taxonomy: readonly TaxonomyCategory[] = DEFAULT_TAXONOMY
 ): string {
-  return `You are an automated Metadata Engine for Adobe Stock.
-Your job is to group images and generate commercial metadata.
+  const categories = taxonomy.length > 0 ? taxonomy : DEFAULT_TAXONOMY;
+  const categoryList = categories.map((c) => `      • ${formatTaxonomyCategory(c)}`).join("\n");
+  const { clusterBrief: brief } = getMarketplaceProfile(
+    isMarketplaceId(marketplace) ? marketplace : "ADOBE_STOCK"
+  );
+  const storyteller = isSpecificContext(context);
+  const example = storyteller
+    ? `{"title":"Main Stage Crowd","semanticTags":["<closest category>","crowd","stage","lights","hands","night","concert","audience","festival","music","celebration"]`
+    : `{"title":"${categories[0]?.name ?? "Gastronomy"}","semanticTags":["lettuce","tomato","bowl","fresh","healthy","lunch","green","vegetable","diet","meal","fork","dressing"]`;
+
+  const titleRule = storyteller
+    ? `1. **TITLE** — STORYTELLER MODE. The user describes this upload as: "${context.trim()}".
+   - Group images around the story of that shoot: scenes, moments, subjects within it.
+   - Titles are 1–4 words and specific to the shoot (e.g. "Main Stage Crowd", "Food Stalls"), never a bare category.
+   - You MAY combine different subjects (a guitar and a burger) when they belong to the same moment of the shoot.
+   - The FIRST semanticTag must be the closest category from this taxonomy:
+${categoryList}`
+    : `1. **TITLE** — LIBRARIAN MODE. Must be EXACTLY one of these category names (no variations, no description text):
+${categoryList}
+   - Never lump different categories into one group because they share a mood or colour.
+   - Use a category only for images that clearly belong to it.`;
+
+  return `${brief}
 
 STRICT OUTPUT RULES:
 
-1. **TITLE**: Must be EXACTLY one of these (no variations):
-   - Gastronomy
-   - Architecture
-   - Nature
-   - People
-   - Objects
-   - Transportation
-   - Urban
+${titleRule}
 
 2. **TAGS (semanticTags)**:
    - You MUST generate **10 to 20 keywords** per group.
    - Tags must be specific visual elements (objects, colors, textures, materials, actions).
-   - **FORBIDDEN:** Do not repeat the category name. Do not use "image", "photo", "picture".
+   - **FORBIDDEN:** Do not repeat the group title. Do not use "image", "photo", "picture".
    - Example for a Salad photo: ["lettuce", "tomato", "bowl", "fresh", "healthy", "lunch", "green", "vegetable", "diet", "meal", "fork", "dressing"].
 
 3. **GROUPING**:
-   - Combine similar images. Salad + Beer + Steak = ONE group titled "Gastronomy".
+   - Combine similar images into the same group; split images that a buyer would search for differently.
    - Maximum ${maxGroups} groups.
+   - Every image must be assigned to exactly one group.
 
 IMAGES TO PROCESS:
 ${imageIndex}
 
 Return ONLY valid JSON (no markdown, no explanation):
-{"groups":[{"title":"Gastronomy","semanticTags":["lettuce","tomato","bowl","fresh","healthy","lunch","green","vegetable","diet","meal","fork","dressing"],"imageIds":["id1","id2"],"confidence":0.95}]}`;
+{"groups":[${example},"imageIds":["id1","id2"],"confidence":0.95}]}`;
+}
+
+/**
+ * Follow-up turn sent once when a response fails schema validation.
+ * Lists the concrete issues so the model can fix them instead of guessing.
+ */
+export function buildRepairPrompt(issues: string[]): string {
+  const issueList = issues
+    .slice(0, 10)
+    .map((issue) => `- ${issue}`)
+    .join("\n");
+
+  return `Your previous response could not be used. Validation errors:
+${issueList}
+
+Return the SAME answer corrected to fix every error above.
+Return ONLY valid JSON (no markdown, no explanation) in the exact structure requested.`;
 }
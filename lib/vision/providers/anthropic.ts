@@ -3,21 +3,34 @@ import type {
   IVisionProvider,
   ClusterResult,
   ClusterImageInput,
-  ImageClusterGroup,
   TagImageInput,
   ImageTagResult,
   MarketplaceType,
   StrategyType,
+  TaggingMode,
+  TaxonomyCategory,
 } from "../types";
 import type { PlatformType } from "@/types";
-import { getMediaType, extractBase64Data, extractJsonFromResponse } from "../utils";
+import { resolveCategoryCodes } from "@/lib/marketplaces";
+import { getMediaType, extractBase64Data, runSettledWithConcurrency } from "../utils";
 import { buildClusteringPrompt, buildPlatformTagPrompt, getPlatformConfig } from "../prompts/index";
+import {
+  ClusterResponseSchema,
+  TagResponseSchema,
+  checkClusterImageIds,
+  parseWithRepair,
+  toClusterResult,
+} from "../schemas";
 
 export interface AnthropicProviderConfig {
   apiKey?: string;
   model?: string;
 }
 
+// Parallel calls per request in per-image mode; the route caps those requests at 4
+// images, so every image call starts at once and shares one provider timeout
+const PER_IMAGE_CONCURRENCY = 4;
+
 export class AnthropicVisionProvider implements IVisionProvider {
   readonly name = "anthropic";
   private client: Anthropic;
@@ -34,16 +47,11 @@ export class AnthropicVisionProvider implements IVisionProvider {
     images: ClusterImageInput[],
     marketplace: MarketplaceType,
     maxGroups: number,
-    context?: string
+    context?: string,
+    taxonomy?: readonly TaxonomyCategory[],
+    signal?: AbortSignal
   ): Promise<ClusterResult> {
-    const imageContent: Anthropic.ImageBlockParam[] = images.map((img) => ({
-      type: "image" as const,
-      source: {
-        type: "base64" as const,
-        media_type: getMediaType(img.dataUrl),
-        data: extractBase64Data(img.dataUrl),
-      },
-    }));
+    const imageContent = this.toImageBlocks(images);
 
     const imageIndex = images
       .map((img, i) => {
@@ -52,29 +60,26 @@ export class AnthropicVisionProvider implements IVisionProvider {
       })
       .join("\n");
 
-    const prompt = buildClusteringPrompt(imageIndex, marketplace, maxGroups, context);
-
-    const message = await this.client.messages.create({
-      model: this.model,
-      max_tokens: 2000,
-      messages: [
-        {
-          role: "user",
-          content: [
-            ...imageContent,
-            {
-              type: "text",
-              text: prompt,
-            },
-          ],
-        },
-      ],
+    const prompt = buildClusteringPrompt(imageIndex, marketplace, maxGroups, context, taxonomy);
+    const content: Anthropic.ContentBlockParam[] = [
+      ...imageContent,
+      {
+        type: "text",
+        text: prompt,
+      },
+    ];
+
+    const responseText = await this.complete(content, 2000, signal);
+    const parsed = await parseWithRepair({
+      provider: this.name,
+      schema: ClusterResponseSchema,
+      responseText,
+      check: checkClusterImageIds(images),
+      repair: (repairPrompt, previous) =>
+        this.complete(content, 2000, signal, { previous, repairPrompt }),
     });
 
-    const firstContent = message.content[0];
-    const responseText = firstContent?.type === "text" ? firstContent.text : "";
-
-    return this.parseClusterResponse(responseText, images);
+    return toClusterResult(parsed, images);
   }
 
   async generateTags(
@@ -82,12 +87,66 @@ export class AnthropicVisionProvider implements IVisionProvider {
     marketplace: MarketplaceType,
     strategy: StrategyType = "standard",
     maxTags: number = 25,
-    platform?: PlatformType
+    platform?: PlatformType,
+    mode: TaggingMode = "group",
+    editorial: boolean = false,
+    signal?: AbortSignal
   ): Promise<ImageTagResult[]> {
     if (images.length === 0) return [];
 
+    if (mode === "per-image") {
+      // One call per image so every photo gets its own title and keywords
+      const tasks = images.map((img) => async () => ({
+        ...(await this.tagSample(
+          [img],
+          marketplace,
+          strategy,
+          maxTags,
+          platform,
+          mode,
+          editorial,
+          signal
+        )),
+        imageId: img.id,
+      }));
+      // Failed images are left out so the route bills and refunds per image
+      const { values, errors } = await runSettledWithConcurrency(tasks, PER_IMAGE_CONCURRENCY);
+      if (values.length === 0) throw errors[0];
+      if (errors.length > 0) {
+        console.error(
+          `[Anthropic] Per-image tagging failed for ${errors.length}/${images.length} images:`,
+          errors[0]
+        );
+      }
+      return values;
+    }
+
     // Send up to 4 images in a single API call for batch analysis
-    const sampleImages = images.slice(0, 4);
+    const result = await this.tagSample(
+      images.slice(0, 4),
+      marketplace,
+      strategy,
+      maxTags,
+      platform,
+      mode,
+      editorial,
+      signal
+    );
+
+    // Apply the same tags to all images in the batch
+    return images.map((img) => ({ ...result, imageId: img.id }));
+  }
+
+  private async tagSample(
+    sampleImages: TagImageInput[],
+    marketplace: MarketplaceType,
+    strategy: StrategyType,
+    maxTags: number,
+    platform: PlatformType | undefined,
+    mode: TaggingMode,
+    editorial: boolean,
+    signal: AbortSignal | undefined
+  ): Promise<Omit<ImageTagResult, "imageId">> {
     const effectiveMaxTags = maxTags || (platform ? getPlatformConfig(platform).maxTags : 25);
     const prompt = buildPlatformTagPrompt({
       marketplace,
@@ -95,169 +154,74 @@ export class AnthropicVisionProvider implements IVisionProvider {
       maxTags: effectiveMaxTags,
       platform,
       imageCount: sampleImages.length,
+      mode,
+      editorial,
     });
 
-    try {
-      const imageBlocks: Anthropic.ImageBlockParam[] = sampleImages.map((img) => ({
-        type: "image" as const,
-        source: {
-          type: "base64" as const,
-          media_type: getMediaType(img.dataUrl),
-          data: extractBase64Data(img.dataUrl),
-        },
-      }));
-
-      const message = await this.client.messages.create({
-        model: this.model,
-        max_tokens: 1500,
-        messages: [
-          {
-            role: "user",
-            content: [...imageBlocks, { type: "text", text: prompt }],
-          },
-        ],
-      });
-
-      const firstContent = message.content[0];
-      const responseText = firstContent?.type === "text" ? firstContent.text : "";
-      const result = this.parseTagResponse(responseText, sampleImages[0]!.id);
+    const content: Anthropic.ContentBlockParam[] = [
+      ...this.toImageBlocks(sampleImages),
+      { type: "text", text: prompt },
+    ];
+
+    const responseText = await this.complete(content, 1500, signal);
+    const parsed = await parseWithRepair({
+      provider: this.name,
+      schema: TagResponseSchema,
+      responseText,
+      repair: (repairPrompt, previous) =>
+        this.complete(content, 1500, signal, { previous, repairPrompt }),
+    });
 
-      // Apply the same tags to all images in the batch
-      return images.map((img) => ({ ...result, imageId: img.id }));
-    } catch (error) {
-      console.error("Failed to generate tags for batch:", error);
-      return images.map((img) => ({
-        imageId: img.id,
-        title: "Error",
-        description: "Failed to generate tags for this image",
-        tags: [],
-        confidence: 0,
-      }));
-    }
+    return {
+      title: parsed.title,
+      description: parsed.description,
+      tags: parsed.tags,
+      tagRelevance: parsed.tagRelevance,
+      confidence: parsed.confidence ?? 0.7,
+      categories: resolveCategoryCodes(parsed.categories ?? [], marketplace),
+      releaseNeeded: parsed.release,
+    };
   }
 
-  private parseClusterResponse(
-    responseText: string,
-    originalImages: ClusterImageInput[]
-  ): ClusterResult {
-    try {
-      const parsed = extractJsonFromResponse(responseText) as {
-        groups: Array<{
-          groupId?: string;
-          imageIds?: string[];
-          image_ids?: string[];
-          title?: string;
-          name?: string; // AI sometimes returns 'name' instead of 'title'
-          category?: string; // AI sometimes returns 'category'
-          suggestedLabel?: string;
-          semanticTags?: string[] | string; // AI may return array OR comma-separated string
-          keywords?: string[] | string; // AI may return array OR comma-separated string
-          tags?: string[] | string; // AI may return array OR comma-separated string
-          label?: string;
-          confidence?: number;
-        }>;
-      };
-
-      const groups: ImageClusterGroup[] = parsed.groups.map((group, index) => {
-        // Helper: Convert string to array (handles comma-separated strings)
-        const toArray = (val: string[] | string | undefined): string[] | undefined => {
-          if (Array.isArray(val)) return val;
-          if (typeof val === "string" && val.trim()) {
-            return val
-              .split(",")
-              .map((s) => s.trim())
-              .filter(Boolean);
-          }
-          return undefined;
-        };
-
-        // Extract semanticTags - check multiple possible field names, handle string values
-        const semanticTags =
-          toArray(group.semanticTags) ||
-          toArray(group.keywords) ||
-          toArray(group.tags) ||
-          (group.suggestedLabel || group.label || group.name
-            ? [group.suggestedLabel || group.label || group.name || ""]
-            : undefined);
-
-        // Title priority: explicit title > name > category > first semanticTag > suggestedLabel > label
-        const title =
-          group.title ||
-          group.name ||
-          group.category ||
-          semanticTags?.[0] ||
-          group.suggestedLabel ||
-          group.label;
-
-        return {
-          groupId: group.groupId || `group-${index + 1}`,
-          imageIds: group.imageIds || group.image_ids || [],
-          title,
-          suggestedLabel: title, // Keep suggestedLabel in sync for backwards compatibility
-          semanticTags,
-          confidence: typeof group.confidence === "number" ? group.confidence : 0.8,
-        };
-      });
-
-      const assignedIds = new Set(groups.flatMap((g) => g.imageIds));
-      const unassignedIds = originalImages
-        .map((img) => img.id)
-        .filter((id) => !assignedIds.has(id));
-
-      if (unassignedIds.length > 0) {
-        groups.push({
-          groupId: "group-unclustered",
-          imageIds: unassignedIds,
-          title: "Uncategorized",
-          suggestedLabel: "Uncategorized",
-          semanticTags: ["Uncategorized"],
-          confidence: 0.5,
-        });
-      }
+  private toImageBlocks(images: Array<{ dataUrl: string }>): Anthropic.ImageBlockParam[] {
+    return images.map((img) => ({
+      type: "image" as const,
+      source: {
+        type: "base64" as const,
+        media_type: getMediaType(img.dataUrl),
+        data: extractBase64Data(img.dataUrl),
+      },
+    }));
+  }
 
-      return { groups };
-    } catch (error) {
-      console.error("Failed to parse cluster response:", responseText, error);
-      return {
-        groups: [
-          {
-            groupId: "group-1",
-            imageIds: originalImages.map((img) => img.id),
-            title: "All Images",
-            suggestedLabel: "All Images",
-            semanticTags: ["All Images"],
-            confidence: 0.5,
-          },
-        ],
-      };
+  /**
+   * Single Messages API call. With `repair`, the previous answer and the repair
+   * prompt are appended so the model corrects its own output.
+   */
+  private async complete(
+    content: Anthropic.ContentBlockParam[],
+    maxTokens: number,
+    signal: AbortSignal | undefined,
+    repair?: { previous: string; repairPrompt: string }
+  ): Promise<string> {
+    const messages: Anthropic.MessageParam[] = [{ role: "user", content }];
+    if (repair) {
+      messages.push(
+        { role: "assistant", content: repair.previous || "{}" },
+        { role: "user", content: repair.repairPrompt }
+      );
     }
-  }
 
-  private parseTagResponse(responseText: string, imageId: string): ImageTagResult {
-    try {
-      const parsed = extractJsonFromResponse(responseText) as {
-        title?: string;
-        description?: string;
-        tags?: string[];
-        confidence?: number;
-      };
+    const message = await this.client.messages.create(
+      {
+        model: this.model,
+        max_tokens: maxTokens,
+        messages,
+      },
+      { signal }
+    );
 
-      return {
-        imageId,
-        title: parsed.title || "Untitled",
-        description: parsed.description || "",
-        tags: Array.isArray(parsed.tags) ? parsed.tags : [],
-        confidence: typeof parsed.confidence === "number" ? parsed.confidence : 0.7,
-      };
-    } catch (error) {
-      console.error("Failed to parse tag response:", responseText, error);
-      return {
-        imageId,
-        title: "Untitled",
-        description: "",
-        tags: [],
-        confidence: 0,
-      };
-    }
+    const firstContent = message.content[0];
+    return firstContent?.type === "text" ? firstContent.text : "";
   }
 }
@@ -0,0 +1,322 @@
+import type {
+  IVisionProvider,
+  ClusterResult,
+  ClusterImageInput,
+  TagImageInput,
+  ImageTagResult,
+  MarketplaceType,
+  StrategyType,
+  TaggingMode,
+  TaxonomyCategory,
+} from "../types";
+import type { PlatformType } from "@/types";
+import { VisionProviderError, toVisionProviderError } from "../errors";
+
+export interface FallbackProviderConfig {
+  /** Per-provider call budget before failing over; capped by what is left of `budgetMs`. */
+  timeoutMs?: number;
+  /** Time budget for the whole chain. Keep it under the route's maxDuration. */
+  budgetMs?: number;
+  /** Rolling window of outcomes used to compute the error rate. */
+  windowSize?: number;
+  /** Minimum samples in the window before the error rate can trip the breaker. */
+  minSamples?: number;
+  /** Error rate (0–1) at which the breaker opens. */
+  errorRateThreshold?: number;
+  /** How long an open breaker skips the provider before allowing a trial call. */
+  cooldownMs?: number;
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface ProviderHealthSnapshot {
+  provider: string;
+  state: CircuitState;
+  errorRate: number;
+  samples: number;
+}
+
+// ==============================================================
+// CIRCUIT BREAKER
+// ==============================================================
+
+/**
+ * Per-provider breaker. State lives in module scope, so on serverless it is
+ * per-instance — good enough to stop hammering a vendor that is clearly down.
+ */
+class CircuitBreaker {
+  private outcomes: boolean[] = [];
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    readonly provider: string,
+    private config: Required<Omit<FallbackProviderConfig, "timeoutMs" | "budgetMs">>
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return "closed";
+    return Date.now() - this.openedAt >= this.config.cooldownMs ? "half-open" : "open";
+  }
+
+  get errorRate(): number {
+    if (this.outcomes.length === 0) return 0;
+    return this.outcomes.filter((ok) => !ok).length / this.outcomes.length;
+  }
+
+  /** Closed: always. Half-open: one trial call at a time. Open: never. */
+  canAttempt(): boolean {
+    const state = this.state;
+    if (state === "closed") return true;
+    if (state === "half-open" && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.record(true);
+    if (this.openedAt !== null) {
+      // Trial succeeded — start fresh so old failures don't immediately re-trip
+      this.openedAt = null;
+      this.outcomes = [];
+    }
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.record(false);
+    if (this.openedAt !== null) {
+      // Failed trial — restart the cooldown
+      this.openedAt = Date.now();
+    } else if (
+      this.outcomes.length >= this.config.minSamples &&
+      this.errorRate >= this.config.errorRateThreshold
+    ) {
+      this.openedAt = Date.now();
+    }
+    this.trialInFlight = false;
+  }
+
+  /** Client and internal errors say nothing about the provider's health: free the trial. */
+  releaseTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  snapshot(): ProviderHealthSnapshot {
+    return {
+      provider: this.provider,
+      state: this.state,
+      errorRate: Number(this.errorRate.toFixed(2)),
+      samples: this.outcomes.length,
+    };
+  }
+
+  private record(ok: boolean): void {
+    this.outcomes.push(ok);
+    if (this.outcomes.length > this.config.windowSize) this.outcomes.shift();
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+/** Current breaker state for every provider seen by this instance. */
+export function getProviderHealth(): ProviderHealthSnapshot[] {
+  return Array.from(breakers.values()).map((b) => b.snapshot());
+}
+
+// ==============================================================
+// HELPERS
+// ==============================================================
+
+// Below this, a provider cannot finish a call; the chain gives up instead
+const MIN_ATTEMPT_MS = 1_000;
+
+/**
+ * Run `call` with its own AbortSignal and abort it after `timeoutMs`, so a provider
+ * that loses the race stops its vendor request instead of running on (and billing)
+ * while the next provider handles the same chunk. An abort of `parent` is passed on.
+ */
+function withTimeout<T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  provider: string,
+  parent?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  parent?.addEventListener("abort", abort, { once: true });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      // Reject first so the race reports a timeout, not the SDK's abort error
+      reject(
+        new VisionProviderError(`[${provider}] Timed out after ${timeoutMs}ms`, {
+          kind: "timeout",
+          provider,
+        })
+      );
+      controller.abort();
+    }, timeoutMs);
+  });
+  return Promise.race([call(controller.signal), timeout]).finally(() => {
+    clearTimeout(timer);
+    parent?.removeEventListener("abort", abort);
+  });
+}
+
+// ==============================================================
+// MAIN CLASS
+// ==============================================================
+
+/**
+ * Composite provider: tries each provider in order, failing over on timeouts,
+ * 5xx/429, network errors and unparseable output. Client errors (4xx) are thrown
+ * straight away since the next vendor would reject the same request; so are our own
+ * bugs and aborts ("internal"). Neither counts against the breaker. Every attempt shares one time budget for the chain.
+ * Results are stamped with the name of the provider that actually served them.
+ */
+export class FallbackVisionProvider implements IVisionProvider {
+  readonly name: string;
+  private providers: IVisionProvider[];
+  private timeoutMs: number;
+  private budgetMs: number;
+
+  constructor(providers: IVisionProvider[], config: FallbackProviderConfig = {}) {
+    if (providers.length === 0) {
+      throw new Error("FallbackVisionProvider requires at least one provider");
+    }
+    this.providers = providers;
+    this.name = providers.map((p) => p.name).join(">");
+    this.timeoutMs = config.timeoutMs ?? 25_000;
+    // Route maxDuration is 60s; leave room for auth, credits and the response
+    this.budgetMs = config.budgetMs ?? 50_000;
+
+    const breakerConfig = {
+      windowSize: config.windowSize ?? 20,
+      minSamples: config.minSamples ?? 5,
+      errorRateThreshold: config.errorRateThreshold ?? 0.5,
+      cooldownMs: config.cooldownMs ?? 30_000,
+    };
+    for (const provider of providers) {
+      if (!breakers.has(provider.name)) {
+        breakers.set(provider.name, new CircuitBreaker(provider.name, breakerConfig));
+      }
+    }
+  }
+
+  async clusterImages(
+    images: ClusterImageInput[],
+    marketplace: MarketplaceType,
+    maxGroups: number,
+    context?: string,
+    taxonomy?: readonly TaxonomyCategory[],
+    signal?: AbortSignal
+  ): Promise<ClusterResult> {
+    const { result, provider } = await this.run(
+      (p, attemptSignal) =>
+        p.clusterImages(images, marketplace, maxGroups, context, taxonomy, attemptSignal),
+      signal
+    );
+    return { ...result, provider };
+  }
+
+  async generateTags(
+    images: TagImageInput[],
+    marketplace: MarketplaceType,
+    strategy?: StrategyType,
+    maxTags?: number,
+    platform?: PlatformType,
+    mode?: TaggingMode,
+    editorial?: boolean,
+    signal?: AbortSignal
+  ): Promise<ImageTagResult[]> {
+    const { result, provider } = await this.run(
+      (p, attemptSignal) =>
+        p.generateTags(
+          images,
+          marketplace,
+          strategy,
+          maxTags,
+          platform,
+          mode,
+          editorial,
+          attemptSignal
+        ),
+      signal
+    );
+    return result.map((r) => ({ ...r, provider }));
+  }
+
+  private async run<T>(
+    call: (provider: IVisionProvider, signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<{ result: T; provider: string }> {
+    const failures: VisionProviderError[] = [];
+    const skipped: string[] = [];
+    const outOfTime: string[] = [];
+    const deadline = Date.now() + this.budgetMs;
+
+    for (const provider of this.providers) {
+      const remainingMs = deadline - Date.now();
+      if (remainingMs < MIN_ATTEMPT_MS) {
+        outOfTime.push(provider.name);
+        continue;
+      }
+      const breaker = breakers.get(provider.name)!;
+      if (!breaker.canAttempt()) {
+        skipped.push(provider.name);
+        continue;
+      }
+
+      try {
+        const result = await withTimeout(
+          (attemptSignal) => call(provider, attemptSignal),
+          Math.min(this.timeoutMs, remainingMs),
+          provider.name,
+          signal
+        );
+        breaker.recordSuccess();
+        if (failures.length > 0 || skipped.length > 0) {
+          console.log(
+            JSON.stringify({
+              event: "vision_failover",
+              servedBy: provider.name,
+              failed: failures.map((f) => ({ provider: f.provider, kind: f.kind })),
+              skipped,
+            })
+          );
+        }
+        return { result, provider: provider.name };
+      } catch (error) {
+        const visionError = toVisionProviderError(error, provider.name);
+        if (visionError.retryable) breaker.recordFailure();
+        else breaker.releaseTrial();
+        console.error(
+          JSON.stringify({
+            event: "vision_provider_error",
+            provider: provider.name,
+            kind: visionError.kind,
+            status: visionError.status,
+            error: visionError.message,
+            health: breaker.snapshot(),
+          })
+        );
+        if (!visionError.retryable) throw visionError;
+        failures.push(visionError);
+      }
+    }
+
+    const last = failures[failures.length - 1];
+    throw new VisionProviderError(
+      `All vision providers failed (${[
+        ...failures.map((f) => `${f.provider}: ${f.kind}`),
+        ...skipped.map((name) => `${name}: circuit open`),
+        ...outOfTime.map((name) => `${name}: out of time`),
+      ].join(", ")})`,
+      { kind: last?.kind ?? "unavailable", provider: this.name, status: last?.status, cause: last }
+    );
+  }
+}
@@ -0,0 +1,464 @@
+import { inflateSync } from "zlib";
+import type {
+  IVisionProvider,
+  ClusterResult,
+  ClusterImageInput,
+  ImageClusterGroup,
+  TagImageInput,
+  ImageTagResult,
+  MarketplaceType,
+  StrategyType,
+  TaggingMode,
+  TaxonomyCategory,
+} from "../types";
+import type { PlatformType } from "@/types";
+import { getMarketplaceProfile } from "@/lib/marketplaces";
+import { extractBase64Data, getMediaType } from "../utils";
+import { getPlatformConfig } from "../prompts/index";
+import {
+  computeFingerprint,
+  fingerprintDistance,
+  type ImageFingerprint,
+  type RgbaImage,
+} from "../fingerprint";
+
+export interface LocalProviderConfig {
+  /** Seed mixed into every tag selection. Same seed + same pixels → same output. */
+  seed?: string;
+  /** Max fingerprint distance (0–1) for two images to share a cluster. */
+  clusterThreshold?: number;
+}
+
+// ==============================================================
+// VOCABULARY
+// ==============================================================
+
+interface CategoryVocabulary {
+  title: string;
+  nouns: string[];
+  concepts: string[];
+}
+
+// Hue ranges (degrees) mapped to an approved clustering category.
+// Greyscale images (dominantHue === -1) fall through to Architecture.
+const HUE_CATEGORIES: Array<{ from: number; to: number; vocab: CategoryVocabulary }> = [
+  {
+    from: 0,
+    to: 40,
+    vocab: {
+      title: "Gastronomy",
+      nouns: ["food", "meal", "dish", "plate", "bread", "spice", "dessert", "kitchen"],
+      concepts: ["delicious", "homemade", "gourmet", "warm", "fresh", "tasty"],
+    },
+  },
+  {
+    from: 40,
+    to: 70,
+    vocab: {
+      title: "Objects",
+      nouns: ["object", "product", "detail", "item", "still", "tabletop", "accessory"],
+      concepts: ["simple", "studio", "closeup", "design", "minimal", "crafted"],
+    },
+  },
+  {
+    from: 70,
+    to: 170,
+    vocab: {
+      title: "Nature",
+      nouns: ["nature", "forest", "leaf", "plant", "grass", "tree", "garden", "meadow"],
+      concepts: ["green", "organic", "outdoor", "growth", "calm", "environment"],
+    },
+  },
+  {
+    from: 170,
+    to: 260,
+    vocab: {
+      title: "Transportation",
+      nouns: ["sky", "water", "sea", "travel", "horizon", "coast", "road", "journey"],
+      concepts: ["blue", "open", "freedom", "vacation", "scenic", "distance"],
+    },
+  },
+  {
+    from: 260,
+    to: 330,
+    vocab: {
+      title: "Art & Design",
+      nouns: ["art", "pattern", "texture", "abstract", "design", "color", "decor"],
+      concepts: ["creative", "vibrant", "modern", "artistic", "bold", "expressive"],
+    },
+  },
+  {
+    from: 330,
+    to: 360,
+    vocab: {
+      title: "People",
+      nouns: ["people", "portrait", "person", "lifestyle", "fashion", "face", "style"],
+      concepts: ["emotion", "candid", "authentic", "human", "expression", "warmth"],
+    },
+  },
+];
+
+const GREYSCALE_VOCABULARY: CategoryVocabulary = {
+  title: "Architecture",
+  nouns: ["architecture", "building", "structure", "facade", "concrete", "urban", "city"],
+  concepts: ["monochrome", "geometric", "minimal", "contrast", "modern", "lines"],
+};
+
+const HUE_NAMES: Array<{ to: number; name: string }> = [
+  { to: 15, name: "red" },
+  { to: 45, name: "orange" },
+  { to: 70, name: "yellow" },
+  { to: 170, name: "green" },
+  { to: 200, name: "cyan" },
+  { to: 260, name: "blue" },
+  { to: 300, name: "purple" },
+  { to: 340, name: "pink" },
+  { to: 360, name: "red" },
+];
+
+// ==============================================================
+// HELPERS
+// ==============================================================
+
+/** FNV-1a 32-bit hash — stable string → integer for PRNG seeding. */
+function hashString(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** mulberry32 — tiny deterministic PRNG returning floats in [0, 1). */
+function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function seededShuffle<T>(items: T[], rng: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j]!, result[i]!];
+  }
+  return result;
+}
+
+function vocabularyFor(fingerprint: ImageFingerprint): CategoryVocabulary {
+  if (fingerprint.dominantHue < 0) return GREYSCALE_VOCABULARY;
+  const match = HUE_CATEGORIES.find(
+    (c) => fingerprint.dominantHue >= c.from && fingerprint.dominantHue < c.to
+  );
+  return match?.vocab ?? GREYSCALE_VOCABULARY;
+}
+
+function colourName(fingerprint: ImageFingerprint): string {
+  if (fingerprint.dominantHue < 0) {
+    return fingerprint.brightness > 0.6 ? "white" : fingerprint.brightness < 0.3 ? "black" : "grey";
+  }
+  return HUE_NAMES.find((h) => fingerprint.dominantHue < h.to)?.name ?? "red";
+}
+
+function lightingWords(fingerprint: ImageFingerprint): string[] {
+  const words: string[] = [];
+  if (fingerprint.brightness > 0.65) words.push("bright", "light", "airy");
+  else if (fingerprint.brightness < 0.35) words.push("dark", "moody", "dramatic");
+  else words.push("balanced", "natural");
+  if (fingerprint.saturation > 0.5) words.push("colorful", "vivid");
+  else if (fingerprint.saturation < 0.15) words.push("muted", "neutral");
+  return words;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// ==============================================================
+// PNG DECODING (8-bit, non-interlaced)
+// ==============================================================
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  if (pb <= pc) return b;
+  return c;
+}
+
+/**
+ * Decode an 8-bit, non-interlaced PNG into RGBA pixels.
+ * Returns null for anything else (16-bit, interlaced, malformed) so callers can fall back.
+ */
+function decodePng(bytes: Buffer): RgbaImage | null {
+  if (!PNG_SIGNATURE.every((b, i) => bytes[i] === b)) return null;
+
+  let offset = 8;
+  let width = 0;
+  let height = 0;
+  let colorType = 0;
+  let palette: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  while (offset + 8 <= bytes.length) {
+    const length = bytes.readUInt32BE(offset);
+    const type = bytes.toString("ascii", offset + 4, offset + 8);
+    const chunk = bytes.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === "IHDR") {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      const bitDepth = chunk[8];
+      colorType = chunk[9] ?? 0;
+      const interlace = chunk[12];
+      if (bitDepth !== 8 || interlace !== 0) return null;
+    } else if (type === "PLTE") {
+      palette = chunk;
+    } else if (type === "IDAT") {
+      idat.push(chunk);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  const channelsByType: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+  const channels = channelsByType[colorType];
+  if (!channels || width === 0 || height === 0 || idat.length === 0) return null;
+  if (colorType === 3 && !palette) return null;
+
+  let raw: Buffer;
+  try {
+    raw = inflateSync(Buffer.concat(idat));
+  } catch {
+    return null;
+  }
+
+  const stride = width * channels;
+  if (raw.length < height * (stride + 1)) return null;
+
+  const pixels = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const dst = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const value = raw[src + x] ?? 0;
+      const left = x >= channels ? pixels[dst + x - channels]! : 0;
+      const up = y > 0 ? pixels[dst - stride + x]! : 0;
+      const upLeft = y > 0 && x >= channels ? pixels[dst - stride + x - channels]! : 0;
+      let predicted = 0;
+      if (filter === 1) predicted = left;
+      else if (filter === 2) predicted = up;
+      else if (filter === 3) predicted = (left + up) >> 1;
+      else if (filter === 4) predicted = paeth(left, up, upLeft);
+      pixels[dst + x] = (value + predicted) & 0xff;
+    }
+  }
+
+  const rgba = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const p = i * channels;
+    const o = i * 4;
+    if (colorType === 0 || colorType === 4) {
+      rgba[o] = rgba[o + 1] = rgba[o + 2] = pixels[p]!;
+      rgba[o + 3] = colorType === 4 ? pixels[p + 1]! : 255;
+    } else if (colorType === 3) {
+      const entry = (pixels[p] ?? 0) * 3;
+      rgba[o] = palette![entry] ?? 0;
+      rgba[o + 1] = palette![entry + 1] ?? 0;
+      rgba[o + 2] = palette![entry + 2] ?? 0;
+      rgba[o + 3] = 255;
+    } else {
+      rgba[o] = pixels[p]!;
+      rgba[o + 1] = pixels[p + 1]!;
+      rgba[o + 2] = pixels[p + 2]!;
+      rgba[o + 3] = colorType === 6 ? pixels[p + 3]! : 255;
+    }
+  }
+
+  return { width, height, data: rgba };
+}
+
+/**
+ * Coarse fallback for formats we cannot decode without native deps (JPEG/WebP).
+ * The client sends PNG when this provider serves first (NEXT_PUBLIC_API_IMAGE_TYPE),
+ * so this only runs when it is a fallback behind a remote provider. Treats the
+ * compressed payload as a 16x16 pseudo-image: not perceptual, but deterministic —
+ * identical files always land together.
+ */
+function payloadAsPseudoImage(bytes: Buffer): RgbaImage {
+  const side = 16;
+  const data = new Uint8Array(side * side * 4);
+  const step = Math.max(1, Math.floor(bytes.length / (side * side * 3)));
+  for (let i = 0; i < side * side; i++) {
+    data[i * 4] = bytes[i * 3 * step] ?? 0;
+    data[i * 4 + 1] = bytes[(i * 3 + 1) * step] ?? 0;
+    data[i * 4 + 2] = bytes[(i * 3 + 2) * step] ?? 0;
+    data[i * 4 + 3] = 255;
+  }
+  return { width: side, height: side, data };
+}
+
+// ==============================================================
+// MAIN CLASS
+// ==============================================================
+
+/**
+ * Offline vision provider for development and CI (AI_PROVIDER=local).
+ * Clusters by perceptual hash + colour histogram and derives tags from a seeded
+ * vocabulary, so the same thumbnails always produce the same groups and tags.
+ */
+export class LocalVisionProvider implements IVisionProvider {
+  readonly name = "local";
+  private seed: string;
+  private clusterThreshold: number;
+
+  constructor(config: LocalProviderConfig = {}) {
+    this.seed = config.seed ?? process.env.LOCAL_VISION_SEED ?? "tagarchitect";
+    this.clusterThreshold = config.clusterThreshold ?? 0.35;
+  }
+
+  async clusterImages(
+    images: ClusterImageInput[],
+    _marketplace: MarketplaceType,
+    maxGroups: number,
+    _context?: string,
+    _taxonomy?: readonly TaxonomyCategory[]
+  ): Promise<ClusterResult> {
+    const fingerprints = images.map((img) => this.fingerprint(img.dataUrl));
+
+    // Greedy single pass in input order: join the nearest cluster under the threshold.
+    const clusters: number[][] = [];
+    for (let i = 0; i < images.length; i++) {
+      let best = -1;
+      let bestDistance = Infinity;
+      clusters.forEach((members, c) => {
+        const distance = fingerprintDistance(fingerprints[i]!, fingerprints[members[0]!]!);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = c;
+        }
+      });
+      if (best >= 0 && bestDistance <= this.clusterThreshold) {
+        clusters[best]!.push(i);
+      } else {
+        clusters.push([i]);
+      }
+    }
+
+    // Respect maxGroups by folding the smallest cluster into its nearest neighbour.
+    const limit = Math.max(1, maxGroups);
+    while (clusters.length > limit) {
+      clusters.sort((a, b) => b.length - a.length);
+      const smallest = clusters.pop()!;
+      let target = 0;
+      let targetDistance = Infinity;
+      clusters.forEach((members, c) => {
+        const distance = fingerprintDistance(
+          fingerprints[smallest[0]!]!,
+          fingerprints[members[0]!]!
+        );
+        if (distance < targetDistance) {
+          targetDistance = distance;
+          target = c;
+        }
+      });
+      clusters[target]!.push(...smallest);
+    }
+
+    const groups: ImageClusterGroup[] = clusters.map((members, index) => {
+      const lead = fingerprints[members[0]!]!;
+      const vocab = vocabularyFor(lead);
+      const semanticTags = [vocab.title, colourName(lead), ...lightingWords(lead)].slice(0, 3);
+      return {
+        groupId: `group-${index + 1}`,
+        imageIds: members.map((i) => images[i]!.id),
+        title: vocab.title,
+        suggestedLabel: vocab.title,
+        semanticTags,
+        confidence: Number((0.6 + 0.3 * (1 - Math.min(1, lead.saturation))).toFixed(2)),
+      };
+    });
+
+    return { groups };
+  }
+
+  async generateTags(
+    images: TagImageInput[],
+    marketplace: MarketplaceType,
+    _strategy: StrategyType = "standard",
+    maxTags: number = 25,
+    platform?: PlatformType,
+    _mode?: TaggingMode,
+    _editorial?: boolean
+  ): Promise<ImageTagResult[]> {
+    // Always per-image: tags derive from each image's own pixels in both modes
+    if (images.length === 0) return [];
+
+    const effectiveMaxTags = maxTags || (platform ? getPlatformConfig(platform).maxTags : 25);
+    return images.map((img) => this.tagImage(img, marketplace, effectiveMaxTags));
+  }
+
+  private tagImage(
+    image: TagImageInput,
+    marketplace: MarketplaceType,
+    maxTags: number
+  ): ImageTagResult {
+    const fingerprint = this.fingerprint(image.dataUrl);
+    const vocab = vocabularyFor(fingerprint);
+    const colour = colourName(fingerprint);
+    const lighting = lightingWords(fingerprint);
+    const rng = createRng(hashString(`${this.seed}:${fingerprint.aHash}:${image.dataUrl.length}`));
+
+    const nouns = seededShuffle(vocab.nouns, rng);
+    const concepts = seededShuffle([...vocab.concepts, ...lighting], rng);
+    const subject = nouns[0] ?? vocab.title.toLowerCase();
+
+    let tags: string[];
+    if (getMarketplaceProfile(marketplace).promptStrategy === "etsy") {
+      // Etsy-style marketplaces expect multi-word buyer phrases
+      tags = [
+        ...nouns.map((noun) => `${colour} ${noun}`),
+        ...concepts.map((concept) => `${concept} ${subject}`),
+      ];
+    } else {
+      tags = [subject, colour, ...nouns.slice(1), ...concepts];
+    }
+
+    const uniqueTags = Array.from(new Set(tags)).slice(0, maxTags);
+    const mood = lighting[0] ?? "natural";
+    // Tags are built subject-first, so relevance simply decays with position
+    const tagRelevance = Object.fromEntries(
+      uniqueTags.map((tag, i) => [
+        tag.toLowerCase(),
+        Number((0.95 - (0.6 * i) / Math.max(1, uniqueTags.length - 1)).toFixed(2)),
+      ])
+    );
+
+    return {
+      imageId: image.id,
+      title: `${capitalize(mood)} ${colour} ${subject} photo`,
+      description: `A ${mood} ${colour} ${subject} composition in the ${vocab.title.toLowerCase()} category.`,
+      tags: uniqueTags,
+      tagRelevance,
+      confidence: Number((0.7 + 0.2 * fingerprint.saturation).toFixed(2)),
+    };
+  }
+
+  private fingerprint(dataUrl: string): ImageFingerprint {
+    const bytes = Buffer.from(extractBase64Data(dataUrl), "base64");
+    const decoded = getMediaType(dataUrl) === "image/png" ? decodePng(bytes) : null;
+    return computeFingerprint(decoded ?? payloadAsPseudoImage(bytes));
+  }
+}
@@ -8,9 +8,28 @@ import type {
   ImageTagResult,
   MarketplaceType,
   StrategyType,
+  TaggingMode,
+  TaxonomyCategory,
 } from "../types";
-import type { PlatformType, ImageClusterGroup } from "@/types";
-import { getPlatformConfig } from "../prompts/index";
+import type { PlatformType } from "@/types";
+import { resolveCategoryCodes } from "@/lib/marketplaces";
+import {
+  getPlatformConfig,
+  buildCategoryRule,
+  buildPerImageGuard,
+  buildUsageRule,
+  isSpecificContext,
+  formatTaxonomyCategory,
+  DEFAULT_TAXONOMY,
+} from "../prompts/index";
+import { extractJsonFromResponse, runSettledWithConcurrency, runWithConcurrency } from "../utils";
+import {
+  ClusterResponseSchema,
+  TagResponseSchema,
+  checkClusterImageIds,
+  parseWithRepair,
+  toClusterResult,
+} from "../schemas";
 
 export interface OpenAIProviderConfig {
   apiKey?: string;
@@ -23,60 +42,52 @@ export interface OpenAIProviderConfig {
 
 const CONCURRENCY_LIMIT = 10;
 
-function extractJsonFromResponse(text: string): any {
-  try {
-    let clean = text
-      .replace(/```json\s*/gi, "")
-      .replace(/```\s*/g, "")
-      .trim();
-
-    const first = clean.indexOf("{");
-    const last = clean.lastIndexOf("}");
-
-    if (first === -1 || last === -1) {
-      console.error("[OpenAI extractJsonFromResponse] No JSON object found. Raw text:", text);
-      return { groups: [] };
-    }
-
-    return JSON.parse(clean.substring(first, last + 1));
-  } catch (e) {
-    console.error("[OpenAI extractJsonFromResponse] JSON Parse Failed. Raw text:", text, e);
-    return { groups: [] };
-  }
-}
-
-/**
- * Run async tasks with a concurrency limit.
- */
-async function runWithConcurrency<T>(tasks: (() => Promise<T>)[], limit: number): Promise<T[]> {
-  const results: T[] = new Array(tasks.length);
-  let nextIndex = 0;
-
-  async function worker() {
-    while (nextIndex < tasks.length) {
-      const index = nextIndex++;
-      results[index] = await tasks[index]!();
-    }
-  }
-
-  const workers = Array.from({ length: Math.min(limit, tasks.length) }, () => worker());
-  await Promise.all(workers);
-  return results;
-}
-
 // ==============================================================
 // STEP 1 PROMPT: Visual Analysis ("The Eyes")
 // ==============================================================
 
-const VISION_ANALYSIS_PROMPT = `Analyze this stock photo. Return a valid JSON object (NO markdown) with these fields:
+function formatCategoryGuide(taxonomy: readonly TaxonomyCategory[]): string {
+  return taxonomy.map((c) => `  • ${formatTaxonomyCategory(c)}`).join("\n");
+}
+
+function buildVisionAnalysisPrompt(taxonomy: readonly TaxonomyCategory[]): string {
+  const names = taxonomy.map((c) => c.name);
+  const example = names[0] ?? "Gastronomy";
+  return `Analyze this stock photo. Category guide:
+${formatCategoryGuide(taxonomy)}
+
+Return a valid JSON object (NO markdown) with these fields:
 {
-  "main_subject": "String. Format: 'Category - Detail'. Categories MUST be one of: [Gastronomy, Music, People, Nature, Animals, Urban, Technology, Objects]. Example: 'Gastronomy - Burger' or 'Music - Electric Guitar'.",
+  "main_subject": "String. Format: 'Category - Detail'. Categories MUST be one of: [${names.join(", ")}]. Example: '${example} - Burger'.",
   "setting": "String. (e.g. Studio, Outdoor, Concert, Office).",
   "vibe": "String. Select ONLY from: [Bright, Moody, Minimalist, High-Contrast, Authentic, Corporate].",
   "shot_context": "String. (e.g. Close-up, Wide angle, Drone shot, Studio setup).",
   "narrative": "String. (What is happening?).",
   "usage_type": "String. (Commercial or Editorial)."
 }`;
+}
+
+/**
+ * Carry Step 1's usage_type onto each group: a group is editorial when most of its
+ * images were classified Editorial (the Archivist already splits mixed groups).
+ */
+function withUsageTypes(
+  result: ClusterResult,
+  descriptions: { imageId: string; description: ImageDescription }[]
+): ClusterResult {
+  const usageById = new Map(
+    descriptions.map((d) => [d.imageId, d.description.usage_type.trim().toLowerCase()])
+  );
+  return {
+    groups: result.groups.map((group) => {
+      const editorial = group.imageIds.filter((id) => usageById.get(id) === "editorial").length;
+      return {
+        ...group,
+        usageType: editorial * 2 > group.imageIds.length ? "editorial" : "commercial",
+      };
+    }),
+  };
+}
 
 // ==============================================================
 // STEP 2 PROMPT BUILDER: Clustering ("The Archivist")
@@ -85,7 +96,8 @@ const VISION_ANALYSIS_PROMPT = `Analyze this stock photo. Return a valid JSON ob
 function buildArchivistPrompt(
   descriptions: { imageId: string; description: ImageDescription }[],
   maxGroups: number,
-  context?: string
+  context: string | undefined,
+  taxonomy: readonly TaxonomyCategory[]
 ): string {
   const descriptionList = descriptions
     .map(
@@ -93,24 +105,29 @@ function buildArchivistPrompt(
         `${i + 1}. ID="${d.imageId}" | Subject: ${d.description.main_subject} | Setting: ${d.description.setting} | Vibe: ${d.description.vibe} | Shot: ${d.description.shot_context} | Narrative: ${d.description.narrative} | Usage: ${d.description.usage_type}`
     )
     .join("\n");
+  const names = taxonomy.map((c) => c.name).join(", ");
 
   return `You are a Senior Stock Archivist.
 
 **INPUT:**
-- Context: '${context || "EMPTY"}'
+- Context: '${isSpecificContext(context) ? context : "EMPTY"}'
 - Images: [List of structured descriptions]
+- Categories:
+${formatCategoryGuide(taxonomy)}
 
 **CRITICAL OPERATING MODES:**
 
 **MODE A: THE LIBRARIAN (Trigger: Context is EMPTY or Vague like 'My Photos')**
 - **Logic:** STRICT CATEGORIZATION.
 - **Rule:** You MUST create separate groups based on the 'main_subject' Category.
+- **Titles:** Use the category names exactly: [${names}].
 - **Constraint:** NEVER lump different Categories (e.g. 'Gastronomy' and 'Music') just because they share a 'Vibe'.
 - **Output Example:** Group 1: Music (Guitars), Group 2: Gastronomy (Burgers).
 
 **MODE B: THE STORYTELLER (Trigger: Context is SPECIFIC like 'Summer Festival')**
 - **Logic:** NARRATIVE GROUPING.
 - **Rule:** You MAY lump diverse subjects (Guitar + Burger) ONLY if they fit the specific Context.
+- **Titles:** Name groups after moments of the shoot (e.g. 'Main Stage Crowd'); the FIRST semanticTag is the closest category from [${names}].
 
 **MANDATORY SPLIT RULES (Always Active):**
 - Split if 'usage_type' differs (Commercial vs Editorial).
@@ -145,7 +162,8 @@ function buildTagPrompt(market: string, strategy: StrategyType = "standard", max
     1. Return strictly valid JSON.
     2. MINIFY your JSON (no line breaks, no indentation, no whitespace).
     3. Return exactly ${tagLimit} relevant tags. Never exceed ${tagLimit} tags.
-    4. Structure: { "title": "...", "description": "...", "tags": ["tag1", "tag2"], "confidence": 0.9 }
+    4. Score each tag's relevance from 0 to 1 and list tags in descending relevance; the first 10 matter most.
+    5. Structure: { "title": "...", "description": "...", "tags": [{ "tag": "tag1", "relevance": 0.95 }, { "tag": "tag2", "relevance": 0.8 }], "confidence": 0.9 }
   `.trim();
 }
 
@@ -172,13 +190,15 @@ export class OpenAIVisionProvider implements IVisionProvider {
     images: ClusterImageInput[],
     _marketplace: MarketplaceType,
     maxGroups: number,
-    context?: string
+    context?: string,
+    taxonomy: readonly TaxonomyCategory[] = DEFAULT_TAXONOMY,
+    signal?: AbortSignal
   ): Promise<ClusterResult> {
     // STEP 1: Visual Analysis — describe each image in parallel
-    const descriptions = await this.analyzeImages(images);
+    const descriptions = await this.analyzeImages(images, taxonomy, signal);
 
     // STEP 2: Clustering — group text descriptions with the Archivist
-    return this.clusterDescriptions(descriptions, images, maxGroups, context);
+    return this.clusterDescriptions(descriptions, images, maxGroups, context, taxonomy, signal);
   }
 
   /**
@@ -186,30 +206,36 @@ export class OpenAIVisionProvider implements IVisionProvider {
    * Sends parallel requests (with concurrency limit) to get structured descriptions.
    */
   private async analyzeImages(
-    images: ClusterImageInput[]
+    images: ClusterImageInput[],
+    taxonomy: readonly TaxonomyCategory[],
+    signal: AbortSignal | undefined
   ): Promise<{ imageId: string; description: ImageDescription }[]> {
+    const analysisPrompt = buildVisionAnalysisPrompt(taxonomy);
     const tasks = images.map((img) => async () => {
       try {
-        const response = (await this.client.chat.completions.create({
-          model: this.model,
-          messages: [
-            {
-              role: "user",
-              content: [
-                {
-                  type: "image_url",
-                  image_url: { url: img.dataUrl, detail: "low" },
-                },
-                { type: "text", text: VISION_ANALYSIS_PROMPT },
-              ],
-            },
-          ],
-          response_format: { type: "json_object" },
-          max_tokens: 200,
-        })) as any;
+        const response = (await this.client.chat.completions.create(
+          {
+            model: this.model,
+            messages: [
+              {
+                role: "user",
+                content: [
+                  {
+                    type: "image_url",
+                    image_url: { url: img.dataUrl, detail: "low" },
+                  },
+                  { type: "text", text: analysisPrompt },
+                ],
+              },
+            ],
+            response_format: { type: "json_object" },
+            max_tokens: 200,
+          },
+          { signal }
+        )) as any;
 
         const text = response.choices[0].message.content || "{}";
-        const parsed = extractJsonFromResponse(text);
+        const parsed = extractJsonFromResponse(text) as Partial<ImageDescription>;
 
         return {
           imageId: img.id,
@@ -224,6 +250,8 @@ export class OpenAIVisionProvider implements IVisionProvider {
           } satisfies ImageDescription,
         };
       } catch (error) {
+        // Aborted by the caller: stop rather than cluster placeholder descriptions
+        if (signal?.aborted) throw error;
         console.error(`[OpenAI] Step 1 failed for image ${img.id}:`, error);
         return {
           imageId: img.id,
@@ -251,148 +279,29 @@ export class OpenAIVisionProvider implements IVisionProvider {
     descriptions: { imageId: string; description: ImageDescription }[],
     originalImages: ClusterImageInput[],
     maxGroups: number,
-    context?: string
+    context: string | undefined,
+    taxonomy: readonly TaxonomyCategory[],
+    signal: AbortSignal | undefined
   ): Promise<ClusterResult> {
-    const prompt = buildArchivistPrompt(descriptions, maxGroups, context);
-
-    try {
-      const response = (await this.client.chat.completions.create({
-        model: this.model,
-        messages: [{ role: "user", content: prompt }],
-        response_format: { type: "json_object" },
-        temperature: 0.2,
-        max_tokens: 1500,
-      })) as any;
-
-      const text = response.choices[0].message.content || "{}";
-      return this.parseClusterResponse(text, originalImages);
-    } catch (error) {
-      console.error("[OpenAI] Step 2 clustering failed:", error);
-      return {
-        groups: [
-          {
-            groupId: "group-1",
-            imageIds: originalImages.map((img) => img.id),
-            title: "All Images",
-            suggestedLabel: "All Images",
-            semanticTags: ["All Images"],
-            confidence: 0.5,
-          },
-        ],
-      };
-    }
-  }
-
-  // ============================================================
-  // RESPONSE PARSING
-  // ============================================================
-
-  private parseClusterResponse(
-    responseText: string,
-    originalImages: ClusterImageInput[]
-  ): ClusterResult {
-    try {
-      const parsed = extractJsonFromResponse(responseText) as {
-        groups?: Array<{
-          groupId?: string;
-          imageIds?: string[];
-          image_ids?: string[];
-          title?: string;
-          name?: string;
-          category?: string;
-          suggestedLabel?: string;
-          semanticTags?: string[] | string;
-          keywords?: string[] | string;
-          tags?: string[] | string;
-          label?: string;
-          confidence?: number;
-        }>;
-      };
-
-      if (!parsed.groups || !Array.isArray(parsed.groups)) {
-        console.error("[OpenAI] No groups array in response:", parsed);
-        return {
-          groups: [
-            {
-              groupId: "group-1",
-              imageIds: originalImages.map((img) => img.id),
-              title: "All Images",
-              suggestedLabel: "All Images",
-              semanticTags: ["All Images"],
-              confidence: 0.5,
-            },
-          ],
-        };
-      }
-
-      const toArray = (val: string[] | string | undefined): string[] | undefined => {
-        if (Array.isArray(val)) return val;
-        if (typeof val === "string" && val.trim()) {
-          return val
-            .split(",")
-            .map((s) => s.trim())
-            .filter(Boolean);
-        }
-        return undefined;
-      };
-
-      const groups: ImageClusterGroup[] = parsed.groups.map((group, index) => {
-        const title =
-          group.title || group.name || group.category || group.label || `Group ${index + 1}`;
-
-        const semanticTags =
-          toArray(group.semanticTags) ||
-          toArray(group.keywords) ||
-          toArray(group.tags) ||
-          (title ? [title] : undefined);
-
-        return {
-          groupId: group.groupId || `group-${index + 1}`,
-          imageIds: group.imageIds || group.image_ids || [],
-          title,
-          suggestedLabel: title,
-          semanticTags,
-          confidence: typeof group.confidence === "number" ? group.confidence : 0.8,
-        };
-      });
-
-      // Handle unassigned images
-      const assignedIds = new Set(groups.flatMap((g) => g.imageIds));
-      const unassignedIds = originalImages
-        .map((img) => img.id)
-        .filter((id) => !assignedIds.has(id));
-
-      if (unassignedIds.length > 0) {
-        groups.push({
-          groupId: "group-unclustered",
-          imageIds: unassignedIds,
-          title: "Uncategorized",
-          suggestedLabel: "Uncategorized",
-          semanticTags: ["Uncategorized"],
-          confidence: 0.5,
-        });
-      }
+    const prompt = buildArchivistPrompt(descriptions, maxGroups, context, taxonomy);
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [{ role: "user", content: prompt }];
+    const options = { maxTokens: 1500, temperature: 0.2, signal };
+
+    const text = await this.complete(messages, options);
+    const parsed = await parseWithRepair({
+      provider: this.name,
+      schema: ClusterResponseSchema,
+      responseText: text,
+      check: checkClusterImageIds(originalImages),
+      repair: (repairPrompt, previous) =>
+        this.complete(messages, options, { previous, repairPrompt }),
+    });
 
-      return { groups };
-    } catch (error) {
-      console.error("[OpenAI] Failed to parse cluster response:", responseText, error);
-      return {
-        groups: [
-          {
-            groupId: "group-1",
-            imageIds: originalImages.map((img) => img.id),
-            title: "All Images",
-            suggestedLabel: "All Images",
-            semanticTags: ["All Images"],
-            confidence: 0.5,
-          },
-        ],
-      };
-    }
+    return withUsageTypes(toClusterResult(parsed, originalImages), descriptions);
   }
 
   // ============================================================
-  // TAG GENERATION (unchanged)
+  // TAG GENERATION
   // ============================================================
 
   async generateTags(
@@ -400,13 +309,66 @@ export class OpenAIVisionProvider implements IVisionProvider {
     marketplace: MarketplaceType,
     strategy: StrategyType = "standard",
     maxTags: number = 25,
-    platform?: PlatformType
+    platform?: PlatformType,
+    mode: TaggingMode = "group",
+    editorial: boolean = false,
+    signal?: AbortSignal
   ): Promise<ImageTagResult[]> {
     if (images.length === 0) {
       return [];
     }
 
-    const sampleImages = images.slice(0, 4);
+    if (mode === "per-image") {
+      // One call per image so every photo gets its own title and keywords
+      const tasks = images.map((img) => async () => ({
+        ...(await this.tagSample(
+          [img],
+          marketplace,
+          strategy,
+          maxTags,
+          platform,
+          mode,
+          editorial,
+          signal
+        )),
+        imageId: img.id,
+      }));
+      // Failed images are left out so the route bills and refunds per image
+      const { values, errors } = await runSettledWithConcurrency(tasks, CONCURRENCY_LIMIT);
+      if (values.length === 0) throw errors[0];
+      if (errors.length > 0) {
+        console.error(
+          `[OpenAI] Per-image tagging failed for ${errors.length}/${images.length} images:`,
+          errors[0]
+        );
+      }
+      return values;
+    }
+
+    const tagResult = await this.tagSample(
+      images.slice(0, 4),
+      marketplace,
+      strategy,
+      maxTags,
+      platform,
+      mode,
+      editorial,
+      signal
+    );
+
+    return images.map((img) => ({ ...tagResult, imageId: img.id }));
+  }
+
+  private async tagSample(
+    sampleImages: TagImageInput[],
+    marketplace: MarketplaceType,
+    strategy: StrategyType,
+    maxTags: number,
+    platform: PlatformType | undefined,
+    mode: TaggingMode,
+    editorial: boolean,
+    signal: AbortSignal | undefined
+  ): Promise<Omit<ImageTagResult, "imageId">> {
     const effectiveMaxTags = maxTags || (platform ? getPlatformConfig(platform).maxTags : 25);
     const platformInstruction =
       platform && platform !== "GENERIC"
@@ -414,12 +376,18 @@ export class OpenAIVisionProvider implements IVisionProvider {
         : "";
 
     const batchGuard =
-      sampleImages.length > 1
-        ? `BATCH ANALYSIS — You are viewing ${sampleImages.length} images from the SAME group.\n1. Identify the COMMON THEMES shared across ALL images.\n2. Tags, title, and description must describe what the images have IN COMMON.\n3. AVOID tags that only apply to a single image.\n\n`
-        : "";
+      mode === "per-image"
+        ? buildPerImageGuard()
+        : sampleImages.length > 1
+          ? `BATCH ANALYSIS — You are viewing ${sampleImages.length} images from the SAME group.\n1. Identify the COMMON THEMES shared across ALL images.\n2. Tags, title, and description must describe what the images have IN COMMON.\n3. AVOID tags that only apply to a single image.\n\n`
+          : "";
 
     const prompt =
-      batchGuard + platformInstruction + buildTagPrompt(marketplace, strategy, effectiveMaxTags);
+      batchGuard +
+      platformInstruction +
+      buildTagPrompt(marketplace, strategy, effectiveMaxTags) +
+      buildCategoryRule(marketplace) +
+      buildUsageRule(editorial);
 
     const imageContentParts = sampleImages.map((img) => ({
       type: "image_url" as const,
@@ -429,28 +397,66 @@ export class OpenAIVisionProvider implements IVisionProvider {
       },
     }));
 
-    const response = (await this.client.chat.completions.create({
-      model: this.model,
-      messages: [
-        {
-          role: "user",
-          content: [...imageContentParts, { type: "text" as const, text: prompt }],
-        },
-      ],
-      response_format: { type: "json_object" },
-      max_tokens: 1500,
-    })) as any;
-
-    const text = response.choices[0].message.content || "{}";
-    const result = extractJsonFromResponse(text);
-
-    const tagResult = {
-      title: result.title || "",
-      description: result.description || "",
-      tags: result.tags || [],
-      confidence: result.confidence || 0.0,
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+      {
+        role: "user",
+        content: [...imageContentParts, { type: "text" as const, text: prompt }],
+      },
+    ];
+    const options = { maxTokens: 1500, signal };
+
+    const text = await this.complete(messages, options);
+    const result = await parseWithRepair({
+      provider: this.name,
+      schema: TagResponseSchema,
+      responseText: text,
+      repair: (repairPrompt, previous) =>
+        this.complete(messages, options, { previous, repairPrompt }),
+    });
+
+    return {
+      title: result.title,
+      description: result.description,
+      tags: result.tags,
+      tagRelevance: result.tagRelevance,
+      confidence: result.confidence ?? 0.0,
+      categories: resolveCategoryCodes(result.categories ?? [], marketplace),
+      releaseNeeded: result.release,
     };
+  }
 
-    return images.map((img) => ({ ...tagResult, imageId: img.id }));
+  // ============================================================
+  // COMPLETION
+  // ============================================================
+
+  /**
+   * Single JSON-mode chat completion. With `repair`, the previous answer and the
+   * repair prompt are appended so the model corrects its own output.
+   */
+  private async complete(
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    options: { maxTokens: number; temperature?: number; signal?: AbortSignal },
+    repair?: { previous: string; repairPrompt: string }
+  ): Promise<string> {
+    const conversation: OpenAI.Chat.ChatCompletionMessageParam[] = repair
+      ? [
+          ...messages,
+          { role: "assistant", content: repair.previous || "{}" },
+          { role: "user", content: repair.repairPrompt },
+        ]
+      : messages;
+
+    const response = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        messages: conversation,
+        response_format: { type: "json_object" },
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+      },
+      { signal: options.signal }
+    );
+
+    return response.choices[0]?.message.content || "{}";
   }
 }
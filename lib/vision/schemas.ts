@@ -0,0 +1,234 @@
+import { z } from "zod";
+import type { ClusterImageInput, ImageClusterGroup, ReleaseType } from "@/types";
+import type { ClusterResult } from "./types";
+import { extractJsonFromResponse } from "./utils";
+import { VisionResponseValidationError } from "./errors";
+import { buildRepairPrompt } from "./prompts/index";
+import { sortTagsByRelevance } from "@/lib/utils/tag-processing";
+
+// ==============================================================
+// RESPONSE SCHEMAS
+// ==============================================================
+
+// Models return tag lists either as arrays or as comma-separated strings
+const stringList = z
+  .union([z.array(z.string()), z.string()])
+  .transform((value) =>
+    (Array.isArray(value) ? value : value.split(",")).map((s) => s.trim()).filter(Boolean)
+  );
+
+/**
+ * One cluster group as models actually return it. Field aliases (name/category/label,
+ * keywords/tags, image_ids) are accepted and folded into a single shape.
+ */
+export const ClusterGroupSchema = z
+  .object({
+    groupId: z.string().optional(),
+    imageIds: z.array(z.string()).optional(),
+    image_ids: z.array(z.string()).optional(),
+    title: z.string().optional(),
+    name: z.string().optional(),
+    category: z.string().optional(),
+    suggestedLabel: z.string().optional(),
+    label: z.string().optional(),
+    semanticTags: stringList.optional(),
+    keywords: stringList.optional(),
+    tags: stringList.optional(),
+    confidence: z.number().min(0).max(1).optional(),
+  })
+  .refine((group) => group.imageIds !== undefined || group.image_ids !== undefined, {
+    message: "each group needs an imageIds array",
+  })
+  .transform((group) => {
+    const semanticTags = group.semanticTags ?? group.keywords ?? group.tags;
+    const title =
+      group.title ||
+      group.name ||
+      group.category ||
+      semanticTags?.[0] ||
+      group.suggestedLabel ||
+      group.label;
+    return {
+      groupId: group.groupId,
+      imageIds: group.imageIds ?? group.image_ids ?? [],
+      title,
+      semanticTags: semanticTags?.length ? semanticTags : title ? [title] : undefined,
+      confidence: group.confidence,
+    };
+  });
+
+export const ClusterResponseSchema = z.object({
+  groups: z.array(ClusterGroupSchema),
+});
+
+// Tags come back as {tag, relevance} objects; plain strings (unscored) are still accepted
+const ScoredTagSchema = z.union([
+  z.string().transform((tag) => ({ tag, relevance: undefined })),
+  z.object({
+    tag: z.string(),
+    relevance: z.number().min(0).max(1).optional(),
+  }),
+]);
+
+export const TagResponseSchema = z
+  .object({
+    title: z.string().trim().min(1, "title must not be empty"),
+    description: z.string().default(""),
+    tags: z.array(ScoredTagSchema).min(1, "tags must contain at least one keyword"),
+    confidence: z.number().min(0).max(1).optional(),
+    // Agency category codes; Adobe Stock's are numbers, so both forms are accepted
+    categories: z
+      .union([z.array(z.union([z.string(), z.number()])), z.string(), z.number()])
+      .transform((value) => (Array.isArray(value) ? value : [value]).map(String))
+      .optional(),
+    // "model" / "property" / "none"; anything else (e.g. "model release") is read by keyword
+    release: z
+      .string()
+      .transform((value): ReleaseType | undefined =>
+        /model/i.test(value) ? "model" : /property/i.test(value) ? "property" : undefined
+      )
+      .optional(),
+  })
+  .transform(({ tags, ...rest }) => {
+    const tagRelevance: Record<string, number> = {};
+    for (const { tag, relevance } of tags) {
+      const key = tag.trim().toLowerCase();
+      if (relevance !== undefined && key && !(key in tagRelevance)) {
+        tagRelevance[key] = relevance;
+      }
+    }
+    const names = tags.map((t) => t.tag);
+    return {
+      ...rest,
+      tags: sortTagsByRelevance(names, tagRelevance),
+      tagRelevance: Object.keys(tagRelevance).length > 0 ? tagRelevance : undefined,
+    };
+  });
+
+export type ClusterResponse = z.infer<typeof ClusterResponseSchema>;
+export type TagResponse = z.infer<typeof TagResponseSchema>;
+
+// ==============================================================
+// VALIDATION
+// ==============================================================
+
+export type ValidationOutcome<T> =
+  | { success: true; data: T }
+  | { success: false; issues: string[] };
+
+/**
+ * Extract, parse and schema-check a raw model response.
+ * `check` adds semantic rules a schema cannot express (e.g. unknown image IDs).
+ */
+export function validateModelResponse<T>(
+  schema: z.ZodType<T>,
+  responseText: string,
+  check?: (data: T) => string[]
+): ValidationOutcome<T> {
+  let json: unknown;
+  try {
+    json = extractJsonFromResponse(responseText);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { success: false, issues: [`response is not valid JSON (${reason})`] };
+  }
+
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    return {
+      success: false,
+      issues: parsed.error.issues.map(
+        (issue) => `${issue.path.length > 0 ? issue.path.join(".") : "response"}: ${issue.message}`
+      ),
+    };
+  }
+
+  const issues = check?.(parsed.data) ?? [];
+  return issues.length > 0 ? { success: false, issues } : { success: true, data: parsed.data };
+}
+
+/**
+ * Validate a response; on failure send the issues back to the model once and
+ * validate the retry. Throws VisionResponseValidationError if both attempts fail.
+ */
+export async function parseWithRepair<T>(options: {
+  provider: string;
+  schema: z.ZodType<T>;
+  responseText: string;
+  check?: (data: T) => string[];
+  /** Re-ask the model with the repair prompt appended to the original conversation. */
+  repair: (repairPrompt: string, previousResponse: string) => Promise<string>;
+}): Promise<T> {
+  const { provider, schema, responseText, check, repair } = options;
+
+  const first = validateModelResponse(schema, responseText, check);
+  if (first.success) return first.data;
+
+  console.warn(
+    JSON.stringify({ event: "vision_response_repair", provider, issues: first.issues.slice(0, 5) })
+  );
+
+  const repairedText = await repair(buildRepairPrompt(first.issues), responseText);
+  const second = validateModelResponse(schema, repairedText, check);
+  if (second.success) return second.data;
+
+  throw new VisionResponseValidationError(provider, second.issues, repairedText);
+}
+
+// ==============================================================
+// CLUSTER HELPERS
+// ==============================================================
+
+/** Flags invented image IDs and IDs assigned to more than one group. */
+export function checkClusterImageIds(images: ClusterImageInput[]) {
+  const known = new Set(images.map((img) => img.id));
+  return (data: ClusterResponse): string[] => {
+    const issues: string[] = [];
+    const seen = new Set<string>();
+    data.groups.forEach((group, index) => {
+      for (const id of group.imageIds) {
+        if (!known.has(id)) {
+          issues.push(`groups.${index}.imageIds: unknown image id "${id}"`);
+        } else if (seen.has(id)) {
+          issues.push(`groups.${index}.imageIds: image id "${id}" is already in another group`);
+        }
+        seen.add(id);
+      }
+    });
+    return issues;
+  };
+}
+
+/**
+ * Convert a validated cluster response into a ClusterResult. Images the model
+ * left out are collected in an explicit "Uncategorized" group, never dropped.
+ */
+export function toClusterResult(
+  data: ClusterResponse,
+  originalImages: ClusterImageInput[]
+): ClusterResult {
+  const groups: ImageClusterGroup[] = data.groups.map((group, index) => ({
+    groupId: group.groupId || `group-${index + 1}`,
+    imageIds: group.imageIds,
+    title: group.title || `Group ${index + 1}`,
+    suggestedLabel: group.title || `Group ${index + 1}`, // Kept in sync for backwards compatibility
+    semanticTags: group.semanticTags,
+    confidence: group.confidence ?? 0.8,
+  }));
+
+  const assignedIds = new Set(groups.flatMap((g) => g.imageIds));
+  const unassignedIds = originalImages.map((img) => img.id).filter((id) => !assignedIds.has(id));
+
+  if (unassignedIds.length > 0) {
+    groups.push({
+      groupId: "group-unclustered",
+      imageIds: unassignedIds,
+      title: "Uncategorized",
+      suggestedLabel: "Uncategorized",
+      semanticTags: ["Uncategorized"],
+      confidence: 0.5,
+    });
+  }
+
+  return { groups };
+}
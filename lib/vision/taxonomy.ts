@@ -0,0 +1,113 @@
+import type { TaxonomyCategory } from "./types";
+
+// Prompt budget for user-defined taxonomies
+export const MAX_TAXONOMY_CATEGORIES = 30;
+export const MAX_CATEGORY_NAME_LENGTH = 40;
+export const MAX_CATEGORY_DESCRIPTION_LENGTH = 200;
+export const MAX_CATEGORY_KEYWORDS = 15;
+
+/**
+ * Validate user-supplied categories (API input or stored JSON).
+ * Returns an error message, or null when the list is usable.
+ */
+export function validateTaxonomyCategories(categories: unknown): string | null {
+  if (!Array.isArray(categories) || categories.length === 0) {
+    return "Taxonomy must have at least one category";
+  }
+  if (categories.length > MAX_TAXONOMY_CATEGORIES) {
+    return `Taxonomy can have at most ${MAX_TAXONOMY_CATEGORIES} categories`;
+  }
+
+  const seen = new Set<string>();
+  for (const category of categories as Partial<TaxonomyCategory>[]) {
+    const name = typeof category?.name === "string" ? category.name.trim() : "";
+    if (!name || name.length > MAX_CATEGORY_NAME_LENGTH) {
+      return `Category names must be 1–${MAX_CATEGORY_NAME_LENGTH} characters`;
+    }
+    if (seen.has(categoryKey(name))) {
+      return `Duplicate category "${name}"`;
+    }
+    seen.add(categoryKey(name));
+
+    if (
+      category.description !== undefined &&
+      (typeof category.description !== "string" ||
+        category.description.length > MAX_CATEGORY_DESCRIPTION_LENGTH)
+    ) {
+      return `Category descriptions must be at most ${MAX_CATEGORY_DESCRIPTION_LENGTH} characters`;
+    }
+    if (
+      category.keywords !== undefined &&
+      (!Array.isArray(category.keywords) ||
+        category.keywords.length > MAX_CATEGORY_KEYWORDS ||
+        category.keywords.some((k) => typeof k !== "string" || k.length > MAX_CATEGORY_NAME_LENGTH))
+    ) {
+      return `Each category can have at most ${MAX_CATEGORY_KEYWORDS} keywords of up to ${MAX_CATEGORY_NAME_LENGTH} characters`;
+    }
+  }
+  return null;
+}
+
+/** Trim names, drop blank descriptions and dedupe lowercase keywords. Call after validation. */
+export function normalizeTaxonomyCategories(categories: TaxonomyCategory[]): TaxonomyCategory[] {
+  return categories.map((category) => {
+    const description = category.description?.trim();
+    const keywords = Array.from(
+      new Set((category.keywords ?? []).map((k) => k.trim().toLowerCase()).filter(Boolean))
+    );
+    return {
+      name: category.name.trim(),
+      ...(description && { description }),
+      ...(keywords.length > 0 && { keywords }),
+    };
+  });
+}
+
+/** Comparison key: case-, plural- and "&"-insensitive ("Desserts" matches "dessert"). */
+function categoryKey(label: string): string {
+  let key = label
+    .toLowerCase()
+    .trim()
+    .replace(/\s*&\s*/g, " and ")
+    .replace(/\s+/g, " ");
+  if (key.endsWith("s") && key.length > 3) key = key.slice(0, -1);
+  return key;
+}
+
+/** The category a model-supplied label names, if any. */
+export function findTaxonomyCategory(
+  label: string | undefined,
+  taxonomy: readonly TaxonomyCategory[]
+): TaxonomyCategory | undefined {
+  if (!label) return undefined;
+  const key = categoryKey(label);
+  return taxonomy.find((c) => categoryKey(c.name) === key);
+}
+
+/**
+ * Best category for a group's semantic tags: a tag naming a category wins,
+ * otherwise the category whose example keywords overlap the tags most.
+ */
+export function closestTaxonomyCategory(
+  tags: readonly string[] | undefined,
+  taxonomy: readonly TaxonomyCategory[]
+): TaxonomyCategory | undefined {
+  if (!tags || tags.length === 0) return undefined;
+
+  for (const tag of tags) {
+    const named = findTaxonomyCategory(tag, taxonomy);
+    if (named) return named;
+  }
+
+  const tagKeys = new Set(tags.map(categoryKey));
+  let best: TaxonomyCategory | undefined;
+  let bestHits = 0;
+  for (const category of taxonomy) {
+    const hits = (category.keywords ?? []).filter((k) => tagKeys.has(categoryKey(k))).length;
+    if (hits > bestHits) {
+      best = category;
+      bestHits = hits;
+    }
+  }
+  return best;
+}
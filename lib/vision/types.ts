@@ -4,14 +4,22 @@ import type {
   TagImageInput,
   ImageTagResult,
   PlatformType,
+  TaggingMode,
+  TaxonomyCategory,
 } from "@/types";
 
-export type VisionProviderType = "anthropic" | "openai";
-export type MarketplaceType = "ETSY" | "ADOBE_STOCK";
+import type { MarketplaceId } from "@/lib/marketplaces";
+
+export type { TaggingMode, TaxonomyCategory };
+
+export type VisionProviderType = "anthropic" | "openai" | "local";
+export type MarketplaceType = MarketplaceId;
 export type StrategyType = "standard" | "etsy" | "stock";
 
 export interface ClusterResult {
   groups: ImageClusterGroup[];
+  /** Provider that produced this result (set when a fallback chain is configured) */
+  provider?: string;
 }
 
 export interface GenerateTagsOptions {
@@ -26,14 +34,22 @@ export interface IVisionProvider {
     images: ClusterImageInput[],
     marketplace: MarketplaceType,
     maxGroups: number,
-    context?: string
+    context?: string,
+    /** Categories the model files groups under; defaults to DEFAULT_TAXONOMY */
+    taxonomy?: readonly TaxonomyCategory[],
+    /** Aborts in-flight vendor requests (a fallback chain's timeout) */
+    signal?: AbortSignal
   ): Promise<ClusterResult>;
   generateTags(
     images: TagImageInput[],
     marketplace: MarketplaceType,
     strategy?: StrategyType,
     maxTags?: number,
-    platform?: PlatformType
+    platform?: PlatformType,
+    mode?: TaggingMode,
+    /** Editorial content may name brands and events; commercial content must not */
+    editorial?: boolean,
+    signal?: AbortSignal
   ): Promise<ImageTagResult[]>;
 }
 
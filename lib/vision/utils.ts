@@ -12,27 +12,72 @@ export function extractBase64Data(dataUrl: string): string {
   return base64Match?.[1] ?? dataUrl;
 }
 
+/**
+ * Pull the JSON object out of a model response (fences, intro/outro text).
+ * Throws SyntaxError when there is nothing parseable, so callers can fail over
+ * instead of mistaking bad output for an empty result.
+ */
 export function extractJsonFromResponse(responseText: string): unknown {
-  try {
-    // 1. Remove markdown code blocks (```json ... ``` or ``` ... ```)
-    let clean = responseText
-      .replace(/```json\s*/gi, "")
-      .replace(/```\s*/g, "")
-      .trim();
-
-    // 2. Find the first '{' and last '}' to handle intro/outro text
-    const first = clean.indexOf("{");
-    const last = clean.lastIndexOf("}");
-
-    if (first === -1 || last === -1) {
-      console.error("[extractJsonFromResponse] No JSON object found. Raw text:", responseText);
-      return { groups: [] };
-    }
+  // 1. Remove markdown code blocks (```json ... ``` or ``` ... ```)
+  const clean = responseText
+    .replace(/```json\s*/gi, "")
+    .replace(/```\s*/g, "")
+    .trim();
+
+  // 2. Find the first '{' and last '}' to handle intro/outro text
+  const first = clean.indexOf("{");
+  const last = clean.lastIndexOf("}");
 
-    const jsonStr = clean.substring(first, last + 1);
-    return JSON.parse(jsonStr);
-  } catch (e) {
-    console.error("[extractJsonFromResponse] JSON Parse Failed. Raw text:", responseText, e);
-    return { groups: [] };
+  if (first === -1 || last === -1) {
+    throw new SyntaxError("No JSON object found in model response");
   }
+
+  return JSON.parse(clean.substring(first, last + 1));
+}
+
+/**
+ * Run async tasks with a concurrency limit.
+ */
+export async function runWithConcurrency<T>(
+  tasks: (() => Promise<T>)[],
+  limit: number
+): Promise<T[]> {
+  const results: T[] = new Array(tasks.length);
+  let nextIndex = 0;
+
+  async function worker() {
+    while (nextIndex < tasks.length) {
+      const index = nextIndex++;
+      results[index] = await tasks[index]!();
+    }
+  }
+
+  const workers = Array.from({ length: Math.min(limit, tasks.length) }, () => worker());
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * runWithConcurrency that keeps going past failures: each task's value or error,
+ * in task order. Per-image tagging uses it so one failed call does not discard
+ * the images already tagged (and paid for).
+ */
+export async function runSettledWithConcurrency<T>(
+  tasks: (() => Promise<T>)[],
+  limit: number
+): Promise<{ values: T[]; errors: unknown[] }> {
+  const settled = await runWithConcurrency(
+    tasks.map(
+      (task) => () =>
+        task().then(
+          (value) => ({ ok: true as const, value }),
+          (error: unknown) => ({ ok: false as const, error })
+        )
+    ),
+    limit
+  );
+  return {
+    values: settled.flatMap((s) => (s.ok ? [s.value] : [])),
+    errors: settled.flatMap((s) => (s.ok ? [] : [s.error])),
+  };
 }
@@ -1,6 +1,13 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  env: {
+    // The local vision provider only decodes PNG, so thumbnails go out lossless when it serves first
+    NEXT_PUBLIC_API_IMAGE_TYPE:
+      (process.env.AI_PROVIDER ?? "").split(",")[0].trim().toLowerCase() === "local"
+        ? "image/png"
+        : "image/webp",
+  },
   images: {
     formats: ["image/avif", "image/webp"],
   },
@@ -4,11 +4,26 @@ import { create } from "zustand";
 import { devtools, persist } from "zustand/middleware";
 import type { ExportSettings } from "@/lib/export";
 import { DEFAULT_EXPORT_SETTINGS } from "@/lib/export";
-import { DEFAULT_TAG_BLACKLIST } from "@/lib/utils/tag-processing";
-import type { ClusterSettings } from "@/types";
+import {
+  DEFAULT_TAG_BLACKLIST,
+  averageTagRelevance,
+  findSharedTags,
+  getImageSpecificTags,
+  mergeSharedTags,
+  sortTagsByRelevance,
+} from "@/lib/utils/tag-processing";
+import {
+  DEFAULT_TAG_SYNONYMS,
+  type TagRemoval,
+  type TagSynonymRule,
+} from "@/lib/utils/tag-normalization";
+import type { ClusterSettings, ImageTagResult, ReleaseType, TaggingMode } from "@/types";
 import { syncImageToServer } from "@/lib/persistence/server-sync";
-import { deleteOriginalFile } from "@/lib/persistence/db";
+import { deleteOriginalFile, deleteReleaseFile } from "@/lib/persistence/db";
 import { hydrateSession } from "@/lib/persistence/hydrate";
+import { burstStackId, type DuplicateMatch } from "@/lib/image-processing/duplicates";
+import type { EmbeddedMetadata } from "@/lib/image-processing/embedded-metadata";
+import type { MarketplaceId } from "@/lib/marketplaces";
 
 // Types for the store
 export interface LocalImageItem {
@@ -27,6 +42,25 @@ export interface LocalImageItem {
   userTags?: string[];
   status: "pending" | "processing" | "analyzed" | "verified" | "error";
   errorMessage?: string;
+  /** SHA-256 of the original file bytes, for exact-duplicate and export-history checks. */
+  contentHash?: string;
+  /** 64-bit difference hash of the thumbnail (hex), for near-duplicate and burst checks. */
+  perceptualHash?: string;
+  /** Capture time in ms (EXIF when available, file lastModified otherwise), used to find bursts. */
+  capturedAt?: number;
+  /** Set when the upload scan found this image duplicates another or a past export. */
+  duplicate?: DuplicateMatch;
+  /** Burst stack this frame belongs to; only the keeper is shown and clustered. */
+  stackId?: string;
+  isStackKeeper?: boolean;
+  /** EXIF/IPTC/XMP metadata found in the uploaded file (title, keywords, capture info). */
+  embeddedMetadata?: EmbeddedMetadata;
+  /** Overrides the group's editorial flag for this image (undefined = same as group). */
+  editorial?: boolean;
+  /** Set when tagging saw people or property that need a signed release for commercial use. */
+  releaseNeeded?: ReleaseType;
+  /** Releases from the release library covering this image (on top of the group's). */
+  releaseIds?: string[];
   /** Tracks whether the last debounced server sync succeeded. Transient — not persisted. */
   syncStatus?: "synced" | "pending" | "error";
 }
@@ -43,9 +77,49 @@ export interface LocalGroup {
   isCollapsed?: boolean; // UI state for collapsible view
   createdAt?: number; // Timestamp for stable sorting (optional for backwards compat)
   semanticTags?: string[]; // AI-generated category tags: [Broad, Specific, Vibe] (e.g., ["Gastronomy", "Dessert", "Sweet"])
+  taggingMode?: TaggingMode; // "per-image" once each image carries its own AI title/tags (undefined = group)
+  tagRelevance?: Record<string, number>; // Model relevance (0–1) per shared tag, keyed by lowercase tag
+  categories?: Partial<Record<MarketplaceType, string[]>>; // Agency category codes, per marketplace
+  editorial?: boolean; // Editorial use only (news, events, visible brands); undefined = commercial
+  editorialDetails?: EditorialDetails; // Where and when, for the required editorial caption
+  releaseIds?: string[]; // Releases covering every image in the group (e.g. one model across a shoot)
+  etsyListing?: EtsyListingDetails; // Listing fields for Etsy, where the whole group is one listing
+  tagRemovals?: TagRemoval[]; // Keywords tag processing dropped from the last generated set, and why
 }
 
-export type MarketplaceType = "ETSY" | "ADOBE_STOCK";
+/** Location and date opening an editorial caption ("Paris, France - June 3, 2024: ..."). */
+export interface EditorialDetails {
+  city?: string;
+  country?: string;
+  /** YYYY-MM-DD; the image's capture date is used when empty */
+  date?: string;
+}
+
+/** What an Etsy listing carries beyond the group's title, description and tags. */
+export interface EtsyListingDetails {
+  /** Image ids in listing photo order; images not listed follow in group order */
+  imageOrder?: string[];
+  materials?: string[];
+  /** One of Etsy's occasion attribute values */
+  occasion?: string;
+  /** Up to two free-text styles ("Boho", "Minimalist") */
+  styles?: string[];
+  price?: string;
+  quantity?: number;
+}
+
+/** A signed release PDF in the release library. The file itself is kept in IndexedDB. */
+export interface ReleaseDocument {
+  id: string;
+  /** Name the release was uploaded to the agencies under; written to the CSV release columns */
+  name: string;
+  type: ReleaseType;
+  filename: string;
+  fileSize: number;
+  createdAt: number;
+}
+
+export type MarketplaceType = MarketplaceId;
 export type StrategyType = "standard" | "etsy" | "stock";
 export type GroupSortOption = "date" | "name" | "imageCount";
 
@@ -55,6 +129,8 @@ interface BatchState {
   marketplace: MarketplaceType;
   strategy: StrategyType;
   maxTags: number;
+  /** Mode used for the next "Generate Tags" run. Existing groups keep their own `taggingMode`. */
+  taggingMode: TaggingMode;
   /**
    * True after the first successful IDB hydration (from either usePersistence or
    * initializeFromStorage). Prevents a second caller from overwriting live state.
@@ -100,8 +176,18 @@ interface BatchState {
   // Naming settings (global, persisted)
   namingSettings: ClusterSettings;
 
+  // Release library (global, persisted; PDFs live in IndexedDB)
+  releases: ReleaseDocument[];
+
   // Tag filtering
   tagBlacklist: string[];
+  /** Synonym map the tag normaliser folds keywords by */
+  tagSynonyms: TagSynonymRule[];
+  /**
+   * Reuse keywords already embedded in uploads: already-keyworded images skip paid
+   * tagging and existing keywords are merged ahead of AI tags.
+   */
+  reuseEmbeddedMetadata: boolean;
 
   // UI preferences
   groupSortOption: GroupSortOption;
@@ -111,6 +197,7 @@ interface BatchState {
   setMarketplace: (marketplace: MarketplaceType) => void;
   setStrategy: (strategy: StrategyType) => void;
   setMaxTags: (maxTags: number) => void;
+  setTaggingMode: (mode: TaggingMode) => void;
   toggleGroupSelection: (groupId: string) => void;
   selectAllGroups: () => void;
   deselectAllGroups: () => void;
@@ -123,6 +210,18 @@ interface BatchState {
   removeImageFromGroup: (groupId: string, imageId: string) => void;
   moveImageToGroup: (imageId: string, fromGroupId: string, toGroupId: string) => void;
   updateImageTags: (groupId: string, imageId: string, tags: string[], title?: string) => void;
+  /** Mark one image editorial or commercial; undefined falls back to the group's flag. */
+  updateImageEditorial: (groupId: string, imageId: string, editorial: boolean | undefined) => void;
+  /** Link releases to one image or clear its release-needed flag. */
+  updateImageReleases: (
+    groupId: string,
+    imageId: string,
+    updates: Partial<Pick<LocalImageItem, "releaseIds" | "releaseNeeded">>
+  ) => void;
+  /** Add a release to the library; its PDF must already be saved with `saveReleaseFile`. */
+  addRelease: (release: ReleaseDocument) => void;
+  /** Remove a release from the library, its PDF, and every image and group link to it. */
+  removeRelease: (releaseId: string) => void;
   updateImageStatus: (
     groupId: string,
     imageId: string,
@@ -135,11 +234,33 @@ interface BatchState {
     syncStatus: NonNullable<LocalImageItem["syncStatus"]>
   ) => void;
   verifyGroup: (groupId: string) => void;
+  /**
+   * Apply an upload-time duplicate scan: flag duplicates and collapse each burst
+   * (ordered image ids) into a stack whose first frame is the default keeper.
+   */
+  applyDuplicateScan: (flags: Map<string, DuplicateMatch>, stacks: string[][]) => void;
+  setStackKeeper: (stackId: string, imageId: string) => void;
+  unstackImages: (stackId: string) => void;
+  dismissDuplicate: (imageId: string) => void;
   updateGroupTags: (
     groupId: string,
     aiTitle: string,
     aiTags: string[],
-    aiConfidence: number
+    aiConfidence: number,
+    tagRelevance?: Record<string, number>,
+    categories?: string[],
+    releaseNeeded?: ReleaseType
+  ) => void;
+  /**
+   * Store per-image tagging results. Keywords shared by most images become the group's
+   * sharedTags and are merged into every image's own list.
+   */
+  updateImageTagResults: (
+    groupId: string,
+    results: Pick<
+      ImageTagResult,
+      "imageId" | "title" | "tags" | "confidence" | "tagRelevance" | "categories" | "releaseNeeded"
+    >[]
   ) => void;
   updateGroupMetadata: (
     groupId: string,
@@ -165,6 +286,8 @@ interface BatchState {
   ) => void;
   setTaggingProgress: (progress: { current: number; total: number } | null) => void;
   setTagBlacklist: (blacklist: string[]) => void;
+  setTagSynonyms: (synonyms: TagSynonymRule[]) => void;
+  setReuseEmbeddedMetadata: (value: boolean) => void;
   setNamingSettings: (settings: ClusterSettings) => void;
   setGroupSortOption: (option: GroupSortOption) => void;
   getSortedGroups: () => LocalGroup[];
@@ -182,6 +305,32 @@ interface BatchState {
   initializeFromStorage: (sessionId: string) => Promise<void>;
 }
 
+/** Store category codes for one marketplace, leaving the other marketplaces' picks alone. */
+function withCategories(
+  current: LocalGroup["categories"],
+  marketplace: MarketplaceType,
+  codes: string[] | undefined
+): LocalGroup["categories"] {
+  if (!codes?.length) return current;
+  return { ...current, [marketplace]: codes };
+}
+
+/**
+ * The group's categories from per-image results: codes ranked by how many images
+ * were classified into them, ties broken by first appearance.
+ */
+function mostCommonCategories(perImage: string[][]): string[] {
+  const counts = new Map<string, number>();
+  for (const codes of perImage) {
+    for (const code of codes) counts.set(code, (counts.get(code) ?? 0) + 1);
+  }
+  const longest = Math.max(0, ...perImage.map((codes) => codes.length));
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, longest)
+    .map(([code]) => code);
+}
+
 export const useBatchStore = create<BatchState>()(
   devtools(
     persist(
@@ -191,6 +340,7 @@ export const useBatchStore = create<BatchState>()(
         marketplace: "ETSY",
         strategy: "etsy",
         maxTags: 25,
+        taggingMode: "group",
         hasHydrated: false,
         isFetchingServerData: false,
         groups: [],
@@ -204,7 +354,10 @@ export const useBatchStore = create<BatchState>()(
         taggingProgress: null,
         error: null,
         exportSettings: DEFAULT_EXPORT_SETTINGS,
+        releases: [],
         tagBlacklist: DEFAULT_TAG_BLACKLIST,
+        tagSynonyms: DEFAULT_TAG_SYNONYMS,
+        reuseEmbeddedMetadata: true,
         namingSettings: {} as ClusterSettings,
         groupSortOption: "date",
 
@@ -247,6 +400,10 @@ export const useBatchStore = create<BatchState>()(
           set({ maxTags: clamped });
         },
 
+        setTaggingMode: (mode) => {
+          set({ taggingMode: mode });
+        },
+
         toggleGroupSelection: (groupId) => {
           // Validation: Ensure groupId is defined
           if (!groupId) {
@@ -350,14 +507,18 @@ export const useBatchStore = create<BatchState>()(
 
             if (!image || !toGroup) return state;
 
-            // Inherit target group's tags and title when moving
-            const updatedImage = {
-              ...image,
-              aiTags: toGroup.sharedTags.length > 0 ? toGroup.sharedTags : image.aiTags,
-              aiTitle: toGroup.sharedTitle || image.aiTitle,
-              userTags: toGroup.sharedTags.length > 0 ? toGroup.sharedTags : image.userTags,
-              userTitle: toGroup.sharedTitle || image.userTitle,
-            };
+            // Inherit target group's tags and title when moving. Per-image groups
+            // keep each image's own metadata, so the moved image keeps its own too.
+            const updatedImage =
+              toGroup.taggingMode === "per-image"
+                ? image
+                : {
+                    ...image,
+                    aiTags: toGroup.sharedTags.length > 0 ? toGroup.sharedTags : image.aiTags,
+                    aiTitle: toGroup.sharedTitle || image.aiTitle,
+                    userTags: toGroup.sharedTags.length > 0 ? toGroup.sharedTags : image.userTags,
+                    userTitle: toGroup.sharedTitle || image.userTitle,
+                  };
 
             return {
               groups: state.groups.map((group) => {
@@ -421,6 +582,54 @@ export const useBatchStore = create<BatchState>()(
           );
         },
 
+        updateImageEditorial: (groupId, imageId, editorial) => {
+          set((state) => ({
+            groups: state.groups.map((group) =>
+              group.id === groupId
+                ? {
+                    ...group,
+                    images: group.images.map((img) =>
+                      img.id === imageId ? { ...img, editorial } : img
+                    ),
+                  }
+                : group
+            ),
+          }));
+        },
+
+        updateImageReleases: (groupId, imageId, updates) => {
+          set((state) => ({
+            groups: state.groups.map((group) =>
+              group.id === groupId
+                ? {
+                    ...group,
+                    images: group.images.map((img) =>
+                      img.id === imageId ? { ...img, ...updates } : img
+                    ),
+                  }
+                : group
+            ),
+          }));
+        },
+
+        addRelease: (release) => {
+          set((state) => ({ releases: [...state.releases, release] }));
+        },
+
+        removeRelease: (releaseId) => {
+          // Fire-and-forget: drop the stored PDF from IDB alongside the state update.
+          void deleteReleaseFile(releaseId);
+          const unlink = (ids?: string[]) => ids?.filter((id) => id !== releaseId);
+          set((state) => ({
+            releases: state.releases.filter((r) => r.id !== releaseId),
+            groups: state.groups.map((group) => ({
+              ...group,
+              releaseIds: unlink(group.releaseIds),
+              images: group.images.map((img) => ({ ...img, releaseIds: unlink(img.releaseIds) })),
+            })),
+          }));
+        },
+
         updateImageStatus: (groupId, imageId, status, errorMessage) => {
           set((state) => ({
             groups: state.groups.map((group) =>
@@ -459,7 +668,69 @@ export const useBatchStore = create<BatchState>()(
           }));
         },
 
-        updateGroupTags: (groupId, aiTitle, aiTags, aiConfidence) => {
+        applyDuplicateScan: (flags, stacks) => {
+          const stackOf = new Map<string, { stackId: string; isStackKeeper: boolean }>();
+          for (const ids of stacks) {
+            const stackId = burstStackId(ids);
+            ids.forEach((id, i) => stackOf.set(id, { stackId, isStackKeeper: i === 0 }));
+          }
+          set((state) => ({
+            groups: state.groups.map((group) => ({
+              ...group,
+              images: group.images.map((img) => {
+                const duplicate = flags.get(img.id);
+                const stack = stackOf.get(img.id);
+                if (!duplicate && !stack) return img;
+                return { ...img, ...(duplicate && { duplicate }), ...stack };
+              }),
+            })),
+          }));
+        },
+
+        setStackKeeper: (stackId, imageId) => {
+          set((state) => ({
+            groups: state.groups.map((group) => ({
+              ...group,
+              images: group.images.map((img) =>
+                img.stackId === stackId ? { ...img, isStackKeeper: img.id === imageId } : img
+              ),
+            })),
+          }));
+        },
+
+        unstackImages: (stackId) => {
+          set((state) => ({
+            groups: state.groups.map((group) => ({
+              ...group,
+              images: group.images.map((img) =>
+                img.stackId === stackId
+                  ? { ...img, stackId: undefined, isStackKeeper: undefined }
+                  : img
+              ),
+            })),
+          }));
+        },
+
+        dismissDuplicate: (imageId) => {
+          set((state) => ({
+            groups: state.groups.map((group) => ({
+              ...group,
+              images: group.images.map((img) =>
+                img.id === imageId ? { ...img, duplicate: undefined } : img
+              ),
+            })),
+          }));
+        },
+
+        updateGroupTags: (
+          groupId,
+          aiTitle,
+          aiTags,
+          aiConfidence,
+          tagRelevance,
+          categories,
+          releaseNeeded
+        ) => {
           // Validation: Ensure groupId is defined
           if (!groupId) {
             console.error("[Tagging] ERROR: Attempted to update tags with undefined groupId");
@@ -472,11 +743,16 @@ export const useBatchStore = create<BatchState>()(
                   ...group,
                   sharedTags: aiTags,
                   sharedTitle: aiTitle,
+                  taggingMode: "group" as const,
+                  tagRelevance,
+                  categories: withCategories(group.categories, state.marketplace, categories),
+                  // The samples stand for the whole group, so their release flag does too
                   images: group.images.map((img) => ({
                     ...img,
                     aiTitle,
                     aiTags,
                     aiConfidence,
+                    releaseNeeded,
                     status: "analyzed" as const,
                   })),
                 };
@@ -486,10 +762,70 @@ export const useBatchStore = create<BatchState>()(
           }));
         },
 
+        updateImageTagResults: (groupId, results) => {
+          if (!groupId) {
+            console.error("[Tagging] ERROR: Attempted to update tags with undefined groupId");
+            return;
+          }
+          const maxTags = get().maxTags;
+          const tagRelevance = averageTagRelevance(results);
+          const sharedTags = sortTagsByRelevance(
+            findSharedTags(results.map((r) => r.tags)),
+            tagRelevance
+          );
+          const resultsById = new Map(results.map((r) => [r.imageId, r]));
+          const categories = mostCommonCategories(results.map((r) => r.categories ?? []));
+
+          set((state) => ({
+            groups: state.groups.map((group) => {
+              if (group.id !== groupId) return group;
+              return {
+                ...group,
+                sharedTags,
+                sharedTitle: group.sharedTitle || results[0]?.title,
+                taggingMode: "per-image" as const,
+                tagRelevance,
+                categories: withCategories(group.categories, state.marketplace, categories),
+                images: group.images.map((img) => {
+                  const result = resultsById.get(img.id);
+                  if (!result) return img;
+                  return {
+                    ...img,
+                    aiTitle: result.title,
+                    aiTags: mergeSharedTags(sharedTags, result.tags, maxTags),
+                    aiConfidence: result.confidence,
+                    releaseNeeded: result.releaseNeeded,
+                    status: "analyzed" as const,
+                  };
+                }),
+              };
+            }),
+          }));
+        },
+
         updateGroupMetadata: (groupId, title, description, tags) => {
           const state = get();
           const group = state.groups.find((g) => g.id === groupId);
 
+          // Per-image groups: the edited keywords replace the old shared set in each
+          // image's list, and each image keeps its own title.
+          const isPerImage = group?.taggingMode === "per-image";
+          const imageMetadata = new Map(
+            (group?.images ?? []).map((img) => [
+              img.id,
+              isPerImage
+                ? {
+                    userTitle: img.userTitle ?? img.aiTitle,
+                    userTags: mergeSharedTags(
+                      tags,
+                      getImageSpecificTags(img.userTags ?? img.aiTags ?? [], group.sharedTags),
+                      state.maxTags
+                    ),
+                  }
+                : { userTitle: title, userTags: tags },
+            ])
+          );
+
           set((s) => ({
             groups: s.groups.map((g) =>
               g.id === groupId
@@ -500,8 +836,7 @@ export const useBatchStore = create<BatchState>()(
                     sharedTags: tags,
                     images: g.images.map((img) => ({
                       ...img,
-                      userTitle: title,
-                      userTags: tags,
+                      ...(imageMetadata.get(img.id) ?? { userTitle: title, userTags: tags }),
                       syncStatus: "pending" as const,
                     })),
                   }
@@ -514,11 +849,12 @@ export const useBatchStore = create<BatchState>()(
             const sessionId = state.sessionId || undefined;
             for (const img of group.images) {
               const imgId = img.id;
+              const metadata = imageMetadata.get(imgId);
               syncImageToServer(
                 imgId,
                 {
-                  userTitle: title,
-                  userTags: tags,
+                  userTitle: metadata?.userTitle ?? title,
+                  userTags: metadata?.userTags ?? tags,
                   sessionId,
                   groupId,
                   originalFilename: img.originalFilename,
@@ -566,12 +902,15 @@ export const useBatchStore = create<BatchState>()(
           if (imageIds.length > 0) {
             void Promise.all(imageIds.map((id) => deleteOriginalFile(id)));
           }
+          // The release library is persisted in localStorage, so its PDFs go with it
+          void Promise.all(get().releases.map((r) => deleteReleaseFile(r.id)));
           // Clear all state including persisted localStorage
           set({
             sessionId: null,
             marketplace: "ETSY",
             strategy: "etsy",
             maxTags: 25,
+            taggingMode: "group",
             groups: [],
             currentGroupIndex: 0,
             selectedGroupIds: new Set(),
@@ -581,6 +920,7 @@ export const useBatchStore = create<BatchState>()(
             isTagging: false,
             error: null,
             exportSettings: DEFAULT_EXPORT_SETTINGS,
+            releases: [],
             hasHydrated: false, // allow the next session to re-hydrate
           });
 
@@ -658,6 +998,14 @@ export const useBatchStore = create<BatchState>()(
           set({ tagBlacklist: blacklist });
         },
 
+        setTagSynonyms: (synonyms) => {
+          set({ tagSynonyms: synonyms });
+        },
+
+        setReuseEmbeddedMetadata: (value) => {
+          set({ reuseEmbeddedMetadata: value });
+        },
+
         setNamingSettings: (settings) => {
           set({ namingSettings: settings });
         },
@@ -716,11 +1064,21 @@ export const useBatchStore = create<BatchState>()(
               createdAt: group.createdAt || Date.now() + index,
             }));
 
+            // Uploads the new groups did not take (hidden burst frames) stay in the pool
+            const placed = new Set(newGroups.flatMap((g) => g.images.map((img) => img.id)));
+            const unclustered = state.groups.find((g) => g.id === "unclustered");
+            const leftover = unclustered?.images.filter((img) => !placed.has(img.id)) ?? [];
+
             // Prepend new groups (LIFO — newest first)
             const existingGroups = state.groups.filter((g) => g.id !== "unclustered");
             const allGroups = [...groupsWithNumbers, ...existingGroups];
 
-            return { groups: allGroups };
+            return {
+              groups:
+                unclustered && leftover.length > 0
+                  ? [{ ...unclustered, images: leftover }, ...allGroups]
+                  : allGroups,
+            };
           });
         },
 
@@ -776,9 +1134,13 @@ export const useBatchStore = create<BatchState>()(
           marketplace: state.marketplace,
           strategy: state.strategy,
           maxTags: state.maxTags,
+          taggingMode: state.taggingMode,
           currentGroupIndex: state.currentGroupIndex,
           exportSettings: state.exportSettings,
+          releases: state.releases,
           tagBlacklist: state.tagBlacklist,
+          tagSynonyms: state.tagSynonyms,
+          reuseEmbeddedMetadata: state.reuseEmbeddedMetadata,
           namingSettings: state.namingSettings,
           groupSortOption: state.groupSortOption,
         }),
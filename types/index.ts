@@ -1,3 +1,5 @@
+import type { MarketplaceId } from "@/lib/marketplaces";
+
 // Re-export Prisma types for convenience
 export type {
   User,
@@ -99,11 +101,27 @@ export interface ClusterSettings {
   startNumber?: number; // Starting number for groups (default: 1)
   context?: ClusterContext; // Free-text context for clustering (e.g., "Music festival photos")
   platform?: PlatformType; // Platform optimizer for tag generation
+  taxonomyId?: string; // Saved taxonomy to cluster into (defaults to the approved category list)
+}
+
+// Clustering taxonomies
+export interface TaxonomyCategory {
+  name: string; // Group title the model must use, e.g. "Dessert"
+  description?: string; // What belongs in the bucket, shown to the model
+  keywords?: string[]; // Example keywords that signal the category
+}
+
+export interface Taxonomy {
+  id: string;
+  name: string;
+  categories: TaxonomyCategory[];
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface VisionClusterRequest {
   images: ClusterImageInput[];
-  marketplace: "ETSY" | "ADOBE_STOCK";
+  marketplace: MarketplaceId;
   maxGroups?: number;
   settings?: ClusterSettings;
   /** Zero-based index of this chunk (for telemetry). */
@@ -131,18 +149,32 @@ export interface ImageClusterGroup {
   suggestedLabel?: string; // Deprecated: use title instead
   semanticTags?: string[]; // Multi-level tags: [Broad Category, Specific Type, Vibe/Attribute]
   confidence: number;
+  usageType?: "commercial" | "editorial"; // Set by providers that classify usage per image
 }
 
 // Platform type for Agency Optimizer
 export type PlatformType = "GENERIC" | "ADOBE" | "SHUTTERSTOCK" | "ETSY";
 
+/**
+ * "group": one result from representative samples, inherited by every image.
+ * "per-image": every image gets its own title and keywords.
+ */
+export type TaggingMode = "group" | "per-image";
+
+/** "model" for recognisable people, "property" for private property, artwork or pets */
+export type ReleaseType = "model" | "property";
+
 // Vision Tags types
 export interface VisionTagsRequest {
   images: TagImageInput[];
-  marketplace: "ETSY" | "ADOBE_STOCK";
+  marketplace: MarketplaceId;
   strategy?: "standard" | "etsy" | "stock";
   maxTags?: number;
   platform?: PlatformType;
+  /** Defaults to "group". Per-image mode always bills images.length. */
+  mode?: TaggingMode;
+  /** Tag for editorial use (brands and events may be named). Defaults to commercial. */
+  editorial?: boolean;
   /** Total images in the group (for billing in non-chunked mode). Defaults to images.length if omitted. */
   totalImageCount?: number;
   /** Zero-based index of this chunk. When present, billing is per images.length (not totalImageCount). */
@@ -157,7 +189,11 @@ export interface TagImageInput {
 }
 
 export interface VisionTagsResponse {
+  /** Only results with usable metadata (title + at least one tag) */
   results: ImageTagResult[];
+  /** Requested images that produced no usable metadata and were not billed */
+  failedImageIds: string[];
+  creditsRefunded: number;
   processingTimeMs: number;
 }
 
@@ -165,6 +201,15 @@ export interface ImageTagResult {
   imageId: string;
   title: string;
   description: string;
+  /** Sorted by descending relevance when `tagRelevance` is present */
   tags: string[];
+  /** Model-assigned relevance (0–1) per keyword, keyed by lowercase tag */
+  tagRelevance?: Record<string, number>;
   confidence: number;
+  /** Official category codes for the requested marketplace (agencies with a category list) */
+  categories?: string[];
+  /** Release the model thinks a commercial licence needs, from what it saw in the image */
+  releaseNeeded?: ReleaseType;
+  /** Provider that produced this result (set when a fallback chain is configured) */
+  provider?: string;
 }
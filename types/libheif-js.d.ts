@@ -0,0 +1,31 @@
+declare module "libheif-js/wasm-bundle" {
+  interface HeifImage {
+    get_width(): number;
+    get_height(): number;
+    /**
+     * Decode into a caller-allocated RGBA buffer; the callback receives it back,
+     * or null when decoding fails
+     */
+    display(
+      target: { data: Uint8ClampedArray; width: number; height: number },
+      callback: (result: { data: Uint8ClampedArray; width: number; height: number } | null) => void
+    ): void;
+    /**
+     * Release the native image handle
+     */
+    free(): void;
+  }
+
+  class HeifDecoder {
+    /**
+     * Parse a HEIF container; returns every top-level image (the first is the primary)
+     */
+    decode(buffer: ArrayBuffer | Uint8Array): HeifImage[];
+  }
+
+  const libheif: {
+    HeifDecoder: typeof HeifDecoder;
+  };
+
+  export default libheif;
+}